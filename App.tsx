@@ -1,39 +1,138 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { InputForm } from './components/InputForm';
 import { MusicCard } from './components/MusicCard';
 import { ApiKeyModal } from './components/ApiKeyModal';
+import { LibraryView } from './components/LibraryView';
+import { RefinePanel } from './components/RefinePanel';
+import { VideoDropzone } from './components/VideoDropzone';
+import type { VideoStatus } from './components/VideoDropzone';
+import { VideoSyncPlayer } from './components/VideoSyncPlayer';
+import { VoiceoverPanel } from './components/VoiceoverPanel';
+import { HistoryView } from './components/HistoryView';
+import { SettingsModal } from './components/SettingsModal';
 import { SparklesIcon, MusicNoteIcon, ExclamationIcon } from './components/Icons';
-import { initializeAi, generateMusicRecommendations } from './services/geminiService';
-import { generateAudioPreview } from './utils/audioGenerator';
-import type { MusicRecommendation } from './types';
+import { createProvider, loadProviderSettings, saveProviderSettings, needsGeminiKey } from './services/providers';
+import type { ProviderSettings } from './services/providers';
+import { streamWithRetry } from './services/recommendationProvider';
+import type { RecommendationProvider } from './services/recommendationProvider';
+import { AppError, ERROR_MESSAGES, classifyError, isAbortError, isRetryableKind } from './services/errors';
+import type { ErrorKind } from './services/errors';
+import { getLibraryEntries, saveLibraryEntry, deleteLibraryEntry } from './services/libraryService';
+import { getSessions, saveSession, deleteSession } from './services/historyService';
+import { renderPreview, retainPreviewUrl, releasePreviewUrl } from './utils/previewRenderer';
+import { PREVIEW_DURATION } from './utils/audioGenerator';
+import type { RenderPriority } from './utils/previewRenderer';
+import { buildMusicSpec, getTrackSpec } from './utils/musicSpec';
+import { audibleStems, stemsOf } from './utils/stems';
+import { exportTrack } from './utils/exporter';
+import { randomSeed } from './utils/random';
+import { analyzeMedia } from './utils/videoAnalysis';
+import { analyzeVoiceover } from './utils/voiceover';
+import type { VoiceoverSource } from './utils/voiceover';
+import type { ExportOptions } from './utils/exporter';
+import type { MusicRecommendation, MusicSpec, LibraryEntry, GenerationInput, GenerationSession, PreviewState, FeedbackVerdict, Refinement, Scene, StemMix, VideoAnalysis } from './types';
 import { MOODS } from './constants';
 
+type View = 'discover' | 'library' | 'history';
+
+const VIEW_LABELS: Record<View, string> = {
+  discover: 'Discover',
+  library: 'Library',
+  history: 'History',
+};
+
+// Results rendered before anyone asks for them, roughly the first row of cards
+const BACKGROUND_PREVIEWS = 4;
+
+interface ErrorNotice {
+  message: string;
+  /** Set for classified failures; decides which recovery actions the banner offers. */
+  kind?: ErrorKind;
+}
+
 const App: React.FC = () => {
   const [apiKey, setApiKey] = useState<string | null>(() => localStorage.getItem('gemini-api-key'));
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [provider, setProvider] = useState<RecommendationProvider | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [topic, setTopic] = useState('');
   const [story, setStory] = useState('');
   const [mood, setMood] = useState(MOODS[0]);
+  const [scenes, setScenes] = useState<Scene[]>([]);
   const [recommendations, setRecommendations] = useState<MusicRecommendation[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('');
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorNotice | null>(null);
   const [playingTrackId, setPlayingTrackId] = useState<string | null>(null);
-  const [bookmarkedTracks, setBookmarkedTracks] = useState<Set<string>>(new Set());
+  const [library, setLibrary] = useState<LibraryEntry[]>([]);
+  const [sessions, setSessions] = useState<GenerationSession[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [view, setView] = useState<View>('discover');
+  // Audio previews by track id, rendered lazily for results, history and library alike
+  const [previews, setPreviews] = useState<Record<string, PreviewState>>({});
+  // Muted and soloed layers of each track's preview, by track id
+  const [stemMixes, setStemMixes] = useState<Record<string, StemMix>>({});
+  // Whether the playing card shows a live spectrum; kept across visits
+  const [showSpectrum, setShowSpectrum] = useState(() => localStorage.getItem('show-spectrum') === 'true');
+  // "More/less like this" marks on the results on screen, by track id
+  const [feedback, setFeedback] = useState<Record<string, FeedbackVerdict>>({});
   const [hasGenerated, setHasGenerated] = useState(false);
+  const [videoAnalysis, setVideoAnalysis] = useState<VideoAnalysis | null>(null);
+  const [videoStatus, setVideoStatus] = useState<VideoStatus>('idle');
+  const [videoProgress, setVideoProgress] = useState(0);
+  // The uploaded video itself, kept for previewing tracks against it; null for a set of stills
+  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [syncTrackId, setSyncTrackId] = useState<string | null>(null);
+  // Narration to duck exports under, with where it speaks
+  const [voiceover, setVoiceover] = useState<VoiceoverSource | null>(null);
+  const [isAnalyzingVoiceover, setIsAnalyzingVoiceover] = useState(false);
 
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Inputs of the batch currently on screen, recorded with each bookmark
+  const generationInputRef = useRef<GenerationInput | null>(null);
+  // Withdraws a track's pending preview requests when it leaves the screen
+  const previewControllersRef = useRef(new Map<string, AbortController>());
+  // Cancels the generation in progress when a new one starts or the user stops it
+  const generationRef = useRef<AbortController | null>(null);
+  // Cancels analyzing or describing the uploaded video when another replaces it
+  const videoRef = useRef<AbortController | null>(null);
+  // Cancels analyzing a voiceover when another replaces it
+  const voiceoverRef = useRef<AbortController | null>(null);
+  // Track the user most recently asked to hear, so a slow render doesn't start a stale one
+  const requestedTrackIdRef = useRef<string | null>(null);
+  // The same stem mixes, for preview requests made before the next render
+  const stemMixesRef = useRef(stemMixes);
+  // Preview URLs held on behalf of the cards showing them
+  const heldPreviewUrlsRef = useRef(new Set<string>());
+
+  const bookmarkedTracks = useMemo(() => new Set(library.map(entry => entry.id)), [library]);
 
   useEffect(() => {
-    if (apiKey) {
-      try {
-        initializeAi(apiKey);
-      } catch (e) {
-        console.error(e);
-        setError("There was an issue initializing with your API key. Please check the key format.");
-        resetApiKey();
-      }
+    getLibraryEntries()
+      .then(setLibrary)
+      .catch(err => {
+        console.error(err);
+        setError({ message: 'Could not load your saved library.' });
+      });
+    getSessions()
+      .then(setSessions)
+      .catch(err => console.error('Could not load generation history:', err));
+  }, []);
+
+  useEffect(() => {
+    if (needsGeminiKey(providerSettings, apiKey)) {
+      setProvider(null);
+      return;
+    }
+    try {
+      setProvider(createProvider(providerSettings, apiKey));
+    } catch (e) {
+      console.error(e);
+      setProvider(null);
+      setError({ message: "There was an issue initializing with your API key. Please check the key format.", kind: 'invalid-key' });
+      resetApiKey();
     }
-  }, [apiKey]);
+  }, [providerSettings, apiKey]);
   
   useEffect(() => {
     // Initialize Audio object
@@ -51,12 +150,10 @@ const App: React.FC = () => {
         audioRef.current.pause();
         audioRef.current = null;
       }
-      // Revoke any existing blob URLs to prevent memory leaks
-      recommendations.forEach(track => {
-        if (track.previewUrl) {
-          URL.revokeObjectURL(track.previewUrl);
-        }
-      });
+      generationRef.current?.abort();
+      videoRef.current?.abort();
+      voiceoverRef.current?.abort();
+      previewControllersRef.current.forEach(controller => controller.abort());
     };
   }, []); // Empty dependency array ensures this runs only once
 
@@ -70,84 +167,481 @@ const App: React.FC = () => {
     setApiKey(null);
   };
 
-  const handleGenerate = useCallback(async (isRefresh = false) => {
+  const handleSaveSettings = (settings: ProviderSettings) => {
+    saveProviderSettings(settings);
+    setProviderSettings(settings);
+    setIsSettingsOpen(false);
+  };
+
+  const requestPreview = useCallback((track: MusicRecommendation, priority: RenderPriority): Promise<string> => {
+    let controller = previewControllersRef.current.get(track.id);
+    if (!controller) {
+      controller = new AbortController();
+      previewControllersRef.current.set(track.id, controller);
+    }
+    const setStatus = (preview: PreviewState) => setPreviews(prev => ({ ...prev, [track.id]: preview }));
+
+    setPreviews(prev => prev[track.id]?.status === 'ready' || prev[track.id]?.status === 'rendering'
+      ? prev
+      : { ...prev, [track.id]: { status: 'queued' } });
+    const spec = getTrackSpec(track);
+    return renderPreview(spec, track.seed, {
+      priority,
+      signal: controller.signal,
+      stems: audibleStems(stemMixesRef.current[track.id], stemsOf(spec)),
+      onStart: () => setPreviews(prev => prev[track.id]?.status === 'ready' ? prev : { ...prev, [track.id]: { status: 'rendering' } }),
+    }).then(
+      ({ url, loudness, peaks }) => {
+        setStatus({ status: 'ready', url, loudness, peaks });
+        return url;
+      },
+      (err) => {
+        // A cancelled request was released along with its track, so there is nothing to update
+        if (isAbortError(err)) throw err;
+        setStatus({ status: 'error' });
+        throw new AppError('render', { cause: err });
+      },
+    );
+  }, []);
+
+  const releasePreviews = (tracks: MusicRecommendation[]) => {
+    // Library entries keep their preview so they stay instantly playable
+    const released = tracks.filter(track => !bookmarkedTracks.has(track.id));
+    // The render cache keeps their URLs for reuse if a track comes back, and revokes them once it moves on
+    released.forEach(track => {
+      previewControllersRef.current.get(track.id)?.abort();
+      previewControllersRef.current.delete(track.id);
+    });
+    setPreviews(prev => {
+      const next = { ...prev };
+      released.forEach(track => delete next[track.id]);
+      return next;
+    });
+  };
+
+  // Holds every preview URL a card shows, so the render cache can't revoke one still in use
+  useEffect(() => {
+    const urls = new Set(Object.values(previews).flatMap((preview: PreviewState) => preview.status === 'ready' ? [preview.url] : []));
+    urls.forEach(url => {
+      if (!heldPreviewUrlsRef.current.has(url)) retainPreviewUrl(url);
+    });
+    heldPreviewUrlsRef.current.forEach(url => {
+      if (!urls.has(url)) releasePreviewUrl(url);
+    });
+    heldPreviewUrlsRef.current = urls;
+  }, [previews]);
+
+  // Only the first few results are rendered ahead of time; the rest wait until their card
+  // is hovered or played, so a big batch doesn't tie up a slow machine.
+  useEffect(() => {
+    recommendations
+      .slice(0, BACKGROUND_PREVIEWS)
+      .filter(track => !previews[track.id])
+      .forEach(track => requestPreview(track, 'background').catch(err => {
+        if (!isAbortError(err)) console.error('Could not render preview:', err);
+      }));
+  }, [recommendations, previews, requestPreview]);
+
+  const prioritizePreview = (track: MusicRecommendation) => {
+    const status = previews[track.id]?.status;
+    if (status === 'ready' || status === 'rendering') return;
+    requestPreview(track, 'hover').catch(err => {
+      if (!isAbortError(err)) console.error('Could not render preview:', err);
+    });
+  };
+
+  const describeVideo = async (analysis: VideoAnalysis) => {
+    const signal = videoRef.current?.signal;
+    if (!provider?.describeVideo || !signal) return;
+    setVideoStatus('describing');
+    try {
+      const description = await provider.describeVideo(analysis, signal);
+      setTopic(description.topic);
+      setStory(description.story);
+      setMood(description.mood);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      // No kind: the banner's recovery actions are for generation failures
+      setError({ message: `Could not fill in the details from the video. ${classifyError(err).message}` });
+    }
+    setVideoStatus('idle');
+  };
+
+  const handleVideoFiles = async (files: File[]) => {
+    videoRef.current?.abort();
+    const controller = new AbortController();
+    videoRef.current = controller;
+    setVideoAnalysis(null);
+    setVideoFile(null);
+    setSyncTrackId(null);
+    setVideoProgress(0);
+    setVideoStatus('analyzing');
+    let analysis: VideoAnalysis;
+    try {
+      analysis = await analyzeMedia(files, { signal: controller.signal, onProgress: setVideoProgress });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error(err);
+      setVideoStatus('idle');
+      setError({ message: err instanceof Error ? `Could not analyze that file. ${err.message}` : 'Could not analyze that file.' });
+      return;
+    }
+    setVideoAnalysis(analysis);
+    setVideoFile(files.find(file => file.type.startsWith('video/')) ?? null);
+    setVideoStatus('idle');
+    await describeVideo(analysis);
+  };
+
+  const clearVideo = () => {
+    videoRef.current?.abort();
+    videoRef.current = null;
+    setVideoAnalysis(null);
+    setVideoFile(null);
+    setSyncTrackId(null);
+    setVideoStatus('idle');
+  };
+
+  const handleVoiceoverFile = async (file: File) => {
+    voiceoverRef.current?.abort();
+    const controller = new AbortController();
+    voiceoverRef.current = controller;
+    setVoiceover(null);
+    setIsAnalyzingVoiceover(true);
+    try {
+      const analysis = await analyzeVoiceover(file, controller.signal);
+      setVoiceover({ file, analysis });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error(err);
+      setError({ message: 'Could not read that voiceover. Try a WAV, MP3 or M4A file.' });
+    }
+    setIsAnalyzingVoiceover(false);
+  };
+
+  const clearVoiceover = () => {
+    voiceoverRef.current?.abort();
+    voiceoverRef.current = null;
+    setVoiceover(null);
+    setIsAnalyzingVoiceover(false);
+  };
+
+  const handleGenerate = useCallback(async (isRefresh = false, refinement?: Refinement) => {
     if (!topic || !story) {
-      setError('Please fill in both the topic and story fields.');
+      setError({ message: 'Please fill in both the topic and story fields.' });
+      return;
+    }
+    if (!provider) {
+      setError({ message: 'No recommendation provider is configured. Check your settings.' });
       return;
     }
+    // A second click or a Refresh replaces the generation in progress instead of racing it
+    generationRef.current?.abort();
+    const controller = new AbortController();
+    generationRef.current = controller;
+
     setIsLoading(true);
     setError(null);
     if (!isRefresh) {
       setHasGenerated(true);
     }
+    const input: GenerationInput = { topic, story, mood };
+    // A single scene is just the whole video
+    if (scenes.length > 1) input.scenes = [...scenes].sort((a, b) => a.start - b.start);
+    if (refinement) input.refinement = refinement;
+    generationInputRef.current = input;
     
     // Clean up old URLs before generating new ones
-    recommendations.forEach(track => {
-        if (track.previewUrl) URL.revokeObjectURL(track.previewUrl);
-    });
+    releasePreviews(recommendations);
     setRecommendations([]);
+    setFeedback({});
 
+    const batchId = Date.now();
+    const received: MusicRecommendation[] = [];
     try {
       setLoadingMessage('Generating your vibes...');
-      const results = await generateMusicRecommendations(topic, story, mood);
-      const recommendationsWithIds = results.map((track, index) => ({
-        ...track,
-        id: `${Date.now()}-${index}`,
-      }));
-
-      setLoadingMessage('Synthesizing audio previews...');
-      const tracksWithAudio = await Promise.all(
-        recommendationsWithIds.map(async (track) => {
-          const previewUrl = await generateAudioPreview(track.musicDescription);
-          return { ...track, previewUrl };
-        })
-      );
+      const stream = streamWithRetry(provider, input, {
+        signal: controller.signal,
+        onRetry: (retryError, delayMs) => {
+          console.warn('Retrying after error:', retryError);
+          setLoadingMessage(`${provider.label} didn't answer properly. Retrying in ${Math.ceil(delayMs / 1000)}s...`);
+        },
+      });
+      for await (const result of stream) {
+        controller.signal.throwIfAborted();
+        const track: MusicRecommendation = {
+          ...result,
+          id: `${batchId}-${received.length}`,
+          spec: buildMusicSpec(
+            result.musicDescription,
+            result.attributes,
+            input.scenes && result.sceneAttributes
+              ? input.scenes.map((scene, index) => ({ start: scene.start, attributes: result.sceneAttributes![index] ?? {} }))
+              : undefined,
+          ),
+          seed: randomSeed(),
+        };
+        received.push(track);
+        setRecommendations(prev => [...prev, track]);
+      }
 
-      setRecommendations(tracksWithAudio);
+      const session: GenerationSession = {
+        id: `${batchId}`,
+        input,
+        model: `${provider.label} · ${provider.model}`,
+        createdAt: batchId,
+        tracks: received,
+      };
+      setCurrentSessionId(session.id);
+      saveSession(session)
+        .then(setSessions)
+        .catch(historyError => console.error('Could not record generation history:', historyError));
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error(err);
-      setError('Failed to generate music recommendations. Please check your API key and try again.');
+      const appError = classifyError(err);
+      setError({
+        kind: appError.kind,
+        message: received.length > 0
+          ? `Stopped after ${received.length} tracks: ${appError.message}`
+          : appError.message,
+      });
     } finally {
-      setIsLoading(false);
-      setLoadingMessage('');
+      // A newer generation owns the loading state once this one has been replaced
+      if (generationRef.current === controller) {
+        generationRef.current = null;
+        setIsLoading(false);
+        setLoadingMessage('');
+      }
     }
-  }, [topic, story, mood, recommendations]);
+  }, [topic, story, mood, scenes, recommendations, provider, bookmarkedTracks]);
 
-  const toggleBookmark = (id: string) => {
-    setBookmarkedTracks(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(id)) {
-        newSet.delete(id);
+  const toggleFeedback = (track: MusicRecommendation, verdict: FeedbackVerdict) => {
+    setFeedback(prev => {
+      const next = { ...prev };
+      if (next[track.id] === verdict) {
+        delete next[track.id];
       } else {
-        newSet.add(id);
+        next[track.id] = verdict;
       }
-      return newSet;
+      return next;
+    });
+  };
+
+  const refine = (note: string) => {
+    const marked = recommendations
+      .filter(track => feedback[track.id])
+      .map(({ trackName, musicDescription, attributes, id }) => ({ trackName, musicDescription, attributes, verdict: feedback[id] }));
+    handleGenerate(true, { feedback: marked, note });
+  };
+
+  const cancelGeneration = () => {
+    generationRef.current?.abort();
+    generationRef.current = null;
+    setIsLoading(false);
+    setLoadingMessage('');
+  };
+
+  const toggleBookmark = async (track: MusicRecommendation) => {
+    try {
+      if (bookmarkedTracks.has(track.id)) {
+        await deleteLibraryEntry(track.id);
+        setLibrary(prev => prev.filter(entry => entry.id !== track.id));
+      } else {
+        const entry: LibraryEntry = {
+          ...track,
+          spec: getTrackSpec(track),
+          source: generationInputRef.current ?? { topic, story, mood },
+          tags: [],
+          savedAt: Date.now(),
+        };
+        await saveLibraryEntry(entry);
+        setLibrary(prev => [entry, ...prev]);
+      }
+    } catch (err) {
+      console.error(err);
+      setError({ message: 'Could not update your library.' });
+    }
+  };
+
+  const updateTags = async (entry: LibraryEntry, tags: string[]) => {
+    const updated = { ...entry, tags };
+    try {
+      await saveLibraryEntry(updated);
+      setLibrary(prev => prev.map(existing => existing.id === entry.id ? updated : existing));
+    } catch (err) {
+      console.error(err);
+      setError({ message: 'Could not update your library.' });
+    }
+  };
+
+  // Drops a preview that no longer matches and renders the new one under its own cache key,
+  // picking playback back up where it was if the track was playing
+  const replacePreview = (track: MusicRecommendation, wasPlaying: boolean, resumeAt = 0) => {
+    previewControllersRef.current.get(track.id)?.abort();
+    previewControllersRef.current.delete(track.id);
+    setPreviews(prev => {
+      const next = { ...prev };
+      delete next[track.id];
+      return next;
     });
+
+    requestedTrackIdRef.current = track.id;
+    requestPreview(track, 'playback')
+      .then(url => {
+        const player = audioRef.current;
+        if (!wasPlaying || !player || requestedTrackIdRef.current !== track.id) return;
+        player.src = url;
+        player.currentTime = resumeAt;
+        player.play().catch(e => console.error("Audio playback failed:", e));
+        setPlayingTrackId(track.id);
+      })
+      .catch(err => {
+        if (!isAbortError(err)) console.error('Could not render preview:', err);
+      });
+  };
+
+  const changeStemMix = (track: MusicRecommendation, mix: StemMix) => {
+    stemMixesRef.current = { ...stemMixesRef.current, [track.id]: mix };
+    setStemMixes(stemMixesRef.current);
+    const player = audioRef.current;
+    const wasPlaying = playingTrackId === track.id;
+    const resumeAt = wasPlaying && player ? player.currentTime : 0;
+    if (wasPlaying) player?.pause();
+    replacePreview(track, wasPlaying, resumeAt);
+  };
+
+  const updateTrackSpec = async (track: MusicRecommendation, spec: MusicSpec) => {
+    const wasPlaying = playingTrackId === track.id;
+    if (wasPlaying) audioRef.current?.pause();
+
+    const withSpec = <T extends MusicRecommendation>(existing: T): T => existing.id === track.id ? { ...existing, spec } : existing;
+    setRecommendations(prev => prev.map(withSpec));
+    replacePreview(withSpec(track), wasPlaying);
+
+    try {
+      const entry = library.find(existing => existing.id === track.id);
+      if (entry) {
+        await saveLibraryEntry(withSpec(entry));
+        setLibrary(prev => prev.map(withSpec));
+      }
+      const session = sessions.find(existing => existing.tracks.some(sessionTrack => sessionTrack.id === track.id));
+      if (session) {
+        setSessions(await saveSession({ ...session, tracks: session.tracks.map(withSpec) }));
+      }
+    } catch (err) {
+      console.error(err);
+      setError({ message: 'Could not save your changes to the track.' });
+    }
+  };
+
+  const toggleSpectrum = () => {
+    localStorage.setItem('show-spectrum', String(!showSpectrum));
+    setShowSpectrum(!showSpectrum);
   };
 
-  const togglePlay = (id: string) => {
-    const track = recommendations.find(t => t.id === id);
+  /**
+   * Plays a track's preview, or pauses it if it's the one playing.
+   * @param startAt How far into the preview to start, from 0 to 1.
+   */
+  const togglePlay = async (track: MusicRecommendation, startAt = 0) => {
     const player = audioRef.current;
-    if (!track || !player || !track.previewUrl) return;
+    if (!player) return;
 
-    if (playingTrackId === id) {
+    if (playingTrackId === track.id) {
       player.pause();
       setPlayingTrackId(null);
-    } else {
-      if (playingTrackId) { // Pause currently playing track before starting new one
-          player.pause();
-      }
-      player.src = track.previewUrl;
-      player.play().catch(e => console.error("Audio playback failed:", e));
-      setPlayingTrackId(id);
+      return;
+    }
+
+    requestedTrackIdRef.current = track.id;
+    let previewUrl: string;
+    try {
+      previewUrl = await requestPreview(track, 'playback');
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error(err);
+      setError({ message: ERROR_MESSAGES.render, kind: 'render' });
+      return;
+    }
+    if (requestedTrackIdRef.current !== track.id) return;
+
+    if (playingTrackId) { // Pause currently playing track before starting new one
+        player.pause();
+    }
+    player.src = previewUrl;
+    player.currentTime = startAt * PREVIEW_DURATION;
+    player.play().catch(e => console.error("Audio playback failed:", e));
+    setPlayingTrackId(track.id);
+  };
+
+  const seekTrack = (track: MusicRecommendation, fraction: number) => {
+    const player = audioRef.current;
+    if (player && playingTrackId === track.id) {
+      player.currentTime = fraction * (Number.isFinite(player.duration) ? player.duration : PREVIEW_DURATION);
+      return;
     }
+    togglePlay(track, fraction);
   };
   
+  const openSession = (session: GenerationSession) => {
+    cancelGeneration();
+    audioRef.current?.pause();
+    setPlayingTrackId(null);
+    releasePreviews(recommendations);
+    // Previews are rendered again from each track's spec and seed
+    setRecommendations(session.tracks);
+    setFeedback({});
+    setTopic(session.input.topic);
+    setStory(session.input.story);
+    setMood(session.input.mood);
+    setScenes(session.input.scenes ?? []);
+    generationInputRef.current = session.input;
+    setCurrentSessionId(session.id);
+    setHasGenerated(true);
+    setError(null);
+    setView('discover');
+  };
+
+  const rerunSession = (session: GenerationSession) => {
+    setTopic(session.input.topic);
+    setStory(session.input.story);
+    setMood(session.input.mood);
+    setScenes(session.input.scenes ?? []);
+    setView('discover');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const removeSession = async (session: GenerationSession) => {
+    try {
+      await deleteSession(session.id);
+      setSessions(prev => prev.filter(existing => existing.id !== session.id));
+    } catch (err) {
+      console.error(err);
+      setError({ message: 'Could not delete that session from your history.' });
+    }
+  };
+
+  const handleExport = (track: MusicRecommendation, options: ExportOptions) => exportTrack(track, options, voiceover);
+
+  // Exports default to the uploaded video's length, or the voiceover's, within what the exporter accepts
+  const mediaLength = videoAnalysis?.duration ?? voiceover?.analysis.duration;
+  const exportLength = mediaLength != null
+    ? Math.min(600, Math.max(1, Math.round(mediaLength * 10) / 10))
+    : undefined;
+
+  const syncTrack = recommendations.find(track => track.id === syncTrackId);
+  const canPreviewWithVideo = videoFile !== null && videoAnalysis?.duration != null;
+
   const bookmarkedList = recommendations.filter(track => bookmarkedTracks.has(track.id));
   const recommendedList = recommendations.filter(track => !bookmarkedTracks.has(track.id));
 
-  if (!apiKey) {
-    return <ApiKeyModal onSetApiKey={handleSetApiKey} />;
+  if (needsGeminiKey(providerSettings, apiKey)) {
+    return (
+      <ApiKeyModal
+        onSetApiKey={handleSetApiKey}
+        onUseOffline={() => handleSaveSettings({ ...providerSettings, provider: 'mock' })}
+      />
+    );
   }
 
   return (
@@ -160,110 +654,258 @@ const App: React.FC = () => {
           <p className="mt-4 text-lg text-gray-400 max-w-2xl mx-auto">
             Instantly find the perfect background music for your short videos.
           </p>
+          <nav className="mt-8 inline-flex bg-white/5 border border-white/10 rounded-lg p-1">
+            {(Object.keys(VIEW_LABELS) as View[]).map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setView(tab)}
+                className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${view === tab ? 'bg-white/15 text-white' : 'text-gray-400 hover:text-white'}`}
+              >
+                {tab === 'library' ? `${VIEW_LABELS[tab]} (${library.length})` : VIEW_LABELS[tab]}
+              </button>
+            ))}
+          </nav>
         </header>
 
-        <div className="max-w-3xl mx-auto bg-white/5 p-8 rounded-2xl shadow-2xl border border-white/10 backdrop-blur-lg">
-          <InputForm
-            topic={topic}
-            setTopic={setTopic}
-            story={story}
-            setStory={setStory}
-            mood={mood}
-            setMood={setMood}
-            onSubmit={() => handleGenerate(false)}
-            isLoading={isLoading}
-          />
-        </div>
+        {view === 'discover' && (
+          <div className="max-w-3xl mx-auto bg-white/5 p-8 rounded-2xl shadow-2xl border border-white/10 backdrop-blur-lg">
+            <div className="mb-6">
+              <VideoDropzone
+                analysis={videoAnalysis}
+                status={videoStatus}
+                progress={videoProgress}
+                canDescribe={Boolean(provider?.describeVideo)}
+                onFiles={handleVideoFiles}
+                onDescribe={() => videoAnalysis && describeVideo(videoAnalysis)}
+                onClear={clearVideo}
+              />
+            </div>
+            <div className="mb-6">
+              <VoiceoverPanel
+                file={voiceover?.file ?? null}
+                analysis={voiceover?.analysis ?? null}
+                isAnalyzing={isAnalyzingVoiceover}
+                onFile={handleVoiceoverFile}
+                onClear={clearVoiceover}
+              />
+            </div>
+            <InputForm
+              topic={topic}
+              setTopic={setTopic}
+              story={story}
+              setStory={setStory}
+              mood={mood}
+              setMood={setMood}
+              scenes={scenes}
+              setScenes={setScenes}
+              detectedCuts={videoAnalysis?.sceneCuts}
+              onSubmit={() => handleGenerate(false)}
+              isLoading={isLoading}
+            />
+          </div>
+        )}
 
         {error && (
           <div className="mt-8 max-w-3xl mx-auto bg-red-500/10 border border-red-500/30 text-red-300 px-4 py-3 rounded-lg flex items-center justify-between">
             <div className="flex items-center">
               <ExclamationIcon className="h-5 w-5 mr-3 flex-shrink-0" />
-              <span>{error}</span>
+              <span>{error.message}</span>
             </div>
-            <button onClick={resetApiKey} className="ml-4 text-sm bg-red-500/20 hover:bg-red-500/40 px-3 py-1 rounded-md transition-colors flex-shrink-0">
-              Change Key
-            </button>
+            {error.kind === 'invalid-key' && providerSettings.provider === 'gemini' && (
+              <button onClick={resetApiKey} className="ml-4 text-sm bg-red-500/20 hover:bg-red-500/40 px-3 py-1 rounded-md transition-colors flex-shrink-0">
+                Change Key
+              </button>
+            )}
+            {error.kind === 'invalid-key' && providerSettings.provider === 'openai-compatible' && (
+              <button onClick={() => setIsSettingsOpen(true)} className="ml-4 text-sm bg-red-500/20 hover:bg-red-500/40 px-3 py-1 rounded-md transition-colors flex-shrink-0">
+                Open Settings
+              </button>
+            )}
+            {error.kind && isRetryableKind(error.kind) && (
+              <button onClick={() => handleGenerate(true, generationInputRef.current?.refinement)} className="ml-4 text-sm bg-red-500/20 hover:bg-red-500/40 px-3 py-1 rounded-md transition-colors flex-shrink-0">
+                Try Again
+              </button>
+            )}
           </div>
         )}
 
-        <div className="mt-16">
-          {isLoading && (
-             <div className="flex flex-col items-center justify-center text-gray-400">
-                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-400"></div>
-                <p className="mt-4 text-lg">{loadingMessage}</p>
-             </div>
-          )}
-
-          {!isLoading && !hasGenerated && (
-            <div className="text-center text-gray-500 flex flex-col items-center">
-                <MusicNoteIcon className="w-16 h-16 mb-4"/>
-                <h3 className="text-2xl font-semibold text-gray-300">Your soundtrack awaits</h3>
-                <p>Fill out the form above to get started.</p>
-            </div>
-          )}
+        {view === 'history' && (
+          <HistoryView
+            sessions={sessions}
+            currentSessionId={currentSessionId}
+            onOpen={openSession}
+            onRerun={rerunSession}
+            onDelete={removeSession}
+          />
+        )}
+
+        {view === 'library' && (
+          <LibraryView
+            entries={library}
+            playingTrackId={playingTrackId}
+            previews={previews}
+            onHover={prioritizePreview}
+            onPlay={togglePlay}
+            player={audioRef.current}
+            onSeek={seekTrack}
+            showSpectrum={showSpectrum}
+            onToggleSpectrum={toggleSpectrum}
+            onDelete={toggleBookmark}
+            onUpdateTags={updateTags}
+            onEditSpec={updateTrackSpec}
+            stemMixes={stemMixes}
+            onStemMixChange={changeStemMix}
+            onExport={handleExport}
+            voiceoverName={voiceover?.analysis.name}
+          />
+        )}
+
+        {view === 'discover' && (
+          <div className="mt-16">
+            {syncTrack && videoFile && videoAnalysis?.duration != null && (
+              <VideoSyncPlayer
+                videoFile={videoFile}
+                analysis={videoAnalysis}
+                duration={videoAnalysis.duration}
+                track={syncTrack}
+                onPlay={() => audioRef.current?.pause()}
+                onClose={() => setSyncTrackId(null)}
+              />
+            )}
+            {isLoading && recommendations.length === 0 && (
+               <div className="flex flex-col items-center justify-center text-gray-400">
+                  <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-400"></div>
+                  <p className="mt-4 text-lg">{loadingMessage}</p>
+                  <button onClick={cancelGeneration} className="mt-4 text-sm text-gray-500 hover:text-gray-300 hover:underline transition-colors">
+                    Cancel
+                  </button>
+               </div>
+            )}
+
+            {!isLoading && !hasGenerated && (
+              <div className="text-center text-gray-500 flex flex-col items-center">
+                  <MusicNoteIcon className="w-16 h-16 mb-4"/>
+                  <h3 className="text-2xl font-semibold text-gray-300">Your soundtrack awaits</h3>
+                  <p>Fill out the form above to get started.</p>
+              </div>
+            )}
           
-          {recommendations.length > 0 && !isLoading && (
-            <>
-              {bookmarkedList.length > 0 && (
-                <section className="mb-12">
-                  <h2 className="text-2xl font-bold mb-6 text-gray-200 border-b-2 border-purple-500/50 pb-2">Bookmarked</h2>
+            {recommendations.length > 0 && (
+              <>
+                {bookmarkedList.length > 0 && (
+                  <section className="mb-12">
+                    <h2 className="text-2xl font-bold mb-6 text-gray-200 border-b-2 border-purple-500/50 pb-2">Bookmarked</h2>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                      {bookmarkedList.map((track) => (
+                        <MusicCard
+                          key={track.id}
+                          track={track}
+                          isPlaying={playingTrackId === track.id}
+                          isBookmarked={true}
+                          preview={previews[track.id]}
+                          onHover={() => prioritizePreview(track)}
+                          onPlay={() => togglePlay(track)}
+                          player={playingTrackId === track.id ? audioRef.current : null}
+                          onSeek={(fraction) => seekTrack(track, fraction)}
+                          showSpectrum={showSpectrum}
+                          onToggleSpectrum={toggleSpectrum}
+                          onBookmark={() => toggleBookmark(track)}
+                          feedback={feedback[track.id]}
+                          onFeedback={(verdict) => toggleFeedback(track, verdict)}
+                          onEditSpec={(spec) => updateTrackSpec(track, spec)}
+                          stemMix={stemMixes[track.id]}
+                          onStemMixChange={(mix) => changeStemMix(track, mix)}
+                          defaultExportLength={exportLength}
+                          onPreviewWithVideo={canPreviewWithVideo ? () => setSyncTrackId(track.id) : undefined}
+                          onExport={(options) => handleExport(track, options)}
+                          voiceoverName={voiceover?.analysis.name}
+                        />
+                      ))}
+                    </div>
+                  </section>
+                )}
+
+                <section>
+                   <div className="flex justify-between items-center mb-6">
+                      <h2 className="text-2xl font-bold text-gray-200 border-b-2 border-pink-500/50 pb-2">Recommendations</h2>
+                      <button
+                        onClick={() => handleGenerate(true)}
+                        disabled={isLoading}
+                        className="flex items-center gap-2 px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <SparklesIcon className="w-5 h-5"/>
+                        <span>Refresh</span>
+                      </button>
+                    </div>
+                  <RefinePanel
+                    likedCount={Object.values(feedback).filter(verdict => verdict === 'more').length}
+                    dislikedCount={Object.values(feedback).filter(verdict => verdict === 'less').length}
+                    disabled={isLoading}
+                    onRefine={refine}
+                    onClearMarks={() => setFeedback({})}
+                  />
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                    {bookmarkedList.map((track) => (
+                    {recommendedList.map((track) => (
                       <MusicCard
                         key={track.id}
                         track={track}
                         isPlaying={playingTrackId === track.id}
-                        isBookmarked={true}
-                        onPlay={() => togglePlay(track.id)}
-                        onBookmark={() => toggleBookmark(track.id)}
+                        isBookmarked={false}
+                        preview={previews[track.id]}
+                        onHover={() => prioritizePreview(track)}
+                        onPlay={() => togglePlay(track)}
+                        player={playingTrackId === track.id ? audioRef.current : null}
+                        onSeek={(fraction) => seekTrack(track, fraction)}
+                        showSpectrum={showSpectrum}
+                        onToggleSpectrum={toggleSpectrum}
+                        onBookmark={() => toggleBookmark(track)}
+                        feedback={feedback[track.id]}
+                        onFeedback={(verdict) => toggleFeedback(track, verdict)}
+                        onEditSpec={(spec) => updateTrackSpec(track, spec)}
+                        stemMix={stemMixes[track.id]}
+                        onStemMixChange={(mix) => changeStemMix(track, mix)}
+                        defaultExportLength={exportLength}
+                        onPreviewWithVideo={canPreviewWithVideo ? () => setSyncTrackId(track.id) : undefined}
+                        onExport={(options) => handleExport(track, options)}
+                        voiceoverName={voiceover?.analysis.name}
                       />
                     ))}
                   </div>
+                  {isLoading && (
+                    <div className="flex items-center justify-center gap-3 mt-8 text-gray-400">
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-purple-400"></div>
+                      <span>{recommendations.length} tracks so far…</span>
+                      <button onClick={cancelGeneration} className="text-sm text-gray-500 hover:text-gray-300 hover:underline transition-colors">
+                        Stop
+                      </button>
+                    </div>
+                  )}
                 </section>
-              )}
-
-              <section>
-                 <div className="flex justify-between items-center mb-6">
-                    <h2 className="text-2xl font-bold text-gray-200 border-b-2 border-pink-500/50 pb-2">Recommendations</h2>
-                    <button
-                      onClick={() => handleGenerate(true)}
-                      disabled={isLoading}
-                      className="flex items-center gap-2 px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                      <SparklesIcon className="w-5 h-5"/>
-                      <span>Refresh</span>
-                    </button>
-                  </div>
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                  {recommendedList.map((track) => (
-                    <MusicCard
-                      key={track.id}
-                      track={track}
-                      isPlaying={playingTrackId === track.id}
-                      isBookmarked={false}
-                      onPlay={() => togglePlay(track.id)}
-                      onBookmark={() => toggleBookmark(track.id)}
-                    />
-                  ))}
-                </div>
-              </section>
-            </>
-          )}
-
-          {!isLoading && hasGenerated && recommendations.length === 0 && !error && (
-            <div className="text-center text-gray-500">
-                <h3 className="text-2xl font-semibold text-gray-300">No results found</h3>
-                <p>Try adjusting your topic or story for better recommendations.</p>
-            </div>
-          )}
-        </div>
+              </>
+            )}
+
+            {!isLoading && hasGenerated && recommendations.length === 0 && !error && (
+              <div className="text-center text-gray-500">
+                  <h3 className="text-2xl font-semibold text-gray-300">No results found</h3>
+                  <p>Try adjusting your topic or story for better recommendations.</p>
+              </div>
+            )}
+          </div>
+        )}
       </main>
-      <footer className="text-center py-6">
-        <button onClick={resetApiKey} className="text-sm text-gray-500 hover:text-gray-300 hover:underline transition-colors">
-          Change API Key
+      <footer className="text-center py-6 space-x-6">
+        <button onClick={() => setIsSettingsOpen(true)} className="text-sm text-gray-500 hover:text-gray-300 hover:underline transition-colors">
+          Settings{provider && ` (${provider.label} · ${provider.model})`}
         </button>
+        {providerSettings.provider === 'gemini' && (
+          <button onClick={resetApiKey} className="text-sm text-gray-500 hover:text-gray-300 hover:underline transition-colors">
+            Change API Key
+          </button>
+        )}
       </footer>
+      {isSettingsOpen && (
+        <SettingsModal settings={providerSettings} onSave={handleSaveSettings} onClose={() => setIsSettingsOpen(false)} />
+      )}
     </div>
   );
 };
@@ -3,9 +3,11 @@ import { SparklesIcon } from './Icons';
 
 interface ApiKeyModalProps {
   onSetApiKey: (key: string) => void;
+  /** Switches to a provider that works without a Gemini key. */
+  onUseOffline?: () => void;
 }
 
-export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onSetApiKey }) => {
+export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onSetApiKey, onUseOffline }) => {
   const [localApiKey, setLocalApiKey] = useState('');
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -56,6 +58,14 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onSetApiKey }) => {
             </button>
           </div>
         </form>
+        {onUseOffline && (
+          <p className="mt-6 text-center text-sm text-gray-500">
+            No key?{' '}
+            <button type="button" onClick={onUseOffline} className="text-purple-400 hover:underline">
+              Try the offline demo
+            </button>
+          </p>
+        )}
       </div>
     </div>
   );
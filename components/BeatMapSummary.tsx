@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import type { MusicRecommendation, MusicSpec } from '../types';
+import { createBeatMap } from '../utils/beatMap';
+import { resolveRenderDuration } from '../utils/audioGenerator';
+import { CUE_FORMATS, exportCues } from '../utils/exporter';
+
+interface BeatMapSummaryProps {
+  track: MusicRecommendation;
+  spec: MusicSpec;
+  /** Length of the export the beat map is for, in seconds. */
+  duration: number;
+  /** Whether the export is a seamless loop, which is rounded to whole bars. */
+  loop?: boolean;
+}
+
+const formatTime = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
+export const BeatMapSummary: React.FC<BeatMapSummaryProps> = ({ track, spec, duration, loop = false }) => {
+  const beatMap = useMemo(() => createBeatMap(spec, resolveRenderDuration(spec, { duration, loop })), [spec, duration, loop]);
+  const tempos = beatMap.tempos.map(tempo => tempo.bpm);
+  const tempoLabel = Math.min(...tempos) === Math.max(...tempos)
+    ? `${tempos[0]} bpm`
+    : `${Math.min(...tempos)}–${Math.max(...tempos)} bpm`;
+  const percentOf = (time: number) => `${(time / beatMap.duration) * 100}%`;
+
+  return (
+    <details className="mt-2 text-xs text-gray-400">
+      <summary className="cursor-pointer select-none hover:text-gray-200 transition-colors truncate">
+        Beat map: {tempoLabel} · {beatMap.bars.length} bars · {beatMap.markers.length} markers
+      </summary>
+      <div className="relative mt-2 h-8 rounded-md bg-gray-900/50 border border-white/10 overflow-hidden" aria-hidden="true">
+        {beatMap.bars.map((time) => (
+          <div key={time} className="absolute bottom-0 h-2 w-px bg-white/20" style={{ left: percentOf(time) }} />
+        ))}
+        {beatMap.markers.map((marker) => (
+          <div
+            key={`${marker.kind}-${marker.time}`}
+            className={`absolute inset-y-0 w-px ${marker.kind === 'scene' ? 'bg-pink-400' : 'bg-purple-400/70'}`}
+            style={{ left: percentOf(marker.time) }}
+          >
+            <span className={`absolute left-1 whitespace-nowrap text-[10px] ${marker.kind === 'scene' ? 'bottom-0 text-pink-300' : 'top-0 text-purple-200'}`}>
+              {marker.label}
+            </span>
+          </div>
+        ))}
+      </div>
+      <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+        {beatMap.markers.map((marker) => (
+          <React.Fragment key={`${marker.kind}-${marker.time}`}>
+            <dt className="font-mono text-gray-500">{formatTime(marker.time)}</dt>
+            <dd className={marker.kind === 'scene' ? 'text-pink-300' : 'text-gray-300'}>{marker.label}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        {CUE_FORMATS.map((format) => (
+          <button
+            key={format.id}
+            type="button"
+            onClick={() => exportCues(track, beatMap, format.id)}
+            className="px-2 py-1 rounded-md bg-white/10 text-gray-200 hover:bg-white/20 transition-colors"
+          >
+            {format.label}
+          </button>
+        ))}
+      </div>
+      <p className="mt-2 text-gray-500">For a {beatMap.duration.toFixed(1)} s {loop ? 'loop' : 'export'}. WAV exports carry these markers too.</p>
+    </details>
+  );
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+import type { EffectsSpec } from '../types';
+import { describeEffects } from '../utils/effects';
+
+interface EffectsSummaryProps {
+  effects: EffectsSpec;
+}
+
+export const EffectsSummary: React.FC<EffectsSummaryProps> = ({ effects }) => {
+  const summaries = describeEffects(effects);
+  if (summaries.length === 0) return null;
+
+  return (
+    <details className="mt-3 text-xs text-gray-400">
+      <summary className="cursor-pointer select-none hover:text-gray-200 transition-colors truncate">
+        Effects: {summaries.map(summary => summary.label).join(', ')}
+      </summary>
+      <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+        {summaries.map(summary => (
+          <React.Fragment key={summary.name}>
+            <dt className="text-gray-300">{summary.label}</dt>
+            <dd className="text-gray-500">{summary.detail}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    </details>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import type { ExportOptions } from '../utils/exporter';
+import { ENCODERS, getEncoder } from '../utils/encoders';
+import type { EncoderId } from '../utils/encoders';
+import { EXPORT_LENGTHS, LOUDNESS_TARGETS } from '../constants';
+import { DownloadIcon } from './Icons';
+
+interface ExportPanelProps {
+  onExport: (options: ExportOptions) => Promise<void>;
+  onClose: () => void;
+  /** Length to start with, in seconds; the track's own preference when it has one. */
+  defaultLength?: number;
+  /** Whether to export a seamless loop, kept by the card so its beat map can follow along. */
+  loop: boolean;
+  onLoopChange: (loop: boolean) => void;
+  /** Name of the voiceover the export can duck under, when there is one. */
+  voiceoverName?: string;
+  /** Caveat shown when exporting stems, e.g. from `describePerStemEffects`. */
+  stemsNote?: string | null;
+}
+
+const inputClassName = "w-full bg-gray-900/50 border border-white/20 rounded-md px-2 py-1 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition disabled:opacity-50";
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ onExport, onClose, defaultLength, loop, onLoopChange, voiceoverName, stemsNote }) => {
+  const isPreset = defaultLength === undefined || EXPORT_LENGTHS.includes(defaultLength);
+  const [length, setLength] = useState<string>(isPreset ? String(defaultLength ?? EXPORT_LENGTHS[1]) : 'custom');
+  const [customSeconds, setCustomSeconds] = useState(defaultLength ?? 45);
+  const [fadeIn, setFadeIn] = useState(1);
+  const [fadeOut, setFadeOut] = useState(2);
+  const [stems, setStems] = useState(false);
+  const [duck, setDuck] = useState(true);
+  const [duckDepth, setDuckDepth] = useState(10);
+  const [carve, setCarve] = useState(true);
+  const [format, setFormat] = useState<EncoderId>('wav16');
+  const [sampleRate, setSampleRate] = useState(44100);
+  const [loudnessTarget, setLoudnessTarget] = useState(LOUDNESS_TARGETS[0].lufs);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const duration = length === 'custom' ? customSeconds : Number(length);
+  const isValid = Number.isFinite(duration) && duration >= 1 && duration <= 600;
+  const sampleRates = getEncoder(format).sampleRates;
+
+  const handleFormatChange = (id: EncoderId) => {
+    setFormat(id);
+    const rates = getEncoder(id).sampleRates;
+    if (!rates.includes(sampleRate)) setSampleRate(rates[0]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const ducking = voiceoverName && duck ? { depth: duckDepth, carve } : undefined;
+      await onExport({ duration, fadeIn, fadeOut, loop, format, sampleRate, loudnessTarget, stems, ducking });
+    } catch (err) {
+      console.error(err);
+      setError('Export failed. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 pt-4 border-t border-white/10 space-y-3 text-sm text-gray-300">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">Length</span>
+          <select value={length} onChange={(e) => setLength(e.target.value)} className={inputClassName}>
+            {EXPORT_LENGTHS.map((seconds) => (
+              <option key={seconds} value={seconds} className="bg-gray-800">{seconds}s</option>
+            ))}
+            <option value="custom" className="bg-gray-800">Custom</option>
+          </select>
+        </label>
+        {length === 'custom' && (
+          <label className="block">
+            <span className="block text-xs text-gray-400 mb-1">Seconds</span>
+            <input
+              type="number"
+              min={1}
+              max={600}
+              step={0.1}
+              value={customSeconds}
+              onChange={(e) => setCustomSeconds(parseFloat(e.target.value))}
+              className={inputClassName}
+            />
+          </label>
+        )}
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">Fade in (s)</span>
+          <input
+            type="number"
+            min={0}
+            max={10}
+            step={0.5}
+            value={fadeIn}
+            disabled={loop}
+            onChange={(e) => setFadeIn(parseFloat(e.target.value) || 0)}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">Fade out (s)</span>
+          <input
+            type="number"
+            min={0}
+            max={10}
+            step={0.5}
+            value={fadeOut}
+            disabled={loop}
+            onChange={(e) => setFadeOut(parseFloat(e.target.value) || 0)}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">Format</span>
+          <select value={format} onChange={(e) => handleFormatChange(e.target.value as EncoderId)} className={inputClassName}>
+            {ENCODERS.map((encoder) => (
+              <option key={encoder.id} value={encoder.id} className="bg-gray-800">{encoder.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">Sample rate</span>
+          <select value={sampleRate} onChange={(e) => setSampleRate(Number(e.target.value))} className={inputClassName}>
+            {sampleRates.map((rate) => (
+              <option key={rate} value={rate} className="bg-gray-800">{rate / 1000} kHz</option>
+            ))}
+          </select>
+        </label>
+        <label className="block col-span-2">
+          <span className="block text-xs text-gray-400 mb-1">Loudness</span>
+          <select value={loudnessTarget} onChange={(e) => setLoudnessTarget(Number(e.target.value))} className={inputClassName}>
+            {LOUDNESS_TARGETS.map((target) => (
+              <option key={target.lufs} value={target.lufs} className="bg-gray-800">{target.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={loop} onChange={(e) => onLoopChange(e.target.checked)} className="accent-purple-500" />
+        <span>Seamless loop (rounded to whole bars, no fades)</span>
+      </label>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={stems} onChange={(e) => setStems(e.target.checked)} className="accent-purple-500" />
+        <span>Stems (a zip with each layer and the effects on their own, plus the full mix)</span>
+      </label>
+      {stems && stemsNote && <p className="text-xs text-gray-500">{stemsNote}</p>}
+      {voiceoverName && (
+        <div className="space-y-2">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={duck} onChange={(e) => setDuck(e.target.checked)} className="accent-purple-500" />
+            <span className="truncate" title={voiceoverName}>Duck under {voiceoverName} (adds a mix with the voiceover)</span>
+          </label>
+          {duck && (
+            <div className="pl-6 space-y-2">
+              <label className="flex items-center gap-2">
+                <span className="text-xs text-gray-400 w-20">Depth</span>
+                <input
+                  type="range"
+                  min={3}
+                  max={24}
+                  step={1}
+                  value={duckDepth}
+                  onChange={(e) => setDuckDepth(Number(e.target.value))}
+                  className="flex-1 accent-purple-500"
+                />
+                <span className="text-xs font-mono text-gray-400 w-12 text-right">-{duckDepth} dB</span>
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={carve} onChange={(e) => setCarve(e.target.checked)} className="accent-purple-500" />
+                <span>Carve 1–4 kHz under speech so the voice cuts through</span>
+              </label>
+            </div>
+          )}
+        </div>
+      )}
+      {error && <p className="text-red-300 text-xs">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onClose} className="px-3 py-1 rounded-md text-gray-400 hover:text-white hover:bg-white/10 transition-colors">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!isValid || isExporting}
+          className="inline-flex items-center gap-1 px-3 py-1 rounded-md bg-gradient-to-r from-purple-500 to-pink-500 text-white font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isExporting ? (
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+          ) : (
+            <DownloadIcon className="w-4 h-4" />
+          )}
+          <span>Export</span>
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import type { GenerationInput, GenerationSession } from '../types';
+import { diffSessions } from '../services/historyService';
+import type { SessionDiff } from '../services/historyService';
+import { MusicNoteIcon, SparklesIcon, TrashIcon } from './Icons';
+
+interface HistoryViewProps {
+  sessions: GenerationSession[];
+  currentSessionId: string | null;
+  onOpen: (session: GenerationSession) => void;
+  onRerun: (session: GenerationSession) => void;
+  onDelete: (session: GenerationSession) => void;
+}
+
+interface TrackNameListProps {
+  title: string;
+  names: string[];
+  className: string;
+}
+
+interface SessionDiffViewProps {
+  diff: SessionDiff;
+}
+
+const INPUT_LABELS: Record<keyof GenerationInput, string> = { topic: 'Topic', story: 'Story', mood: 'Mood', scenes: 'Scenes', refinement: 'Refinement' };
+
+const TrackNameList: React.FC<TrackNameListProps> = ({ title, names, className }) => (
+  <div>
+    <h4 className="text-xs uppercase tracking-wide text-gray-500 mb-1">{title} ({names.length})</h4>
+    <ul className={`text-sm space-y-0.5 ${className}`}>
+      {names.map((name, index) => <li key={`${name}-${index}`} className="truncate">{name}</li>)}
+    </ul>
+  </div>
+);
+
+const SessionDiffView: React.FC<SessionDiffViewProps> = ({ diff }) => (
+  <div className="mt-4 pt-4 border-t border-white/10 space-y-4 text-gray-300">
+    <p className="text-sm">
+      {diff.changedInputs.length > 0
+        ? `Changed inputs: ${diff.changedInputs.map(field => INPUT_LABELS[field]).join(', ')}.`
+        : 'Same inputs as the current run.'}
+      {' '}Average tempo: {diff.averageBpm.compare ?? '–'} bpm here vs {diff.averageBpm.base ?? '–'} bpm now.
+    </p>
+    <div className="flex flex-wrap gap-2">
+      {diff.moods.map(({ mood, base, compare }) => (
+        <span key={mood} className="text-xs bg-white/5 border border-white/10 px-2 py-0.5 rounded-full">
+          {mood}: {compare} → {base}
+        </span>
+      ))}
+    </div>
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <TrackNameList title="Only in this run" names={diff.onlyInCompare.map(track => track.trackName)} className="text-pink-300" />
+      <TrackNameList title="Only in current run" names={diff.onlyInBase.map(track => track.trackName)} className="text-purple-300" />
+      <TrackNameList title="In both" names={diff.shared} className="text-gray-400" />
+    </div>
+  </div>
+);
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ sessions, currentSessionId, onOpen, onRerun, onDelete }) => {
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const currentSession = sessions.find(session => session.id === currentSessionId) ?? null;
+
+  if (sessions.length === 0) {
+    return (
+      <div className="mt-16 text-center text-gray-500 flex flex-col items-center">
+        <MusicNoteIcon className="w-16 h-16 mb-4" />
+        <h3 className="text-2xl font-semibold text-gray-300">No history yet</h3>
+        <p>Every batch you generate is recorded here so you can come back to it.</p>
+      </div>
+    );
+  }
+
+  return (
+    <section className="mt-16 max-w-4xl mx-auto">
+      <h2 className="text-2xl font-bold mb-6 text-gray-200 border-b-2 border-purple-500/50 pb-2">History</h2>
+      <ol className="space-y-4">
+        {sessions.map((session) => {
+          const isCurrent = session.id === currentSessionId;
+          const isComparing = comparingId === session.id && currentSession && !isCurrent;
+          return (
+            <li key={session.id} className={`bg-white/5 border rounded-xl p-4 backdrop-blur-md ${isCurrent ? 'border-purple-500/50' : 'border-white/10'}`}>
+              <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <h3 className="text-lg font-semibold text-gray-100 truncate">
+                    {session.input.topic}
+                    {isCurrent && <span className="ml-2 text-xs font-medium text-purple-300">current</span>}
+                  </h3>
+                  <p className="text-sm text-gray-400 line-clamp-2" title={session.input.story}>{session.input.story}</p>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {session.input.mood} · {session.tracks.length} tracks · {session.model} · {new Date(session.createdAt).toLocaleString()}
+                  </p>
+                  {session.input.refinement && (
+                    <p className="mt-1 text-xs text-purple-300/80 truncate">
+                      Refined from {session.input.refinement.feedback.length} marked tracks
+                      {session.input.refinement.note && `: "${session.input.refinement.note}"`}
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 flex-shrink-0 text-sm">
+                  <button onClick={() => onOpen(session)} className="px-3 py-1 rounded-md bg-white/10 text-white hover:bg-white/20 transition-colors">
+                    Open
+                  </button>
+                  <button onClick={() => onRerun(session)} className="inline-flex items-center gap-1 px-3 py-1 rounded-md bg-white/10 text-white hover:bg-white/20 transition-colors">
+                    <SparklesIcon className="w-4 h-4" />
+                    Tweak & re-run
+                  </button>
+                  <button
+                    onClick={() => setComparingId(isComparing ? null : session.id)}
+                    disabled={!currentSession || isCurrent}
+                    className="px-3 py-1 rounded-md bg-white/10 text-white hover:bg-white/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    {isComparing ? 'Hide diff' : 'Compare with current'}
+                  </button>
+                  <button
+                    onClick={() => onDelete(session)}
+                    className="p-1.5 rounded-md text-gray-500 hover:text-red-300 hover:bg-white/10 transition-colors"
+                    aria-label="Delete session"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              {isComparing && currentSession && <SessionDiffView diff={diffSessions(currentSession, session)} />}
+            </li>
+          );
+        })}
+      </ol>
+    </section>
+  );
+};
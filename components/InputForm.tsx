@@ -1,7 +1,9 @@
 
 import React from 'react';
 import { MOODS } from '../constants';
+import type { Scene } from '../types';
 import { SparklesIcon } from './Icons';
+import { SceneEditor } from './SceneEditor';
 
 interface InputFormProps {
   topic: string;
@@ -10,6 +12,10 @@ interface InputFormProps {
   setStory: (value: string) => void;
   mood: string;
   setMood: (value: string) => void;
+  scenes: Scene[];
+  setScenes: (scenes: Scene[]) => void;
+  /** Scene cuts found in the uploaded video, if any. */
+  detectedCuts?: number[];
   onSubmit: () => void;
   isLoading: boolean;
 }
@@ -21,6 +27,9 @@ export const InputForm: React.FC<InputFormProps> = ({
   setStory,
   mood,
   setMood,
+  scenes,
+  setScenes,
+  detectedCuts,
   onSubmit,
   isLoading,
 }) => {
@@ -79,6 +88,7 @@ export const InputForm: React.FC<InputFormProps> = ({
           required
         />
       </div>
+      <SceneEditor scenes={scenes} setScenes={setScenes} defaultMood={mood} detectedCuts={detectedCuts} />
       <div className="text-center pt-4">
         <button
           type="submit"
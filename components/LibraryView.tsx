@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import type { LibraryEntry, MusicSpec, PreviewState, StemMix } from '../types';
+import type { ExportOptions } from '../utils/exporter';
+import { searchLibrary } from '../services/libraryService';
+import { MusicCard } from './MusicCard';
+import { BookmarkIcon, TrashIcon } from './Icons';
+
+interface LibraryViewProps {
+  entries: LibraryEntry[];
+  playingTrackId: string | null;
+  previews: Record<string, PreviewState>;
+  stemMixes: Record<string, StemMix>;
+  onHover: (entry: LibraryEntry) => void;
+  onPlay: (entry: LibraryEntry) => void;
+  /** The shared player; the playing card's playhead follows it. */
+  player: HTMLAudioElement | null;
+  onSeek: (entry: LibraryEntry, fraction: number) => void;
+  showSpectrum: boolean;
+  onToggleSpectrum: () => void;
+  onDelete: (entry: LibraryEntry) => void;
+  onUpdateTags: (entry: LibraryEntry, tags: string[]) => void;
+  onEditSpec: (entry: LibraryEntry, spec: MusicSpec) => void;
+  onStemMixChange: (entry: LibraryEntry, mix: StemMix) => void;
+  onExport: (entry: LibraryEntry, options: ExportOptions) => Promise<void>;
+  /** Name of the voiceover exports can duck under, when there is one. */
+  voiceoverName?: string;
+}
+
+interface TagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+}
+
+const TagEditor: React.FC<TagEditorProps> = ({ tags, onChange }) => {
+  const [draft, setDraft] = useState('');
+
+  const addTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = draft.trim().toLowerCase();
+    if (tag && !tags.includes(tag)) {
+      onChange([...tags, tag]);
+    }
+    setDraft('');
+  };
+
+  return (
+    <form onSubmit={addTag} className="flex flex-wrap items-center gap-1.5 mt-3">
+      {tags.map((tag) => (
+        <button
+          key={tag}
+          type="button"
+          onClick={() => onChange(tags.filter(existing => existing !== tag))}
+          className="text-xs bg-pink-500/20 text-pink-300 px-2 py-0.5 rounded-full hover:bg-pink-500/40 transition-colors"
+          aria-label={`Remove tag ${tag}`}
+        >
+          {tag} ×
+        </button>
+      ))}
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        placeholder="Add tag…"
+        className="flex-1 min-w-[5rem] bg-transparent border-b border-white/10 text-xs text-gray-300 placeholder-gray-600 focus:border-purple-500 outline-none py-0.5"
+      />
+    </form>
+  );
+};
+
+export const LibraryView: React.FC<LibraryViewProps> = ({
+  entries,
+  playingTrackId,
+  previews,
+  stemMixes,
+  onHover,
+  onPlay,
+  player,
+  onSeek,
+  showSpectrum,
+  onToggleSpectrum,
+  onDelete,
+  onUpdateTags,
+  onEditSpec,
+  onStemMixChange,
+  onExport,
+  voiceoverName,
+}) => {
+  const [query, setQuery] = useState('');
+  const results = searchLibrary(entries, query);
+
+  if (entries.length === 0) {
+    return (
+      <div className="mt-16 text-center text-gray-500 flex flex-col items-center">
+        <BookmarkIcon className="w-16 h-16 mb-4" />
+        <h3 className="text-2xl font-semibold text-gray-300">Your library is empty</h3>
+        <p>Bookmark a recommendation to keep it here across sessions.</p>
+      </div>
+    );
+  }
+
+  return (
+    <section className="mt-16">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <h2 className="text-2xl font-bold text-gray-200 border-b-2 border-purple-500/50 pb-2">Library</h2>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search names, moods, tags, topics…"
+          className="w-full sm:w-80 bg-gray-900/50 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-500 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition"
+        />
+      </div>
+      {results.length === 0 ? (
+        <p className="text-center text-gray-500">No saved tracks match "{query}".</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {results.map((entry) => (
+            <MusicCard
+              key={entry.id}
+              track={entry}
+              isPlaying={playingTrackId === entry.id}
+              isBookmarked={true}
+              preview={previews[entry.id]}
+              onHover={() => onHover(entry)}
+              onPlay={() => onPlay(entry)}
+              player={playingTrackId === entry.id ? player : null}
+              onSeek={(fraction) => onSeek(entry, fraction)}
+              showSpectrum={showSpectrum}
+              onToggleSpectrum={onToggleSpectrum}
+              onBookmark={() => onDelete(entry)}
+              onEditSpec={(spec) => onEditSpec(entry, spec)}
+              stemMix={stemMixes[entry.id]}
+              onStemMixChange={(mix) => onStemMixChange(entry, mix)}
+              onExport={(options) => onExport(entry, options)}
+              voiceoverName={voiceoverName}
+            >
+              <p className="mt-3 text-xs text-gray-500 truncate" title={entry.source.story}>
+                {entry.source.topic} · {entry.source.mood} · {new Date(entry.savedAt).toLocaleDateString()}
+              </p>
+              <TagEditor tags={entry.tags} onChange={(tags) => onUpdateTags(entry, tags)} />
+              <button
+                onClick={() => {
+                  if (window.confirm(`Delete "${entry.trackName}" from your library?`)) onDelete(entry);
+                }}
+                className="mt-3 inline-flex items-center gap-1 text-xs text-gray-500 hover:text-red-300 transition-colors"
+              >
+                <TrashIcon className="w-4 h-4" />
+                Delete
+              </button>
+            </MusicCard>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -1,27 +1,173 @@
-import React from 'react';
-import type { MusicRecommendation } from '../types';
-import { PlayIcon, PauseIcon, BookmarkIcon, BookmarkFilledIcon } from './Icons';
+import React, { useMemo, useState } from 'react';
+import type { MusicRecommendation, MusicSpec, PreviewState, FeedbackVerdict, StemMix } from '../types';
+import { EXPORT_LENGTHS } from '../constants';
+import type { ExportOptions } from '../utils/exporter';
+import { buildMusicSpec, getTrackSpec } from '../utils/musicSpec';
+import { describePerStemEffects, perStemEffectsOf, stemsOf } from '../utils/stems';
+import { ExportPanel } from './ExportPanel';
+import { EffectsSummary } from './EffectsSummary';
+import { BeatMapSummary } from './BeatMapSummary';
+import { StemMixer } from './StemMixer';
+import { SpectrumMeter } from './SpectrumMeter';
+import { Waveform } from './Waveform';
+import { TrackEditor } from './TrackEditor';
+import { PlayIcon, PauseIcon, BookmarkIcon, BookmarkFilledIcon, DownloadIcon, AdjustmentsIcon, ThumbUpIcon, ThumbDownIcon, VideoCameraIcon } from './Icons';
 
 interface MusicCardProps {
   track: MusicRecommendation;
   isPlaying: boolean;
   isBookmarked: boolean;
+  /** Render state of the audio preview; absent until one has been requested. */
+  preview?: PreviewState;
+  /** Called when the pointer enters the card, so its preview can be rendered first. */
+  onHover?: () => void;
   onPlay: () => void;
+  /** The shared player, while it's playing this track. */
+  player?: HTMLAudioElement | null;
+  /** Called to play the preview from a point, from 0 to 1; the waveform is hidden without it. */
+  onSeek?: (fraction: number) => void;
+  /** Whether to show a live spectrum and level meter while the track plays. */
+  showSpectrum?: boolean;
+  /** Called to switch the spectrum on or off; the switch is hidden without it. */
+  onToggleSpectrum?: () => void;
   onBookmark: () => void;
+  onExport: (options: ExportOptions) => Promise<void>;
+  /** Whether the user asked for more or less like this track in the next batch. */
+  feedback?: FeedbackVerdict;
+  /** Called when a more/less like this mark is toggled; marking is hidden without it. */
+  onFeedback?: (verdict: FeedbackVerdict) => void;
+  /** Called with an edited spec to save on the track; editing is hidden without it. */
+  onEditSpec?: (spec: MusicSpec) => void;
+  /** Called to hear the track against the uploaded video; hidden when there is none. */
+  onPreviewWithVideo?: () => void;
+  /** Which layers of the preview are muted or soloed. */
+  stemMix?: StemMix;
+  /** Called when a layer is muted or soloed; the mixer is hidden without it. */
+  onStemMixChange?: (mix: StemMix) => void;
+  /** Export length to start with when the track has no preference, e.g. the uploaded video's. */
+  defaultExportLength?: number;
+  /** Name of the voiceover exports can duck under, when there is one. */
+  voiceoverName?: string;
+  /** Extra content shown between the track details and the actions. */
+  children?: React.ReactNode;
 }
 
-export const MusicCard: React.FC<MusicCardProps> = ({ track, isPlaying, isBookmarked, onPlay, onBookmark }) => {
+const formatLevel = (db: number): string => Number.isFinite(db) ? db.toFixed(1) : '-∞';
+
+export const MusicCard: React.FC<MusicCardProps> = ({ track, isPlaying, isBookmarked, preview, onHover, onPlay, player = null, onSeek, showSpectrum = false, onToggleSpectrum, onBookmark, onExport, feedback, onFeedback, onEditSpec, onPreviewWithVideo, stemMix, onStemMixChange, defaultExportLength, voiceoverName, children }) => {
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  // Shared by the export panel and the beat map, which has to match the exported length
+  const [exportLoop, setExportLoop] = useState(false);
+  const isRendering = preview?.status === 'rendering';
+  const hasFailed = preview?.status === 'error';
+  const spec = useMemo(() => getTrackSpec(track), [track]);
+  const exportLength = spec.length ?? defaultExportLength ?? EXPORT_LENGTHS[1];
+
   return (
-    <div className="bg-white/5 border border-white/10 rounded-xl p-4 flex flex-col justify-between group hover:bg-white/10 transition-all duration-300 backdrop-blur-md shadow-lg">
+    <div onMouseEnter={onHover} className="bg-white/5 border border-white/10 rounded-xl p-4 flex flex-col justify-between group hover:bg-white/10 transition-all duration-300 backdrop-blur-md shadow-lg">
       <div>
         <h3 className="text-lg font-semibold text-gray-100 truncate" title={track.trackName}>
           {track.trackName}
         </h3>
-        <span className="inline-block bg-purple-500/20 text-purple-300 text-xs font-medium px-2.5 py-1 rounded-full mt-2">
-          {track.mood}
-        </span>
+        <div className="flex items-center justify-between mt-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="inline-block bg-purple-500/20 text-purple-300 text-xs font-medium px-2.5 py-1 rounded-full">
+              {track.mood}
+            </span>
+            {spec.scenes && spec.scenes.length > 1 && (
+              <span className="text-xs text-gray-500" title="Changes tempo, key and sound to follow the video's scenes">
+                {spec.scenes.length} scenes
+              </span>
+            )}
+          </div>
+          <span className="text-xs font-mono text-gray-500 select-all" title="Render seed: the same description and seed always sound identical">
+            #{track.seed}
+          </span>
+        </div>
+        {onSeek && (
+          <Waveform peaks={preview?.status === 'ready' ? preview.peaks : undefined} player={player} onSeek={onSeek} />
+        )}
+        {player && onToggleSpectrum && (
+          <>
+            {showSpectrum && <SpectrumMeter player={player} />}
+            <button type="button" onClick={onToggleSpectrum} className="mt-1 text-xs text-gray-500 hover:text-gray-300 hover:underline transition-colors">
+              {showSpectrum ? 'Hide spectrum' : 'Show spectrum'}
+            </button>
+          </>
+        )}
+        <EffectsSummary effects={spec.effects} />
+        <BeatMapSummary track={track} spec={spec} duration={exportLength} loop={exportLoop} />
+        {onStemMixChange && (
+          <StemMixer stems={stemsOf(spec)} mix={stemMix ?? { muted: [], soloed: [] }} onChange={onStemMixChange} note={describePerStemEffects(perStemEffectsOf(spec))} />
+        )}
+        {children}
       </div>
       <div className="flex items-center justify-end mt-4 space-x-2">
+        {hasFailed && (
+          <span className="mr-auto text-xs text-red-300">Preview failed</span>
+        )}
+        {isRendering && (
+          <span className="mr-auto text-xs text-gray-500">Rendering…</span>
+        )}
+        {preview?.status === 'ready' && (
+          <span
+            className="mr-auto text-xs font-mono text-gray-500"
+            title={`Mastered from ${formatLevel(preview.loudness.sourceLufs)} LUFS; true peak ${formatLevel(preview.loudness.truePeak)} dBTP`}
+          >
+            {formatLevel(preview.loudness.integratedLufs)} LUFS
+          </span>
+        )}
+        {onFeedback && (
+          <>
+            <button
+              onClick={() => onFeedback('more')}
+              className={`p-2 rounded-full hover:text-white hover:bg-white/10 transition-colors ${feedback === 'more' ? 'text-green-300 bg-white/10' : 'text-gray-400'}`}
+              aria-label="More like this"
+              aria-pressed={feedback === 'more'}
+              title="More like this"
+            >
+              <ThumbUpIcon className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => onFeedback('less')}
+              className={`p-2 rounded-full hover:text-white hover:bg-white/10 transition-colors ${feedback === 'less' ? 'text-red-300 bg-white/10' : 'text-gray-400'}`}
+              aria-label="Less like this"
+              aria-pressed={feedback === 'less'}
+              title="Less like this"
+            >
+              <ThumbDownIcon className="w-5 h-5" />
+            </button>
+          </>
+        )}
+        {onPreviewWithVideo && (
+          <button
+            onClick={onPreviewWithVideo}
+            className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+            aria-label="Preview with video"
+            title="Preview with video"
+          >
+            <VideoCameraIcon className="w-6 h-6" />
+          </button>
+        )}
+        {onEditSpec && (
+          <button
+            onClick={() => setIsEditorOpen(open => !open)}
+            className={`p-2 rounded-full hover:text-white hover:bg-white/10 transition-colors ${isEditorOpen ? 'text-white bg-white/10' : 'text-gray-400'}`}
+            aria-label="Edit track"
+            aria-expanded={isEditorOpen}
+          >
+            <AdjustmentsIcon className="w-6 h-6" />
+          </button>
+        )}
+        <button
+          onClick={() => setIsExportOpen(open => !open)}
+          className={`p-2 rounded-full hover:text-white hover:bg-white/10 transition-colors ${isExportOpen ? 'text-white bg-white/10' : 'text-gray-400'}`}
+          aria-label="Export track"
+          aria-expanded={isExportOpen}
+        >
+          <DownloadIcon className="w-6 h-6" />
+        </button>
         <button
           onClick={onBookmark}
           className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
@@ -35,12 +181,33 @@ export const MusicCard: React.FC<MusicCardProps> = ({ track, isPlaying, isBookma
         </button>
         <button
           onClick={onPlay}
-          className="p-2 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors"
-          aria-label={isPlaying ? 'Pause preview' : 'Play preview'}
+          disabled={isRendering}
+          className="p-2 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors disabled:cursor-wait"
+          aria-label={isRendering ? 'Rendering preview' : isPlaying ? 'Pause preview' : hasFailed ? 'Retry preview' : 'Play preview'}
         >
-          {isPlaying ? <PauseIcon className="w-6 h-6" /> : <PlayIcon className="w-6 h-6" />}
+          {isRendering ? (
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white"></div>
+          ) : isPlaying ? (
+            <PauseIcon className="w-6 h-6" />
+          ) : (
+            <PlayIcon className="w-6 h-6" />
+          )}
         </button>
       </div>
+      {isEditorOpen && onEditSpec && (
+        <TrackEditor
+          spec={spec}
+          original={{ ...buildMusicSpec(track.musicDescription, track.attributes), scenes: spec.scenes }}
+          onApply={(edited) => {
+            onEditSpec(edited);
+            setIsEditorOpen(false);
+          }}
+          onClose={() => setIsEditorOpen(false)}
+        />
+      )}
+      {isExportOpen && (
+        <ExportPanel onExport={onExport} onClose={() => setIsExportOpen(false)} defaultLength={exportLength} loop={exportLoop} onLoopChange={setExportLoop} voiceoverName={voiceoverName} stemsNote={describePerStemEffects(perStemEffectsOf(spec))} />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { SparklesIcon } from './Icons';
+
+interface RefinePanelProps {
+  /** Tracks marked "more like this". */
+  likedCount: number;
+  /** Tracks marked "less like this". */
+  dislikedCount: number;
+  disabled: boolean;
+  onRefine: (note: string) => void;
+  onClearMarks: () => void;
+}
+
+export const RefinePanel: React.FC<RefinePanelProps> = ({ likedCount, dislikedCount, disabled, onRefine, onClearMarks }) => {
+  const [note, setNote] = useState('');
+  const hasMarks = likedCount + dislikedCount > 0;
+  const canRefine = !disabled && (hasMarks || note.trim().length > 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canRefine) return;
+    onRefine(note.trim());
+    setNote('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-6 bg-white/5 border border-white/10 rounded-xl p-4 backdrop-blur-md">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Refine the batch, e.g. less cheesy, more lo-fi"
+          className="flex-1 bg-gray-900/50 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-500 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition"
+        />
+        <button
+          type="submit"
+          disabled={!canRefine}
+          className="flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <SparklesIcon className="w-5 h-5" />
+          <span>Refine</span>
+        </button>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        {hasMarks ? (
+          <>
+            Building on {likedCount} liked and steering away from {dislikedCount} disliked {likedCount + dislikedCount === 1 ? 'track' : 'tracks'}.{' '}
+            <button type="button" onClick={onClearMarks} className="hover:text-gray-300 hover:underline transition-colors">
+              Clear marks
+            </button>
+          </>
+        ) : (
+          'Mark tracks with more or less like this to anchor the next batch to what works.'
+        )}
+      </p>
+    </form>
+  );
+};
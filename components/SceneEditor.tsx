@@ -0,0 +1,115 @@
+import React from 'react';
+import type { Scene } from '../types';
+import { MOODS } from '../constants';
+import { TrashIcon } from './Icons';
+
+interface SceneEditorProps {
+  scenes: Scene[];
+  setScenes: (scenes: Scene[]) => void;
+  /** Mood for newly added scenes. */
+  defaultMood: string;
+  /** Scene cuts found in the uploaded video, offered as a starting point. */
+  detectedCuts?: number[];
+}
+
+// New scenes start this long after the last one
+const SCENE_STEP_SECONDS = 10;
+
+const inputClassName = "bg-gray-900/50 border border-white/20 rounded-lg px-3 py-1.5 text-white placeholder-gray-500 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition";
+
+export const SceneEditor: React.FC<SceneEditorProps> = ({ scenes, setScenes, defaultMood, detectedCuts }) => {
+  const updateScene = (index: number, changes: Partial<Scene>) => {
+    setScenes(scenes.map((scene, i) => (i === index ? { ...scene, ...changes } : scene)));
+  };
+
+  const addScene = () => {
+    const last = scenes[scenes.length - 1];
+    const scene = { start: last ? last.start + SCENE_STEP_SECONDS : 0, description: '', mood: defaultMood };
+    // The first scene always starts the video, so adding one starts a sequence of two
+    setScenes(last ? [...scenes, scene] : [scene, { ...scene, start: SCENE_STEP_SECONDS }]);
+  };
+
+  const useDetectedCuts = () => {
+    setScenes([0, ...(detectedCuts ?? [])].map((start, index) => ({
+      start: Math.round(start * 10) / 10,
+      description: scenes[index]?.description ?? '',
+      mood: scenes[index]?.mood ?? defaultMood,
+    })));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="block text-sm font-medium text-gray-300">Scenes</span>
+        <div className="flex items-center gap-3 text-sm">
+          {detectedCuts && detectedCuts.length > 0 && (
+            <button type="button" onClick={useDetectedCuts} className="text-purple-300 hover:text-purple-200 hover:underline transition-colors">
+              Use {detectedCuts.length + 1} detected scenes
+            </button>
+          )}
+          {scenes.length > 0 && (
+            <button type="button" onClick={() => setScenes([])} className="text-gray-500 hover:text-gray-300 hover:underline transition-colors">
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+      {scenes.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          One feel for the whole video. Add scenes when it changes, e.g. calm, then tense, then triumphant, and each track will follow them.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {scenes.map((scene, index) => (
+            <li key={index} className="flex items-center gap-2">
+              <label className="flex items-center gap-1 text-xs text-gray-500 flex-shrink-0">
+                <span className="sr-only">Starts at</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={scene.start}
+                  disabled={index === 0}
+                  onChange={(e) => updateScene(index, { start: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className={`${inputClassName} w-20 disabled:opacity-50`}
+                />
+                s
+              </label>
+              <select
+                value={scene.mood}
+                onChange={(e) => updateScene(index, { mood: e.target.value })}
+                aria-label="Scene mood"
+                className={`${inputClassName} flex-shrink-0`}
+              >
+                {MOODS.map((m) => (
+                  <option key={m} value={m} className="bg-gray-800">
+                    {m}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={scene.description}
+                onChange={(e) => updateScene(index, { description: e.target.value })}
+                placeholder="What happens in this scene"
+                aria-label="Scene description"
+                className={`${inputClassName} flex-1 min-w-0`}
+              />
+              <button
+                type="button"
+                onClick={() => setScenes(scenes.filter((_, i) => i !== index))}
+                className="p-1.5 rounded-full text-gray-500 hover:text-white hover:bg-white/10 transition-colors flex-shrink-0"
+                aria-label="Remove scene"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <button type="button" onClick={addScene} className="mt-2 text-sm text-purple-300 hover:text-purple-200 hover:underline transition-colors">
+        + Add scene
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import type { ProviderId } from '../services/recommendationProvider';
+import type { ProviderSettings } from '../services/providers';
+import { PROVIDER_LABELS } from '../services/providers';
+import { GEMINI_MODELS } from '../services/geminiService';
+
+interface SettingsModalProps {
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full bg-gray-900/50 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-500 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition";
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+
+  const update = <K extends keyof ProviderSettings>(key: K, value: ProviderSettings[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      ...draft,
+      geminiModel: draft.geminiModel.trim() || GEMINI_MODELS[0],
+      openAiBaseUrl: draft.openAiBaseUrl.trim(),
+      openAiModel: draft.openAiModel.trim(),
+      openAiApiKey: draft.openAiApiKey.trim(),
+    });
+  };
+
+  const isValid = draft.provider !== 'openai-compatible' || (draft.openAiBaseUrl.trim() !== '' && draft.openAiModel.trim() !== '');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-full max-w-lg mx-4 bg-gray-900 p-8 rounded-2xl shadow-2xl border border-white/10" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-bold text-gray-100">Recommendation Settings</h2>
+        <p className="mt-1 text-sm text-gray-500">Choose which backend writes the track ideas.</p>
+        <form onSubmit={handleSubmit} className="mt-6 space-y-6">
+          <fieldset className="space-y-2">
+            <legend className="block text-sm font-medium text-gray-300 mb-2">Provider</legend>
+            {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map((id) => (
+              <label key={id} className="flex items-center gap-3 text-gray-300">
+                <input
+                  type="radio"
+                  name="provider"
+                  value={id}
+                  checked={draft.provider === id}
+                  onChange={() => update('provider', id)}
+                  className="accent-purple-500"
+                />
+                {PROVIDER_LABELS[id]}
+              </label>
+            ))}
+          </fieldset>
+
+          {draft.provider === 'gemini' && (
+            <div>
+              <label htmlFor="geminiModel" className="block text-sm font-medium text-gray-300 mb-2">Model</label>
+              <input
+                id="geminiModel"
+                list="gemini-models"
+                value={draft.geminiModel}
+                onChange={(e) => update('geminiModel', e.target.value)}
+                className={inputClassName}
+              />
+              <datalist id="gemini-models">
+                {GEMINI_MODELS.map((model) => <option key={model} value={model} />)}
+              </datalist>
+            </div>
+          )}
+
+          {draft.provider === 'openai-compatible' && (
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="openAiBaseUrl" className="block text-sm font-medium text-gray-300 mb-2">Base URL</label>
+                <input
+                  id="openAiBaseUrl"
+                  type="url"
+                  value={draft.openAiBaseUrl}
+                  onChange={(e) => update('openAiBaseUrl', e.target.value)}
+                  placeholder="http://localhost:11434/v1"
+                  className={inputClassName}
+                  required
+                />
+                <p className="mt-1 text-xs text-gray-500">Ollama: http://localhost:11434/v1 · llama.cpp: http://localhost:8080/v1</p>
+              </div>
+              <div>
+                <label htmlFor="openAiModel" className="block text-sm font-medium text-gray-300 mb-2">Model</label>
+                <input
+                  id="openAiModel"
+                  value={draft.openAiModel}
+                  onChange={(e) => update('openAiModel', e.target.value)}
+                  placeholder="llama3.1"
+                  className={inputClassName}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="openAiApiKey" className="block text-sm font-medium text-gray-300 mb-2">API Key (optional)</label>
+                <input
+                  id="openAiApiKey"
+                  type="password"
+                  value={draft.openAiApiKey}
+                  onChange={(e) => update('openAiApiKey', e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          )}
+
+          {draft.provider === 'mock' && (
+            <p className="text-sm text-gray-400">
+              Generates deterministic sample recommendations locally. No key or network connection needed.
+            </p>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-colors">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!isValid}
+              className="px-6 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white font-semibold rounded-lg shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useEffect, useRef } from 'react';
+import { getPlayerAnalyser } from '../utils/playerAnalyser';
+
+interface SpectrumMeterProps {
+  /** The shared player, which is tapped for analysis from the first time this is shown. */
+  player: HTMLAudioElement;
+}
+
+// Bands spaced evenly in pitch, as ears hear them
+const BANDS = 32;
+const LOWEST_FREQUENCY = 40;
+const HIGHEST_FREQUENCY = 16000;
+// The level meter shows the last stretch of this many dB below full scale
+const METER_RANGE_DB = 48;
+const METER_WIDTH = 6;
+
+export const SpectrumMeter: React.FC<SpectrumMeterProps> = ({ player }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    const analyser = getPlayerAnalyser(player);
+    const spectrum = new Uint8Array(analyser.frequencyBinCount);
+    const waveform = new Float32Array(analyser.fftSize);
+    const binOf = (frequency: number) =>
+      Math.min(spectrum.length - 1, Math.round((frequency / (analyser.context.sampleRate / 2)) * spectrum.length));
+
+    let frame = requestAnimationFrame(function draw() {
+      const { width, height } = canvas;
+      analyser.getByteFrequencyData(spectrum);
+      analyser.getFloatTimeDomainData(waveform);
+      context.clearRect(0, 0, width, height);
+
+      const bandWidth = (width - METER_WIDTH - 4) / BANDS;
+      context.fillStyle = 'rgba(192, 132, 252, 0.8)';
+      for (let band = 0; band < BANDS; band++) {
+        const low = binOf(LOWEST_FREQUENCY * Math.pow(HIGHEST_FREQUENCY / LOWEST_FREQUENCY, band / BANDS));
+        const high = Math.max(low + 1, binOf(LOWEST_FREQUENCY * Math.pow(HIGHEST_FREQUENCY / LOWEST_FREQUENCY, (band + 1) / BANDS)));
+        let level = 0;
+        for (let bin = low; bin < high; bin++) level = Math.max(level, spectrum[bin]);
+        const barHeight = (level / 255) * height;
+        context.fillRect(band * bandWidth + 0.5, height - barHeight, bandWidth - 1, barHeight);
+      }
+
+      let peak = 0;
+      for (const sample of waveform) peak = Math.max(peak, Math.abs(sample));
+      const db = 20 * Math.log10(Math.max(peak, 1e-6));
+      const meterHeight = Math.max(0, Math.min(1, 1 + db / METER_RANGE_DB)) * height;
+      context.fillStyle = 'rgba(255, 255, 255, 0.1)';
+      context.fillRect(width - METER_WIDTH, 0, METER_WIDTH, height);
+      context.fillStyle = db > -1 ? 'rgb(248, 113, 113)' : db > -6 ? 'rgb(250, 204, 21)' : 'rgb(74, 222, 128)';
+      context.fillRect(width - METER_WIDTH, height - meterHeight, METER_WIDTH, meterHeight);
+
+      frame = requestAnimationFrame(draw);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [player]);
+
+  return <canvas ref={canvasRef} width={240} height={40} className="mt-2 w-full h-10" aria-label="Live spectrum and level" role="img" />;
+};
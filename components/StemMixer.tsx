@@ -0,0 +1,65 @@
+import React from 'react';
+import type { StemMix, StemName } from '../types';
+import { STEM_LABELS } from '../utils/stems';
+
+interface StemMixerProps {
+  /** The track's stems, in mixer order. */
+  stems: StemName[];
+  mix: StemMix;
+  onChange: (mix: StemMix) => void;
+  /** Shown under the mixer, e.g. from `describePerStemEffects`. */
+  note?: string | null;
+}
+
+const toggle = (stems: StemName[], stem: StemName): StemName[] =>
+  stems.includes(stem) ? stems.filter(existing => existing !== stem) : [...stems, stem];
+
+export const StemMixer: React.FC<StemMixerProps> = ({ stems, mix, onChange, note }) => {
+  const isSoloing = mix.soloed.length > 0;
+  const changed = mix.muted.length + mix.soloed.length;
+
+  return (
+    <details className="mt-2 text-xs text-gray-400">
+      <summary className="cursor-pointer select-none hover:text-gray-200 transition-colors truncate">
+        Layers: {stems.map(stem => STEM_LABELS[stem]).join(', ')}
+        {changed > 0 && <span className="text-purple-300"> · {isSoloing ? `${mix.soloed.length} soloed` : `${mix.muted.length} muted`}</span>}
+      </summary>
+      <ul className="mt-2 space-y-1">
+        {stems.map((stem) => {
+          const isMuted = mix.muted.includes(stem);
+          const isSoloed = mix.soloed.includes(stem);
+          const isAudible = isSoloing ? isSoloed : !isMuted;
+          return (
+            <li key={stem} className="flex items-center gap-2">
+              <span className={`flex-1 ${isAudible ? 'text-gray-300' : 'text-gray-600 line-through'}`}>{STEM_LABELS[stem]}</span>
+              <button
+                type="button"
+                onClick={() => onChange({ ...mix, muted: toggle(mix.muted, stem) })}
+                className={`w-6 h-6 rounded font-semibold transition-colors ${isMuted ? 'bg-red-500/40 text-white' : 'bg-white/10 text-gray-400 hover:text-white'}`}
+                aria-label={`${isMuted ? 'Unmute' : 'Mute'} ${STEM_LABELS[stem]}`}
+                aria-pressed={isMuted}
+              >
+                M
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange({ ...mix, soloed: toggle(mix.soloed, stem) })}
+                className={`w-6 h-6 rounded font-semibold transition-colors ${isSoloed ? 'bg-yellow-500/40 text-white' : 'bg-white/10 text-gray-400 hover:text-white'}`}
+                aria-label={`${isSoloed ? 'Unsolo' : 'Solo'} ${STEM_LABELS[stem]}`}
+                aria-pressed={isSoloed}
+              >
+                S
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      {note && <p className="mt-2 text-gray-500">{note}</p>}
+      {changed > 0 && (
+        <button type="button" onClick={() => onChange({ muted: [], soloed: [] })} className="mt-2 text-gray-500 hover:text-gray-300 hover:underline transition-colors">
+          Play everything
+        </button>
+      )}
+    </details>
+  );
+};
@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import type { MusicSpec, NoteName, MusicMode, InstrumentLayers, EffectName, EffectsSpec, ReverbType, RhythmPattern } from '../types';
+import { NOTE_NAMES } from '../constants';
+import { MODES, DRUM_STYLES } from '../services/recommendationProvider';
+import { HARMONY_VOICES, BASS_VOICES, MELODY_VOICES } from '../utils/instruments';
+import { DEFAULT_EFFECTS } from '../utils/musicSpec';
+
+interface TrackEditorProps {
+  spec: MusicSpec;
+  /** The spec the track's description gives, for undoing every edit at once. */
+  original: MusicSpec;
+  onApply: (spec: MusicSpec) => void;
+  onClose: () => void;
+}
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format?: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+interface EffectSectionProps {
+  label: string;
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  children?: React.ReactNode;
+}
+
+const inputClassName = "w-full bg-gray-900/50 border border-white/20 rounded-md px-2 py-1 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition disabled:opacity-50";
+
+const LAYER_OPTIONS: { [Layer in keyof InstrumentLayers]: NonNullable<InstrumentLayers[Layer]>[] } = {
+  drums: DRUM_STYLES.filter((style): style is RhythmPattern => style !== 'none'),
+  harmony: Object.keys(HARMONY_VOICES) as NonNullable<InstrumentLayers['harmony']>[],
+  bass: Object.keys(BASS_VOICES) as NonNullable<InstrumentLayers['bass']>[],
+  melody: Object.keys(MELODY_VOICES) as NonNullable<InstrumentLayers['melody']>[],
+};
+
+const DELAY_NOTE_VALUES: { beats: number; label: string }[] = [
+  { beats: 0.5, label: 'Eighth' },
+  { beats: 0.75, label: 'Dotted eighth' },
+  { beats: 1, label: 'Quarter' },
+];
+
+const toLabel = (value: string): string => value[0].toUpperCase() + value.slice(1).replace(/-/g, ' ');
+
+const percent = (value: number): string => `${Math.round(value * 100)}%`;
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, format = String, onChange }) => (
+  <label className="block">
+    <span className="flex justify-between text-xs text-gray-400 mb-1">
+      <span>{label}</span>
+      <span className="font-mono text-gray-500">{format(value)}</span>
+    </span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full accent-purple-500"
+    />
+  </label>
+);
+
+const EffectSection: React.FC<EffectSectionProps> = ({ label, enabled, onToggle, children }) => (
+  <div className="space-y-2">
+    <label className="flex items-center gap-2">
+      <input type="checkbox" checked={enabled} onChange={(e) => onToggle(e.target.checked)} className="accent-purple-500" />
+      <span>{label}</span>
+    </label>
+    {enabled && children && <div className="grid grid-cols-2 gap-3 pl-6">{children}</div>}
+  </div>
+);
+
+export const TrackEditor: React.FC<TrackEditorProps> = ({ spec, original, onApply, onClose }) => {
+  const [draft, setDraft] = useState<MusicSpec>(spec);
+
+  const update = <K extends keyof MusicSpec>(key: K, value: MusicSpec[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+  const setLayer = <K extends keyof InstrumentLayers>(layer: K, value: InstrumentLayers[K]) => {
+    setDraft(prev => ({ ...prev, layers: { ...prev.layers, [layer]: value } }));
+  };
+  const setEffect = <K extends EffectName>(name: K, value: EffectsSpec[K]) => {
+    setDraft(prev => ({ ...prev, effects: { ...prev.effects, [name]: value } }));
+  };
+
+  const { reverb, delay, wobble, filter, bitcrush, distortion, pump } = draft.effects;
+  const isChanged = JSON.stringify(draft) !== JSON.stringify(spec);
+  const isValid = draft.length === undefined || (Number.isFinite(draft.length) && draft.length >= 1 && draft.length <= 600);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isValid) onApply(draft);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 pt-4 border-t border-white/10 space-y-4 text-sm text-gray-300">
+      {draft.scenes && draft.scenes.length > 1 && (
+        <p className="text-xs text-gray-500">
+          This track follows {draft.scenes.length} scenes, which set their own tempo, key, mode, energy and sound. Swing and export length still apply throughout.
+        </p>
+      )}
+      <div className="grid grid-cols-2 gap-3">
+        <Slider label="Tempo" value={draft.bpm} min={40} max={220} step={1} format={(bpm) => `${bpm} bpm`} onChange={(bpm) => update('bpm', bpm)} />
+        <Slider label="Energy" value={draft.energy} min={1} max={10} step={1} onChange={(energy) => update('energy', energy)} />
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">Key</span>
+          <select value={draft.root} onChange={(e) => update('root', e.target.value as NoteName)} className={inputClassName}>
+            {NOTE_NAMES.map((note) => (
+              <option key={note} value={note} className="bg-gray-800">{note}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">Mode</span>
+          <select value={draft.mode} onChange={(e) => update('mode', e.target.value as MusicMode)} className={inputClassName}>
+            {MODES.map((mode) => (
+              <option key={mode} value={mode} className="bg-gray-800">{toLabel(mode)}</option>
+            ))}
+          </select>
+        </label>
+        <Slider label="Swing" value={draft.swing ?? 0} min={0} max={1} step={0.05} format={percent} onChange={(swing) => update('swing', swing)} />
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">Export length (s)</span>
+          <input
+            type="number"
+            min={1}
+            max={600}
+            step={1}
+            value={draft.length ?? ''}
+            placeholder="Default"
+            onChange={(e) => update('length', e.target.value === '' ? undefined : parseFloat(e.target.value))}
+            className={inputClassName}
+          />
+        </label>
+      </div>
+
+      <fieldset className="grid grid-cols-2 gap-3">
+        <legend className="text-xs font-medium text-gray-400 mb-2">Layers</legend>
+        {(Object.keys(LAYER_OPTIONS) as (keyof InstrumentLayers)[]).map((layer) => (
+          <label key={layer} className="block">
+            <span className="block text-xs text-gray-400 mb-1">{toLabel(layer)}</span>
+            <select
+              value={draft.layers[layer] ?? ''}
+              onChange={(e) => setLayer(layer, (e.target.value || null) as InstrumentLayers[typeof layer])}
+              className={inputClassName}
+            >
+              <option value="" className="bg-gray-800">Off</option>
+              {LAYER_OPTIONS[layer].map((option) => (
+                <option key={option} value={option} className="bg-gray-800">{toLabel(option)}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </fieldset>
+
+      <fieldset className="space-y-3">
+        <legend className="text-xs font-medium text-gray-400 mb-2">Effects</legend>
+        <EffectSection label="Reverb" enabled={reverb !== null} onToggle={(on) => setEffect('reverb', on ? DEFAULT_EFFECTS.reverb : null)}>
+          {reverb && (
+            <>
+              <label className="block col-span-2">
+                <span className="block text-xs text-gray-400 mb-1">Space</span>
+                <select value={reverb.type} onChange={(e) => setEffect('reverb', { ...reverb, type: e.target.value as ReverbType })} className={inputClassName}>
+                  {(['room', 'hall', 'plate'] as ReverbType[]).map((type) => (
+                    <option key={type} value={type} className="bg-gray-800">{toLabel(type)}</option>
+                  ))}
+                </select>
+              </label>
+              <Slider label="Decay" value={reverb.decay} min={0.3} max={8} step={0.1} format={(decay) => `${decay} s`} onChange={(decay) => setEffect('reverb', { ...reverb, decay })} />
+              <Slider label="Mix" value={reverb.mix} min={0} max={1} step={0.05} format={percent} onChange={(mix) => setEffect('reverb', { ...reverb, mix })} />
+            </>
+          )}
+        </EffectSection>
+        <EffectSection label="Delay" enabled={delay !== null} onToggle={(on) => setEffect('delay', on ? DEFAULT_EFFECTS.delay : null)}>
+          {delay && (
+            <>
+              <label className="block col-span-2">
+                <span className="block text-xs text-gray-400 mb-1">Timing</span>
+                <select value={delay.beats} onChange={(e) => setEffect('delay', { ...delay, beats: Number(e.target.value) })} className={inputClassName}>
+                  {DELAY_NOTE_VALUES.map(({ beats, label }) => (
+                    <option key={beats} value={beats} className="bg-gray-800">{label}</option>
+                  ))}
+                </select>
+              </label>
+              <Slider label="Feedback" value={delay.feedback} min={0} max={0.9} step={0.05} format={percent} onChange={(feedback) => setEffect('delay', { ...delay, feedback })} />
+              <Slider label="Level" value={delay.mix} min={0} max={1} step={0.05} format={percent} onChange={(mix) => setEffect('delay', { ...delay, mix })} />
+            </>
+          )}
+        </EffectSection>
+        <EffectSection label="Pitch wobble" enabled={wobble !== null} onToggle={(on) => setEffect('wobble', on ? DEFAULT_EFFECTS.wobble : null)}>
+          {wobble && (
+            <>
+              <Slider label="Rate" value={wobble.rate} min={0.1} max={8} step={0.1} format={(rate) => `${rate} Hz`} onChange={(rate) => setEffect('wobble', { ...wobble, rate })} />
+              <Slider label="Depth" value={wobble.depth} min={0} max={60} step={1} format={(depth) => `±${depth}¢`} onChange={(depth) => setEffect('wobble', { ...wobble, depth })} />
+            </>
+          )}
+        </EffectSection>
+        <EffectSection label="Filter" enabled={filter !== null} onToggle={(on) => setEffect('filter', on ? DEFAULT_EFFECTS.filter : null)}>
+          {filter && (
+            <>
+              <label className="block">
+                <span className="block text-xs text-gray-400 mb-1">Type</span>
+                <select value={filter.type} onChange={(e) => setEffect('filter', { ...filter, type: e.target.value as 'lowpass' | 'highpass' })} className={inputClassName}>
+                  <option value="lowpass" className="bg-gray-800">Low-pass</option>
+                  <option value="highpass" className="bg-gray-800">High-pass</option>
+                </select>
+              </label>
+              <Slider label="Cutoff" value={filter.cutoff} min={100} max={8000} step={50} format={(cutoff) => `${cutoff} Hz`} onChange={(cutoff) => setEffect('filter', { ...filter, cutoff })} />
+              <label className="flex items-center gap-2 col-span-2">
+                <input type="checkbox" checked={filter.sweep} onChange={(e) => setEffect('filter', { ...filter, sweep: e.target.checked })} className="accent-purple-500" />
+                <span>Sweep the cutoff</span>
+              </label>
+            </>
+          )}
+        </EffectSection>
+        <EffectSection label="Bitcrusher" enabled={bitcrush !== null} onToggle={(on) => setEffect('bitcrush', on ? DEFAULT_EFFECTS.bitcrush : null)}>
+          {bitcrush && (
+            <>
+              <Slider label="Bits" value={bitcrush.bits} min={3} max={16} step={1} onChange={(bits) => setEffect('bitcrush', { ...bitcrush, bits })} />
+              <Slider label="Downsample" value={bitcrush.downsample} min={1} max={16} step={1} format={(downsample) => `1/${downsample}`} onChange={(downsample) => setEffect('bitcrush', { ...bitcrush, downsample })} />
+            </>
+          )}
+        </EffectSection>
+        <EffectSection label="Distortion" enabled={distortion !== null} onToggle={(on) => setEffect('distortion', on ? DEFAULT_EFFECTS.distortion : null)}>
+          {distortion && (
+            <Slider label="Drive" value={distortion.drive} min={1} max={30} step={0.5} onChange={(drive) => setEffect('distortion', { drive })} />
+          )}
+        </EffectSection>
+        <EffectSection label="Sidechain pump" enabled={pump !== null} onToggle={(on) => setEffect('pump', on ? DEFAULT_EFFECTS.pump : null)}>
+          {pump && (
+            <Slider label="Depth" value={pump.depth} min={0} max={0.9} step={0.05} format={percent} onChange={(depth) => setEffect('pump', { depth })} />
+          )}
+        </EffectSection>
+        <EffectSection label="Detuned melody" enabled={draft.effects.detune} onToggle={(on) => setEffect('detune', on)} />
+      </fieldset>
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={() => setDraft(original)} className="mr-auto px-3 py-1 rounded-md text-gray-400 hover:text-white hover:bg-white/10 transition-colors">
+          Reset
+        </button>
+        <button type="button" onClick={onClose} className="px-3 py-1 rounded-md text-gray-400 hover:text-white hover:bg-white/10 transition-colors">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!isChanged || !isValid}
+          className="px-3 py-1 rounded-md bg-gradient-to-r from-purple-500 to-pink-500 text-white font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Apply &amp; re-render
+        </button>
+      </div>
+    </form>
+  );
+};
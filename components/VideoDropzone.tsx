@@ -0,0 +1,117 @@
+import React, { useRef, useState } from 'react';
+import type { VideoAnalysis } from '../types';
+import { SparklesIcon, VideoCameraIcon } from './Icons';
+
+export type VideoStatus = 'idle' | 'analyzing' | 'describing';
+
+interface VideoDropzoneProps {
+  analysis: VideoAnalysis | null;
+  status: VideoStatus;
+  /** Fraction of the video analyzed so far, from 0 to 1. */
+  progress: number;
+  /** Whether the provider can suggest the form inputs from keyframes. */
+  canDescribe: boolean;
+  onFiles: (files: File[]) => void;
+  onDescribe: () => void;
+  onClear: () => void;
+}
+
+const formatTime = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+export const VideoDropzone: React.FC<VideoDropzoneProps> = ({ analysis, status, progress, canDescribe, onFiles, onDescribe, onClear }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (e.dataTransfer.files.length > 0) onFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) onFiles(Array.from(e.target.files));
+    // Let the same file be picked again after clearing it
+    e.target.value = '';
+  };
+
+  if (status === 'analyzing') {
+    return (
+      <div className="flex items-center gap-3 border border-white/10 rounded-lg px-4 py-3 text-sm text-gray-400">
+        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-purple-400"></div>
+        <span>Analyzing video… {Math.round(progress * 100)}%</span>
+        <button type="button" onClick={onClear} className="ml-auto text-gray-500 hover:text-gray-300 hover:underline transition-colors">
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  if (analysis) {
+    return (
+      <div className="border border-white/10 rounded-lg p-4 text-sm text-gray-300">
+        <div className="flex items-center gap-3">
+          <VideoCameraIcon className="w-5 h-5 text-purple-300 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="truncate" title={analysis.name}>{analysis.name}</p>
+            <p className="text-xs text-gray-500">
+              {analysis.duration !== null
+                ? `${formatTime(analysis.duration)} · ${analysis.sceneCuts.length} scene ${analysis.sceneCuts.length === 1 ? 'cut' : 'cuts'} · exports default to this length`
+                : `${analysis.keyframes.length} keyframes`}
+            </p>
+          </div>
+          <div className="ml-auto flex items-center gap-2 flex-shrink-0">
+            {canDescribe && (
+              <button
+                type="button"
+                onClick={onDescribe}
+                disabled={status === 'describing'}
+                className="inline-flex items-center gap-1 px-3 py-1 rounded-md bg-white/10 text-white hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-wait"
+              >
+                {status === 'describing' ? (
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                ) : (
+                  <SparklesIcon className="w-4 h-4" />
+                )}
+                <span>Auto-fill</span>
+              </button>
+            )}
+            <button type="button" onClick={onClear} className="px-3 py-1 rounded-md text-gray-400 hover:text-white hover:bg-white/10 transition-colors">
+              Remove
+            </button>
+          </div>
+        </div>
+        <div className="mt-3 flex gap-2 overflow-x-auto pb-1">
+          {analysis.keyframes.map((keyframe) => (
+            <figure key={keyframe.time} className="flex-shrink-0">
+              <img src={keyframe.dataUrl} alt="" className="h-16 rounded-md border border-white/10" />
+              {analysis.duration !== null && (
+                <figcaption className="mt-0.5 text-[10px] font-mono text-gray-500 text-center">{formatTime(keyframe.time)}</figcaption>
+              )}
+            </figure>
+          ))}
+        </div>
+        {!canDescribe && (
+          <p className="mt-2 text-xs text-gray-500">Switch to Gemini in settings to fill in the form from these keyframes.</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      onClick={() => inputRef.current?.click()}
+      className={`flex items-center justify-center gap-2 border border-dashed rounded-lg px-4 py-3 text-sm cursor-pointer transition-colors ${isDragging ? 'border-purple-400 bg-purple-500/10 text-purple-200' : 'border-white/20 text-gray-400 hover:border-white/40 hover:text-gray-300'}`}
+    >
+      <VideoCameraIcon className="w-5 h-5" />
+      <span>Drop your video or a few keyframes here to fill in the details</span>
+      <input ref={inputRef} type="file" accept="video/*,image/*" multiple onChange={handleChange} className="hidden" />
+    </div>
+  );
+};
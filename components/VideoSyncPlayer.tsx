@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { MusicRecommendation, VideoAnalysis } from '../types';
+import { getTrackSpec } from '../utils/musicSpec';
+import { renderTrack } from '../utils/audioGenerator';
+import { workerProcessor } from '../utils/audioProcessor';
+import { createSyncPlayer } from '../utils/syncPreview';
+import type { SyncPlayer, SyncSettings } from '../utils/syncPreview';
+import { isAbortError } from '../services/errors';
+
+interface VideoSyncPlayerProps {
+  videoFile: File;
+  analysis: VideoAnalysis;
+  /** Length of the video in seconds. */
+  duration: number;
+  track: MusicRecommendation;
+  /** Called when the video starts playing, so other previews can stop. */
+  onPlay?: () => void;
+  onClose: () => void;
+}
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}
+
+const DEFAULT_SETTINGS: SyncSettings = { offset: 0, fadeIn: 1, fadeOut: 2, duck: 12, originalVolume: 0 };
+
+const seconds = (value: number): string => `${value.toFixed(1)} s`;
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, format, disabled, onChange }) => (
+  <label className={`block ${disabled ? 'opacity-50' : ''}`}>
+    <span className="flex justify-between text-xs text-gray-400 mb-1">
+      <span>{label}</span>
+      <span className="font-mono text-gray-500">{format(value)}</span>
+    </span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full accent-purple-500"
+    />
+  </label>
+);
+
+export const VideoSyncPlayer: React.FC<VideoSyncPlayerProps> = ({ videoFile, analysis, duration, track, onPlay, onClose }) => {
+  const containerRef = useRef<HTMLElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const playerRef = useRef<SyncPlayer | null>(null);
+  const [settings, setSettings] = useState<SyncSettings>(DEFAULT_SETTINGS);
+  const [isRendering, setIsRendering] = useState(true);
+  const [hasFailed, setHasFailed] = useState(false);
+  const videoUrl = useMemo(() => URL.createObjectURL(videoFile), [videoFile]);
+  const spec = useMemo(() => getTrackSpec(track), [track]);
+
+  useEffect(() => () => URL.revokeObjectURL(videoUrl), [videoUrl]);
+
+  useEffect(() => {
+    containerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, []);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const player = createSyncPlayer(video, DEFAULT_SETTINGS);
+    playerRef.current = player;
+    return () => {
+      player.dispose();
+      playerRef.current = null;
+    };
+  }, []);
+
+  // The whole video's worth of music, unfaded; fades are applied live so they can be tweaked
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsRendering(true);
+    setHasFailed(false);
+    playerRef.current?.setMusic(null);
+    renderTrack(spec, track.seed, { duration, fadeIn: 0, fadeOut: 0, signal: controller.signal, processor: workerProcessor })
+      .then(({ buffer }) => playerRef.current?.setMusic(buffer))
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error('Could not render music for the video preview:', err);
+        setHasFailed(true);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsRendering(false);
+      });
+    return () => controller.abort();
+  }, [spec, track.seed, duration]);
+
+  useEffect(() => {
+    playerRef.current?.update(settings);
+  }, [settings]);
+
+  const update = <K extends keyof SyncSettings>(key: K, value: SyncSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  const percentOf = (time: number) => `${(Math.min(duration, Math.max(0, time)) / duration) * 100}%`;
+  const musicLength = duration - settings.offset;
+
+  return (
+    <section ref={containerRef} className="mb-12 bg-white/5 border border-white/10 rounded-xl p-4 backdrop-blur-md">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-semibold text-gray-100 truncate">
+          {track.trackName} <span className="text-gray-500 font-normal">over</span> {analysis.name}
+        </h2>
+        <button onClick={onClose} className="px-3 py-1 rounded-md text-sm text-gray-400 hover:text-white hover:bg-white/10 transition-colors">
+          Close
+        </button>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="relative">
+          <video ref={videoRef} src={videoUrl} controls playsInline onPlay={onPlay} className="w-full max-h-96 rounded-lg bg-black" />
+          {(isRendering || hasFailed) && (
+            <div className="absolute top-2 left-2 flex items-center gap-2 bg-black/70 text-xs text-gray-300 px-2 py-1 rounded-md">
+              {isRendering && <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white"></div>}
+              <span>{hasFailed ? 'Could not render the music' : 'Rendering music…'}</span>
+            </div>
+          )}
+        </div>
+        <div className="space-y-4 text-sm text-gray-300">
+          <div>
+            <div className="relative h-12 rounded-md overflow-hidden border border-white/10 flex" aria-hidden="true">
+              {analysis.keyframes.map((keyframe) => (
+                <img key={keyframe.time} src={keyframe.dataUrl} alt="" className="h-full flex-1 min-w-0 object-cover opacity-40" />
+              ))}
+              {analysis.sceneCuts.map((cut) => (
+                <div key={cut} className="absolute inset-y-0 w-px bg-white/40" style={{ left: percentOf(cut) }} />
+              ))}
+              <div
+                className="absolute inset-y-2 rounded-sm bg-gradient-to-r from-purple-500/60 to-pink-500/60"
+                style={{ left: percentOf(settings.offset), right: 0 }}
+              >
+                <div className="absolute inset-y-0 left-0 bg-gradient-to-r from-gray-900/80 to-transparent" style={{ width: `${Math.min(100, (settings.fadeIn / musicLength) * 100)}%` }} />
+                <div className="absolute inset-y-0 right-0 bg-gradient-to-l from-gray-900/80 to-transparent" style={{ width: `${Math.min(100, (settings.fadeOut / musicLength) * 100)}%` }} />
+              </div>
+            </div>
+            <div className="flex justify-between mt-1 text-[10px] font-mono text-gray-500">
+              <span>0.0 s</span>
+              <span>{seconds(duration)}</span>
+            </div>
+          </div>
+          <Slider label="Music starts at" value={settings.offset} min={0} max={Math.max(0, duration - 1)} step={0.1} format={seconds} onChange={(offset) => update('offset', offset)} />
+          <div className="grid grid-cols-2 gap-3">
+            <Slider label="Fade in" value={settings.fadeIn} min={0} max={10} step={0.5} format={seconds} onChange={(fadeIn) => update('fadeIn', fadeIn)} />
+            <Slider label="Fade out" value={settings.fadeOut} min={0} max={10} step={0.5} format={seconds} onChange={(fadeOut) => update('fadeOut', fadeOut)} />
+            <Slider
+              label="Original audio"
+              value={settings.originalVolume}
+              min={0}
+              max={1}
+              step={0.05}
+              format={(volume) => volume === 0 ? 'Muted' : `${Math.round(volume * 100)}%`}
+              onChange={(originalVolume) => update('originalVolume', originalVolume)}
+            />
+            <Slider
+              label="Duck music under it"
+              value={settings.duck}
+              min={0}
+              max={24}
+              step={1}
+              format={(db) => `-${db} dB`}
+              disabled={settings.originalVolume === 0}
+              onChange={(duck) => update('duck', duck)}
+            />
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
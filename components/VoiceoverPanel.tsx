@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { VoiceoverAnalysis } from '../types';
+import { MicrophoneIcon } from './Icons';
+
+interface VoiceoverPanelProps {
+  file: File | null;
+  analysis: VoiceoverAnalysis | null;
+  isAnalyzing: boolean;
+  onFile: (file: File) => void;
+  onClear: () => void;
+}
+
+const formatTime = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+const buttonClassName = "inline-flex items-center gap-1 px-3 py-1 rounded-md bg-white/10 text-white hover:bg-white/20 transition-colors";
+
+export const VoiceoverPanel: React.FC<VoiceoverPanelProps> = ({ file, analysis, isAnalyzing, onFile, onClear }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordError, setRecordError] = useState<string | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setAudioUrl(url);
+    return () => {
+      URL.revokeObjectURL(url);
+      setAudioUrl(null);
+    };
+  }, [file]);
+
+  // Stop recording and release the microphone if the panel goes away mid-take
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorder.onstop = null;
+    recorder.stop();
+    recorder.stream.getTracks().forEach(track => track.stop());
+  }, []);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    if (picked) onFile(picked);
+    e.target.value = '';
+  };
+
+  const startRecording = async () => {
+    setRecordError(null);
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      console.error(err);
+      setRecordError('Could not use the microphone. Check that the browser is allowed to.');
+      return;
+    }
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      recorderRef.current = null;
+      setIsRecording(false);
+      const type = recorder.mimeType || 'audio/webm';
+      const extension = type.includes('ogg') ? 'ogg' : type.includes('mp4') ? 'm4a' : 'webm';
+      if (chunks.length > 0) onFile(new File(chunks, `Voiceover ${new Date().toLocaleTimeString()}.${extension}`, { type }));
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+    setIsRecording(true);
+  };
+
+  if (isAnalyzing) {
+    return (
+      <div className="flex items-center gap-3 border border-white/10 rounded-lg px-4 py-3 text-sm text-gray-400">
+        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-purple-400"></div>
+        <span>Finding speech in the voiceover…</span>
+      </div>
+    );
+  }
+
+  if (analysis) {
+    const speech = analysis.regions.reduce((total, region) => total + region.end - region.start, 0);
+    const percentOf = (time: number) => `${(time / analysis.duration) * 100}%`;
+    return (
+      <div className="border border-white/10 rounded-lg p-4 text-sm text-gray-300">
+        <div className="flex items-center gap-3">
+          <MicrophoneIcon className="w-5 h-5 text-purple-300 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="truncate" title={analysis.name}>{analysis.name}</p>
+            <p className="text-xs text-gray-500">
+              {formatTime(analysis.duration)} · {analysis.regions.length} speech {analysis.regions.length === 1 ? 'region' : 'regions'} · {formatTime(speech)} spoken · music ducks under it on export
+            </p>
+          </div>
+          <button type="button" onClick={onClear} className="ml-auto px-3 py-1 rounded-md text-gray-400 hover:text-white hover:bg-white/10 transition-colors flex-shrink-0">
+            Remove
+          </button>
+        </div>
+        <div className="relative mt-3 h-4 rounded-md bg-gray-900/50 border border-white/10 overflow-hidden" aria-hidden="true">
+          {analysis.regions.map((region) => (
+            <div
+              key={region.start}
+              className="absolute inset-y-0 bg-purple-500/50"
+              style={{ left: percentOf(region.start), width: percentOf(region.end - region.start) }}
+            />
+          ))}
+        </div>
+        {audioUrl && <audio src={audioUrl} controls className="mt-3 w-full h-8" />}
+        {analysis.regions.length === 0 && (
+          <p className="mt-2 text-xs text-yellow-300/80">No speech was found, so the music won't duck. Try a louder or cleaner take.</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 border border-dashed border-white/20 rounded-lg px-4 py-3 text-sm text-gray-400">
+      <MicrophoneIcon className="w-5 h-5" />
+      <span className="mr-auto">Add narration to duck the music under it</span>
+      {isRecording ? (
+        <button type="button" onClick={() => recorderRef.current?.stop()} className="inline-flex items-center gap-2 px-3 py-1 rounded-md bg-red-500/30 text-white hover:bg-red-500/50 transition-colors">
+          <span className="w-2 h-2 rounded-full bg-red-400 animate-pulse"></span>
+          <span>Stop recording</span>
+        </button>
+      ) : (
+        <>
+          <button type="button" onClick={() => inputRef.current?.click()} className={buttonClassName}>Upload</button>
+          {typeof MediaRecorder !== 'undefined' && (
+            <button type="button" onClick={startRecording} className={buttonClassName}>Record</button>
+          )}
+        </>
+      )}
+      <input ref={inputRef} type="file" accept="audio/*" onChange={handleChange} className="hidden" />
+      {recordError && <p className="w-full text-xs text-red-300">{recordError}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+
+interface WaveformProps {
+  /** Peak levels from 0 to 1, evenly spaced; a flat line while the preview renders. */
+  peaks?: number[];
+  /** The shared player, while it's playing this track; drives the playhead. */
+  player: HTMLAudioElement | null;
+  /** Called with how far into the preview to play from, from 0 to 1. */
+  onSeek: (fraction: number) => void;
+}
+
+// Arrow keys move the playhead by this much of the preview
+const KEY_STEP = 0.05;
+
+const Bars: React.FC<{ peaks: number[]; className: string }> = ({ peaks, className }) => (
+  <svg viewBox={`0 0 ${peaks.length} 2`} preserveAspectRatio="none" className={`absolute inset-0 w-full h-full ${className}`} aria-hidden="true">
+    {peaks.map((peak, index) => {
+      const height = Math.max(0.04, peak * 2);
+      return <rect key={index} x={index + 0.15} width={0.7} y={1 - height / 2} height={height} />;
+    })}
+  </svg>
+);
+
+export const Waveform: React.FC<WaveformProps> = ({ peaks, player, onSeek }) => {
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    if (!player) {
+      setProgress(0);
+      return;
+    }
+    // Follows the player every frame; timeupdate fires too rarely for a smooth playhead
+    let frame = requestAnimationFrame(function tick() {
+      setProgress(player.duration > 0 ? player.currentTime / player.duration : 0);
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [player]);
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    onSeek(Math.min(1, Math.max(0, (e.clientX - bounds.left) / bounds.width)));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const step = e.key === 'ArrowRight' ? KEY_STEP : e.key === 'ArrowLeft' ? -KEY_STEP : 0;
+    if (step === 0) return;
+    e.preventDefault();
+    onSeek(Math.min(1, Math.max(0, progress + step)));
+  };
+
+  const bars = peaks ?? new Array<number>(48).fill(0);
+  return (
+    <div
+      role="slider"
+      tabIndex={0}
+      aria-label="Seek preview"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(progress * 100)}
+      onClick={handleClick}
+      onKeyDown={handleKeyDown}
+      className="relative mt-3 h-10 cursor-pointer rounded-md focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500"
+    >
+      <Bars peaks={bars} className="fill-white/25" />
+      <div className="absolute inset-0" style={{ clipPath: `inset(0 ${100 - progress * 100}% 0 0)` }}>
+        <Bars peaks={bars} className="fill-purple-400" />
+      </div>
+      {player && <div className="absolute inset-y-0 w-px bg-white" style={{ left: `${progress * 100}%` }} />}
+    </div>
+  );
+};
@@ -1,3 +1,5 @@
+import type { NoteName, LoudnessTarget } from './types';
+
 
 export const MOODS: string[] = [
     "Happy",
@@ -13,3 +15,16 @@ export const MOODS: string[] = [
     "Energetic",
     "Peaceful"
 ];
+
+export const NOTE_NAMES: NoteName[] = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Preset export lengths in seconds, matching common short-video durations.
+export const EXPORT_LENGTHS: number[] = [15, 30, 60, 90];
+
+// Integrated loudness presets; the first is used for previews and as the export default.
+export const LOUDNESS_TARGETS: LoudnessTarget[] = [
+    { label: 'Short video & streaming (-14 LUFS)', lufs: -14 },
+    { label: 'Podcasts & Apple Music (-16 LUFS)', lufs: -16 },
+    { label: 'Broadcast, EBU R128 (-23 LUFS)', lufs: -23 },
+    { label: 'Loud, for ads & clubs (-9 LUFS)', lufs: -9 },
+];
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { ErrorKind } from './errors';
+import { AppError, classifyError, errorFromStatus, isAbortError } from './errors';
+
+describe('errorFromStatus', () => {
+  it.each<[number, string, ErrorKind]>([
+    [401, 'Unauthorized', 'invalid-key'],
+    [403, 'Forbidden', 'invalid-key'],
+    [400, 'API key not valid. Please pass a valid API key.', 'invalid-key'],
+    [400, 'Invalid JSON payload', 'unknown'],
+    [429, 'Too Many Requests', 'rate-limit'],
+    [500, 'Internal Server Error', 'network'],
+    [503, 'Service Unavailable', 'network'],
+    [404, 'Not Found', 'unknown'],
+  ])('sorts HTTP %i "%s" as %s', (status, detail, kind) => {
+    expect(errorFromStatus(status, detail).kind).toBe(kind);
+  });
+
+  it('keeps the wait the server asked for', () => {
+    expect(errorFromStatus(429, 'Too Many Requests', 2000).retryAfterMs).toBe(2000);
+  });
+});
+
+describe('classifyError', () => {
+  it.each<[string, unknown, ErrorKind]>([
+    ['a JSON syntax error', new SyntaxError('Unexpected token'), 'malformed-response'],
+    ['an error with an HTTP status', Object.assign(new Error('quota'), { status: 429 }), 'rate-limit'],
+    ['a Gemini bad key message', new Error('[400] API_KEY_INVALID'), 'invalid-key'],
+    ['a Gemini quota message', new Error('RESOURCE_EXHAUSTED'), 'rate-limit'],
+    ['a safety block', new Error('Response was blocked due to SAFETY'), 'safety'],
+    ['an unreachable server', new TypeError('Failed to fetch'), 'network'],
+    ['a thrown string', 'something odd', 'unknown'],
+  ])('sorts %s', (_, error, kind) => {
+    expect(classifyError(error).kind).toBe(kind);
+  });
+
+  it('passes an AppError through unchanged', () => {
+    const error = new AppError('safety');
+    expect(classifyError(error)).toBe(error);
+  });
+
+  it.each<[ErrorKind, boolean]>([
+    ['rate-limit', true],
+    ['network', true],
+    ['malformed-response', true],
+    ['invalid-key', false],
+    ['safety', false],
+    ['unknown', false],
+  ])('treats %s as retryable: %s', (kind, retryable) => {
+    expect(new AppError(kind).isRetryable).toBe(retryable);
+  });
+});
+
+describe('isAbortError', () => {
+  it.each<[string, unknown, boolean]>([
+    ['an AbortError', new DOMException('Aborted', 'AbortError'), true],
+    ['an aborted signal\'s reason', AbortSignal.abort().reason, true],
+    ['any other error', new Error('Aborted'), false],
+    ['a non-error', 'AbortError', false],
+  ])('recognizes %s: %s', (_, error, expected) => {
+    expect(isAbortError(error)).toBe(expected);
+  });
+});
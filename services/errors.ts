@@ -0,0 +1,103 @@
+export type ErrorKind =
+  | 'invalid-key'
+  | 'rate-limit'
+  | 'safety'
+  | 'malformed-response'
+  | 'network'
+  | 'render'
+  | 'unknown';
+
+export const ERROR_MESSAGES: Record<ErrorKind, string> = {
+  'invalid-key': 'The API key was rejected. Check that it is correct and still active.',
+  'rate-limit': 'The service is rate-limiting requests or your quota is used up. Wait a moment and try again.',
+  safety: 'The request was blocked by the content safety filter. Try rewording your topic or story.',
+  'malformed-response': 'The model replied with something that wasn\'t valid track data. Try again.',
+  network: 'Could not reach the recommendation service. Check your connection or server and try again.',
+  render: 'Could not render the audio preview for this track.',
+  unknown: 'Failed to generate music recommendations. Please try again.',
+};
+
+// Failures that may well succeed if the same request is simply sent again
+const RETRYABLE_KINDS: ErrorKind[] = ['rate-limit', 'network', 'malformed-response'];
+
+export const isRetryableKind = (kind: ErrorKind): boolean => RETRYABLE_KINDS.includes(kind);
+
+/**
+ * A failure sorted by cause, so the UI can explain it and decide whether to retry.
+ */
+export class AppError extends Error {
+  readonly kind: ErrorKind;
+  /** How long the server asked us to wait before retrying, in milliseconds. */
+  readonly retryAfterMs?: number;
+
+  constructor(kind: ErrorKind, options: { message?: string; cause?: unknown; retryAfterMs?: number } = {}) {
+    super(options.message ?? ERROR_MESSAGES[kind], { cause: options.cause });
+    this.name = 'AppError';
+    this.kind = kind;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get isRetryable(): boolean {
+    return isRetryableKind(this.kind);
+  }
+}
+
+/**
+ * Whether the error only means the operation was cancelled through an AbortSignal.
+ */
+export const isAbortError = (error: unknown): boolean =>
+  (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError';
+
+/**
+ * Classifies a failed HTTP response.
+ * @param status The HTTP status code.
+ * @param detail The response body or error message, searched for key errors.
+ * @param retryAfterMs The wait the server requested, if any.
+ */
+export const errorFromStatus = (status: number, detail: string, retryAfterMs?: number): AppError => {
+  const cause = new Error(`HTTP ${status}: ${detail}`);
+  // Gemini reports a bad key as 400 INVALID_ARGUMENT rather than 401
+  if (status === 401 || status === 403 || (status === 400 && /api[ _-]?key/i.test(detail))) {
+    return new AppError('invalid-key', { cause });
+  }
+  if (status === 429) return new AppError('rate-limit', { cause, retryAfterMs });
+  if (status >= 500) return new AppError('network', { cause, retryAfterMs });
+  return new AppError('unknown', { cause });
+};
+
+/**
+ * Sorts any thrown value into an `AppError`. Abort errors should be checked with
+ * `isAbortError` first; they are not failures.
+ */
+export const classifyError = (error: unknown): AppError => {
+  if (error instanceof AppError) return error;
+  if (error instanceof SyntaxError) return new AppError('malformed-response', { cause: error });
+
+  const status = (error as { status?: unknown } | null)?.status;
+  const message = error instanceof Error ? error.message : String(error);
+  if (typeof status === 'number') return errorFromStatus(status, message);
+
+  if (/API[ _]KEY[ _]INVALID|api key not valid/i.test(message)) return new AppError('invalid-key', { cause: error });
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return new AppError('rate-limit', { cause: error });
+  if (/SAFETY|PROHIBITED_CONTENT|blocked/i.test(message)) return new AppError('safety', { cause: error });
+  // fetch rejects with a TypeError when the server can't be reached at all
+  if (error instanceof TypeError || /network|failed to fetch/i.test(message)) return new AppError('network', { cause: error });
+  return new AppError('unknown', { cause: error });
+};
+
+/**
+ * Waits for the given time, rejecting early with an `AbortError` if the signal fires.
+ */
+export const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -1,19 +1,48 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import type { MusicRecommendation } from '../types';
+import type { GenerationInput, VideoAnalysis } from '../types';
+import { MOODS } from '../constants';
+import { buildPrompt, streamJsonRecommendations, validateVideoDescription, MODES, DRUM_STYLES, EFFECTS, SCENE_TRANSITIONS } from './recommendationProvider';
+import { AppError, classifyError, isAbortError } from './errors';
+import type { RecommendationProvider, RecommendationResult, VideoDescription } from './recommendationProvider';
 
-let ai: GoogleGenAI | null = null;
+export const GEMINI_MODELS = ["gemini-2.5-flash", "gemini-2.5-flash-lite", "gemini-2.5-pro"];
 
-export const initializeAi = (apiKey: string) => {
-  try {
-    ai = new GoogleGenAI({ apiKey });
-  } catch (error) {
-    console.error("Failed to initialize GoogleGenAI:", error);
-    ai = null;
-    throw new Error("Invalid API Key format or other initialization error.");
-  }
+// The structured fields, asked for both per track and per scene
+const attributeProperties = {
+  bpm: {
+    type: Type.INTEGER,
+    description: "The tempo in beats per minute, between 40 and 220. Must match the tempo in musicDescription.",
+  },
+  key: {
+    type: Type.STRING,
+    description: "The root note of the key, e.g. 'C', 'F#', 'Bb'.",
+  },
+  mode: {
+    type: Type.STRING,
+    enum: MODES,
+    description: "The scale the track is built on.",
+  },
+  instruments: {
+    type: Type.ARRAY,
+    items: { type: Type.STRING },
+    description: "The pitched instruments that play, e.g. ['music box', 'piano chords', 'rumbling bass drone']. Leave out drums and anything the description excludes.",
+  },
+  drumStyle: {
+    type: Type.STRING,
+    enum: DRUM_STYLES,
+    description: "The percussion: 'none' for no drums, 'heartbeat' for a lone pulsing kick, a genre groove such as 'trap' or 'tribal' when the description names one, otherwise 'standard'.",
+  },
+  effects: {
+    type: Type.ARRAY,
+    items: { type: Type.STRING, enum: EFFECTS },
+    description: "The effects applied to the mix.",
+  },
+  energy: {
+    type: Type.INTEGER,
+    description: "Overall intensity from 1 (very calm) to 10 (very intense).",
+  },
 };
 
-
 const responseSchema = {
   type: Type.ARRAY,
   items: {
@@ -31,53 +60,135 @@ const responseSchema = {
         type: Type.STRING,
         description: "A detailed description for a sophisticated AI music generator. Be specific and creative. Include: tempo (e.g., 'very slow 60 bpm'), key/mood ('eerie minor key', 'atonal', 'dissonant'), and specific instrumentation (e.g., 'features a detuned music box melody, sparse piano chords, low rumbling bass synth, and no drums', or 'haunting female choir pads with heavy reverb'). Use words that guide the sound design.",
       },
+      ...attributeProperties,
+      scenes: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            ...attributeProperties,
+            transition: {
+              type: Type.STRING,
+              enum: SCENE_TRANSITIONS,
+              description: "How the music changes into this scene from the one before it.",
+            },
+          },
+          required: ["bpm", "key", "mode", "instruments", "drumStyle", "effects", "energy", "transition"],
+        },
+        description: "Only when the video has scenes: the structured fields for each scene, in order.",
+      },
     },
-    required: ["trackName", "mood", "musicDescription"],
+    required: ["trackName", "mood", "musicDescription", "bpm", "key", "mode", "instruments", "drumStyle", "effects", "energy"],
   },
 };
 
-export const generateMusicRecommendations = async (topic: string, story: string, mood: string): Promise<Omit<MusicRecommendation, 'id' | 'previewUrl'>[]> => {
-  if (!ai) {
-    throw new Error("AI Client not initialized. Please set your API key.");
-  }
+const videoDescriptionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    topic: {
+      type: Type.STRING,
+      description: "What the video is about in a few words, e.g. 'Street food tour' or 'Cat vs. cucumber'.",
+    },
+    story: {
+      type: Type.STRING,
+      description: "One to three sentences on what happens in the video, in order.",
+    },
+    mood: {
+      type: Type.STRING,
+      enum: MOODS,
+      description: "The mood the background music should set.",
+    },
+  },
+  required: ["topic", "story", "mood"],
+};
 
-  const prompt = `
-    As an expert AI music prompt engineer, your task is to generate diverse and detailed prompts for creating background music for short-form videos.
-    Based on the following video details, generate a list of 20 unique and creative music track ideas.
+const buildVideoPrompt = ({ duration, sceneCuts }: VideoAnalysis): string => `
+    These images are keyframes from a short-form video, in order${duration !== null ? `; the video is ${Math.round(duration)} seconds long with ${sceneCuts.length} scene cuts` : ''}.
+    Describe the video so background music can be chosen for it: a short topic, the story of what happens, and the mood the music should set.
+  `;
 
-    Video Topic: ${topic}
-    Video Story/Content: ${story}
-    Desired Mood: ${mood}
+// Finish reasons meaning the output was withheld by a content filter
+const BLOCKED_FINISH_REASONS = ["SAFETY", "PROHIBITED_CONTENT", "BLOCKLIST", "SPII"];
 
-    For each track, provide a creative name, a one-word mood label, and a highly detailed description for an AI music generator.
-    The description MUST be specific about the feeling and sound.
-    - For tempo, use descriptions like 'slow and dragging 70 bpm' or 'frantic 160 bpm'.
-    - For harmony, use 'dissonant chords', 'atonal pads', 'sad minor key', 'hopeful major key'.
-    - For instrumentation, be varied. Suggest things like 'detuned piano', 'glockenspiel', 'music box', 'heavy synth bass', 'distorted electric guitar', 'string section', 'haunting choir'.
-    - For rhythm, specify 'no drums', 'a simple heartbeat kick drum', 'complex electronic beat', or 'tribal percussion'.
-    - For effects, mention 'heavy reverb', 'subtle delay', or 'wavering pitch'.
+/**
+ * Creates a provider backed by the Gemini API.
+ * @param apiKey The user's Gemini API key.
+ * @param model The Gemini model to call.
+ */
+export const createGeminiProvider = (apiKey: string, model: string = GEMINI_MODELS[0]): RecommendationProvider => {
+  let ai: GoogleGenAI;
+  try {
+    ai = new GoogleGenAI({ apiKey });
+  } catch (error) {
+    console.error("Failed to initialize GoogleGenAI:", error);
+    throw new Error("Invalid API Key format or other initialization error.");
+  }
 
-    Example for a 'creepy' mood: 'A very slow, dragging 60 bpm tempo in a dissonant, atonal scale. Features a simple, repetitive melody from a detuned music box with heavy reverb and delay. Accompanied by low, rumbling bass synth drones and occasional, sparse, discordant piano chords. No drums are present, creating a tense, empty atmosphere.'
+  async function* streamRecommendations(input: GenerationInput, signal?: AbortSignal): AsyncGenerator<RecommendationResult> {
+    try {
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: buildPrompt(input),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: responseSchema,
+          temperature: 0.9, // Increased for more creative variety
+          abortSignal: signal,
+        },
+      });
 
-    Return the list in the specified JSON format.
-  `;
+      async function* texts() {
+        for await (const chunk of stream) {
+          const finishReason = chunk.candidates?.[0]?.finishReason;
+          if (chunk.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+            throw new AppError('safety');
+          }
+          yield chunk.text ?? '';
+        }
+      }
+      yield* streamJsonRecommendations(texts());
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        temperature: 0.9, // Increased for more creative variety
-      },
-    });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error("Error generating music recommendations:", error);
+      throw classifyError(error);
+    }
+  }
 
-    const jsonText = response.text.trim();
-    return JSON.parse(jsonText) as { trackName: string; mood: string; musicDescription: string }[];
+  const describeVideo = async (analysis: VideoAnalysis, signal?: AbortSignal): Promise<VideoDescription> => {
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: [{
+          role: 'user',
+          parts: [
+            { text: buildVideoPrompt(analysis) },
+            // Keyframes are JPEG data URLs; the API takes the bare base64 payload
+            ...analysis.keyframes.map(keyframe => ({
+              inlineData: { mimeType: 'image/jpeg', data: keyframe.dataUrl.slice(keyframe.dataUrl.indexOf(',') + 1) },
+            })),
+          ],
+        }],
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: videoDescriptionSchema,
+          temperature: 0.4,
+          abortSignal: signal,
+        },
+      });
+      const finishReason = response.candidates?.[0]?.finishReason;
+      if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+        throw new AppError('safety');
+      }
+      const description = validateVideoDescription(JSON.parse(response.text ?? ''));
+      if (!description) throw new AppError('malformed-response');
+      return description;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error("Error describing video:", error);
+      throw classifyError(error);
+    }
+  };
 
-  } catch (error) {
-    console.error("Error generating music recommendations:", error);
-    throw error;
-  }
-};
\ No newline at end of file
+  return { id: 'gemini', label: 'Gemini', model, streamRecommendations, describeVideo };
+};
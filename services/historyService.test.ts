@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import type { GenerationInput, GenerationSession } from '../types';
+import { diffSessions } from './historyService';
+
+const session = (input: Partial<GenerationInput>): GenerationSession => ({
+  id: 'session',
+  input: { topic: 'Cooking', story: 'A quick pasta recipe', mood: 'Cozy', ...input },
+  model: 'mock',
+  createdAt: 0,
+  tracks: [],
+});
+
+const scene = { start: 0, description: 'Chopping onions', mood: 'Busy' };
+const liked = { trackName: 'Sunday Sauce', musicDescription: 'warm jazz', verdict: 'more' as const };
+
+describe('diffSessions', () => {
+  it.each<{ name: string; base: Partial<GenerationInput>; compare: Partial<GenerationInput>; changed: (keyof GenerationInput)[] }>([
+    { name: 'finds nothing between identical inputs', base: {}, compare: {}, changed: [] },
+    { name: 'ignores surrounding whitespace', base: { mood: 'Cozy ' }, compare: {}, changed: [] },
+    { name: 'finds a changed text field', base: { topic: 'Baking' }, compare: {}, changed: ['topic'] },
+    { name: 'finds scenes on only one side', base: { scenes: [scene] }, compare: {}, changed: ['scenes'] },
+    { name: 'finds a changed scene', base: { scenes: [scene] }, compare: { scenes: [{ ...scene, mood: 'Calm' }] }, changed: ['scenes'] },
+    { name: 'finds a changed refinement note', base: { refinement: { feedback: [], note: 'more lo-fi' } }, compare: { refinement: { feedback: [], note: 'less lo-fi' } }, changed: ['refinement'] },
+    { name: 'finds changed refinement marks', base: { refinement: { feedback: [liked], note: '' } }, compare: { refinement: { feedback: [], note: '' } }, changed: ['refinement'] },
+    { name: 'ignores the order of refinement marks', base: { refinement: { feedback: [liked, { ...liked, trackName: 'Al Dente' }], note: '' } }, compare: { refinement: { feedback: [{ ...liked, trackName: 'Al Dente' }, liked], note: '' } }, changed: [] },
+  ])('$name', ({ base, compare, changed }) => {
+    expect(diffSessions(session(base), session(compare)).changedInputs).toEqual(changed);
+  });
+});
@@ -0,0 +1,94 @@
+import type { GenerationInput, GenerationSession, MusicRecommendation } from '../types';
+import { HISTORY_STORE, withStore } from './database';
+
+// Older sessions are pruned so the history doesn't grow without bound.
+const MAX_HISTORY_SESSIONS = 50;
+
+/**
+ * Loads every recorded session, newest first.
+ */
+export const getSessions = async (): Promise<GenerationSession[]> => {
+  const sessions = await withStore<GenerationSession[]>(HISTORY_STORE, 'readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await withStore(HISTORY_STORE, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * Records a session and drops the oldest ones beyond the history limit.
+ * @returns The sessions that remain, newest first.
+ */
+export const saveSession = async (session: GenerationSession): Promise<GenerationSession[]> => {
+  await withStore(HISTORY_STORE, 'readwrite', store => store.put(session));
+  const sessions = await getSessions();
+  const expired = sessions.slice(MAX_HISTORY_SESSIONS);
+  await Promise.all(expired.map(old => deleteSession(old.id)));
+  return sessions.slice(0, MAX_HISTORY_SESSIONS);
+};
+
+export interface SessionDiff {
+  /** Inputs that differ between the two sessions. */
+  changedInputs: (keyof GenerationInput)[];
+  /** Tracks whose names only appear in the base session. */
+  onlyInBase: MusicRecommendation[];
+  /** Tracks whose names only appear in the compared session. */
+  onlyInCompare: MusicRecommendation[];
+  /** Track names both sessions produced. */
+  shared: string[];
+  averageBpm: { base: number | null; compare: number | null };
+  /** How many tracks carry each mood label in either session. */
+  moods: { mood: string; base: number; compare: number }[];
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+// Each input in a form that's equal exactly when two sessions asked for the same thing
+const COMPARABLE_INPUTS: Record<keyof GenerationInput, (input: GenerationInput) => string> = {
+  topic: input => input.topic.trim(),
+  story: input => input.story.trim(),
+  mood: input => input.mood.trim(),
+  scenes: input => JSON.stringify((input.scenes ?? []).map(scene => [scene.start, scene.description.trim(), scene.mood.trim()])),
+  refinement: input => input.refinement
+    ? JSON.stringify([input.refinement.note.trim(), input.refinement.feedback.map(item => `${item.verdict}:${normalizeName(item.trackName)}`).sort()])
+    : '',
+};
+
+const averageBpm = (tracks: MusicRecommendation[]): number | null => {
+  const tempos = tracks.map(track => track.spec?.bpm ?? track.attributes?.bpm).filter((bpm): bpm is number => bpm !== undefined);
+  return tempos.length > 0 ? Math.round(tempos.reduce((sum, bpm) => sum + bpm, 0) / tempos.length) : null;
+};
+
+const countMoods = (tracks: MusicRecommendation[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const track of tracks) {
+    const mood = track.mood.trim().toLowerCase();
+    counts.set(mood, (counts.get(mood) ?? 0) + 1);
+  }
+  return counts;
+};
+
+/**
+ * Compares what two runs produced, so a creator can see how a prompt tweak changed the results.
+ * @param base The session being compared against, usually the one currently on screen.
+ * @param compare The other session.
+ */
+export const diffSessions = (base: GenerationSession, compare: GenerationSession): SessionDiff => {
+  const baseNames = new Set(base.tracks.map(track => normalizeName(track.trackName)));
+  const compareNames = new Set(compare.tracks.map(track => normalizeName(track.trackName)));
+  const baseMoods = countMoods(base.tracks);
+  const compareMoods = countMoods(compare.tracks);
+
+  return {
+    changedInputs: (Object.keys(COMPARABLE_INPUTS) as (keyof GenerationInput)[])
+      .filter(field => COMPARABLE_INPUTS[field](base.input) !== COMPARABLE_INPUTS[field](compare.input)),
+    onlyInBase: base.tracks.filter(track => !compareNames.has(normalizeName(track.trackName))),
+    onlyInCompare: compare.tracks.filter(track => !baseNames.has(normalizeName(track.trackName))),
+    shared: base.tracks.map(track => track.trackName).filter(name => compareNames.has(normalizeName(name))),
+    averageBpm: { base: averageBpm(base.tracks), compare: averageBpm(compare.tracks) },
+    moods: [...new Set([...baseMoods.keys(), ...compareMoods.keys()])]
+      .map(mood => ({ mood, base: baseMoods.get(mood) ?? 0, compare: compareMoods.get(mood) ?? 0 }))
+      .sort((a, b) => (b.base + b.compare) - (a.base + a.compare)),
+  };
+};
@@ -0,0 +1,42 @@
+import type { LibraryEntry } from '../types';
+import { LIBRARY_STORE, withStore } from './database';
+
+/**
+ * Loads every saved track, most recently saved first.
+ */
+export const getLibraryEntries = async (): Promise<LibraryEntry[]> => {
+  const entries = await withStore<LibraryEntry[]>(LIBRARY_STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+/**
+ * Adds a track to the library, or overwrites it if one with the same ID is already saved.
+ */
+export const saveLibraryEntry = async (entry: LibraryEntry): Promise<void> => {
+  await withStore(LIBRARY_STORE, 'readwrite', store => store.put(entry));
+};
+
+export const deleteLibraryEntry = async (id: string): Promise<void> => {
+  await withStore(LIBRARY_STORE, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * Filters entries by a free-text query matched against names, moods, descriptions,
+ * tags and the inputs the track was generated from. Every word must match somewhere.
+ */
+export const searchLibrary = (entries: LibraryEntry[], query: string): LibraryEntry[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return entries;
+  return entries.filter(entry => {
+    const haystack = [
+      entry.trackName,
+      entry.mood,
+      entry.musicDescription,
+      entry.source.topic,
+      entry.source.story,
+      entry.source.mood,
+      ...entry.tags,
+    ].join(' ').toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+};
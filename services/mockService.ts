@@ -0,0 +1,193 @@
+import type { GenerationInput, MusicMode, MusicAttributes, RhythmPattern, EffectName, Refinement, Scene, SceneAttributes } from '../types';
+import { NOTE_NAMES } from '../constants';
+import { forkRandom } from '../utils/random';
+import type { Random } from '../utils/random';
+import { RECOMMENDATION_COUNT } from './recommendationProvider';
+import type { RecommendationProvider, RecommendationResult } from './recommendationProvider';
+import { wait } from './errors';
+
+export const MOCK_MODEL = "offline-demo";
+
+interface MoodProfile {
+  labels: string[];
+  modes: MusicMode[];
+  bpm: [number, number];
+  energy: [number, number];
+}
+
+const MOOD_PROFILES: Record<string, MoodProfile> = {
+  happy: { labels: ['Cheerful', 'Bouncy', 'Sunny'], modes: ['major', 'pentatonic'], bpm: [110, 140], energy: [6, 8] },
+  sad: { labels: ['Melancholy', 'Wistful', 'Somber'], modes: ['minor'], bpm: [60, 85], energy: [2, 4] },
+  romantic: { labels: ['Tender', 'Dreamy', 'Intimate'], modes: ['major', 'minor'], bpm: [70, 95], energy: [3, 5] },
+  tense: { labels: ['Suspenseful', 'Uneasy', 'Ominous'], modes: ['minor', 'dissonant', 'phrygian'], bpm: [60, 100], energy: [4, 7] },
+  warm: { labels: ['Cozy', 'Gentle', 'Nostalgic'], modes: ['major', 'pentatonic'], bpm: [80, 105], energy: [3, 5] },
+  epic: { labels: ['Heroic', 'Triumphant', 'Soaring'], modes: ['minor', 'major'], bpm: [120, 150], energy: [8, 10] },
+  chill: { labels: ['Laid-back', 'Mellow', 'Hazy'], modes: ['pentatonic', 'minor', 'dorian'], bpm: [75, 95], energy: [2, 4] },
+  funny: { labels: ['Quirky', 'Playful', 'Goofy'], modes: ['major', 'pentatonic'], bpm: [120, 150], energy: [6, 8] },
+  mysterious: { labels: ['Eerie', 'Enigmatic', 'Haunting'], modes: ['dissonant', 'minor', 'phrygian'], bpm: [55, 80], energy: [2, 5] },
+  hopeful: { labels: ['Uplifting', 'Bright', 'Inspiring'], modes: ['major'], bpm: [95, 120], energy: [5, 7] },
+  energetic: { labels: ['Driving', 'Punchy', 'Frantic'], modes: ['minor', 'major'], bpm: [130, 170], energy: [8, 10] },
+  peaceful: { labels: ['Serene', 'Calm', 'Floating'], modes: ['major', 'pentatonic'], bpm: [55, 75], energy: [1, 3] },
+};
+
+const DEFAULT_PROFILE: MoodProfile = { labels: ['Atmospheric', 'Cinematic'], modes: ['major', 'minor'], bpm: [80, 120], energy: [4, 6] };
+
+const profileFor = (mood: string): MoodProfile => MOOD_PROFILES[mood.toLowerCase()] ?? DEFAULT_PROFILE;
+
+// A jump in energy at least this big into a scene builds up with a riser
+const RISER_ENERGY_JUMP = 3;
+
+const NAME_ADJECTIVES = ['Neon', 'Velvet', 'Midnight', 'Golden', 'Hollow', 'Paper', 'Electric', 'Quiet', 'Crimson', 'Drifting', 'Glass', 'Faded', 'Wild', 'Lunar', 'Rusty', 'Sunlit'];
+const NAME_NOUNS = ['Horizon', 'Echoes', 'Parade', 'Lanterns', 'Tides', 'Signals', 'Footsteps', 'Postcards', 'Reverie', 'Static', 'Orbit', 'Bloom', 'Alley', 'Carousel', 'Daydream', 'Voltage'];
+
+const MELODY_INSTRUMENTS = ['music box melody', 'sparse piano melody', 'glockenspiel melody', 'bell melody', 'soaring synth melody', 'acoustic guitar melody', 'plucked harp melody'];
+const HARMONY_INSTRUMENTS = ['warm synth pads', 'string section chords', 'haunting choir pads', 'soft piano chords', 'distorted electric guitar chords'];
+const BASS_INSTRUMENTS = ['heavy synth bass', 'low rumbling bass drone', 'round bass line'];
+
+const MODE_PHRASES: Record<MusicMode, (key: string) => string> = {
+  major: (key) => `in ${key} major`,
+  minor: (key) => `in ${key} minor`,
+  dorian: (key) => `in ${key} dorian mode`,
+  phrygian: (key) => `in ${key} phrygian mode`,
+  dissonant: (key) => `in the key of ${key} with dissonant, atonal harmony`,
+  pentatonic: (key) => `in the key of ${key} on a pentatonic scale`,
+};
+
+const DRUM_PHRASES: Record<RhythmPattern | 'none', string> = {
+  none: 'No drums are present.',
+  heartbeat: 'A simple heartbeat kick drum pulses underneath.',
+  standard: 'A steady drum beat drives it forward.',
+  'four-on-the-floor': 'A four-on-the-floor dance beat keeps it moving.',
+  breakbeat: 'A chopped-up breakbeat rolls underneath.',
+  trap: 'A trap beat with skittering hi-hat rolls drives it.',
+  electronic: 'A complex electronic beat ticks away underneath.',
+  tribal: 'Tribal percussion of toms and shakers pulses through it.',
+};
+
+// Grooves for the livelier tracks; calmer ones get a heartbeat or nothing
+const DRIVING_DRUM_STYLES: RhythmPattern[] = ['standard', 'four-on-the-floor', 'breakbeat', 'trap', 'electronic', 'tribal'];
+
+const EFFECT_PHRASES: Record<EffectName, string> = {
+  reverb: 'heavy hall reverb',
+  delay: 'a subtle dotted-eighth delay',
+  detune: 'a slightly detuned, sour tuning',
+  wobble: 'a wavering tape-wobble pitch',
+  filter: 'a muffled underwater filter',
+  bitcrush: 'a bitcrushed lo-fi texture',
+  distortion: 'gritty saturation',
+  pump: 'sidechain pumping',
+};
+
+const pick = <T,>(random: Random, items: T[]): T => items[Math.floor(random() * items.length)];
+
+const between = (random: Random, [min, max]: [number, number]): number => Math.round(min + random() * (max - min));
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+/**
+ * What a refined batch builds on: the liked tracks to vary, and the modes and grooves of
+ * the disliked ones to keep away from.
+ */
+interface Steering {
+  anchors: MusicAttributes[];
+  avoidModes: Set<MusicMode>;
+  avoidDrumStyles: Set<RhythmPattern | 'none'>;
+}
+
+const steer = (refinement?: Refinement): Steering => {
+  const feedback = refinement?.feedback ?? [];
+  const disliked = feedback.filter(item => item.verdict === 'less').map(item => item.attributes ?? {});
+  return {
+    anchors: feedback.filter(item => item.verdict === 'more' && item.attributes).map(item => item.attributes!),
+    avoidModes: new Set(disliked.flatMap(attributes => attributes.mode ? [attributes.mode] : [])),
+    avoidDrumStyles: new Set(disliked.flatMap(attributes => attributes.drumStyle ? [attributes.drumStyle] : [])),
+  };
+};
+
+// Picks from the items the steering doesn't rule out, or from all of them if it rules out everything
+const pickAvoiding = <T,>(random: Random, items: T[], avoid: Set<T>): T => {
+  const allowed = items.filter(item => !avoid.has(item));
+  return pick(random, allowed.length > 0 ? allowed : items);
+};
+
+const createTrack = (random: Random, profile: MoodProfile, usedNames: Set<string>, steering: Steering): RecommendationResult => {
+  let trackName = `${pick(random, NAME_ADJECTIVES)} ${pick(random, NAME_NOUNS)}`;
+  while (usedNames.has(trackName)) {
+    trackName = `${pick(random, NAME_ADJECTIVES)} ${pick(random, NAME_NOUNS)}`;
+  }
+  usedNames.add(trackName);
+
+  // A liked track's variations keep its key, mode, groove and sound, nudging tempo and energy
+  const anchor: MusicAttributes = steering.anchors.length > 0 ? pick(random, steering.anchors) : {};
+  const bpm = anchor.bpm !== undefined ? clamp(anchor.bpm + between(random, [-8, 8]), 40, 220) : between(random, profile.bpm);
+  const energy = anchor.energy !== undefined ? clamp(anchor.energy + between(random, [-1, 1]), 1, 10) : between(random, profile.energy);
+  const key = anchor.key ?? pick(random, NOTE_NAMES);
+  const mode = anchor.mode ?? pickAvoiding(random, profile.modes, steering.avoidModes);
+  const instruments = anchor.instruments && anchor.instruments.length > 0 ? [...anchor.instruments] : [pick(random, MELODY_INSTRUMENTS)];
+  if (!anchor.instruments?.length) {
+    if (random() < 0.7) instruments.push(pick(random, HARMONY_INSTRUMENTS));
+    if (random() < 0.6) instruments.push(pick(random, BASS_INSTRUMENTS));
+  } else if (random() < 0.5) {
+    // Swap one part for another of the same kind, so the variation isn't a copy
+    const index = Math.floor(random() * instruments.length);
+    const pool = [MELODY_INSTRUMENTS, HARMONY_INSTRUMENTS, BASS_INSTRUMENTS].find(list => list.includes(instruments[index])) ?? MELODY_INSTRUMENTS;
+    instruments[index] = pick(random, pool);
+  }
+  const drumStyle: RhythmPattern | 'none' = anchor.drumStyle
+    ?? (energy >= 6
+      ? pickAvoiding(random, DRIVING_DRUM_STYLES, steering.avoidDrumStyles)
+      : pickAvoiding<RhythmPattern | 'none'>(random, ['heartbeat', 'none'], steering.avoidDrumStyles));
+  const effects = anchor.effects ?? (Object.keys(EFFECT_PHRASES) as EffectName[]).filter(() => random() < 0.25);
+
+  const effectsSentence = effects.length > 0
+    ? ` Finished with ${effects.map(effect => EFFECT_PHRASES[effect]).join(' and ')}.`
+    : '';
+  const musicDescription = `A ${bpm} bpm track ${MODE_PHRASES[mode](key)}. Features ${instruments.join(', ')}. ${DRUM_PHRASES[drumStyle]}${effectsSentence}`;
+  const attributes: MusicAttributes = { bpm, key, mode, instruments, drumStyle, effects, energy };
+
+  return { trackName, mood: pick(random, profile.labels), musicDescription, attributes };
+};
+
+// Each scene takes its tempo, mode, energy and groove from its own mood, while the key,
+// instruments and effects stay the track's own so it still sounds like one piece
+const followScenes = (random: Random, track: RecommendationResult, scenes: Scene[]): RecommendationResult => {
+  const { key, instruments, effects } = track.attributes ?? {};
+  let previousEnergy = 0;
+  const sceneAttributes = scenes.map((scene, index): SceneAttributes => {
+    const profile = profileFor(scene.mood);
+    const energy = between(random, profile.energy);
+    const drumStyle: RhythmPattern | 'none' = energy >= 6 ? pick(random, DRIVING_DRUM_STYLES) : pick<RhythmPattern | 'none'>(random, ['heartbeat', 'none']);
+    const transition = index > 0 && energy - previousEnergy >= RISER_ENERGY_JUMP ? 'riser' : 'crossfade';
+    previousEnergy = energy;
+    return { bpm: between(random, profile.bpm), key, mode: pick(random, profile.modes), instruments, drumStyle, effects, energy, transition };
+  });
+  const journey = sceneAttributes.map((attributes, index) => `${scenes[index].mood.toLowerCase()} at ${attributes.bpm} bpm`).join(', then ');
+  return { ...track, musicDescription: `${track.musicDescription} It follows the video's scenes: ${journey}.`, sceneAttributes };
+};
+
+/**
+ * Creates an offline provider that invents plausible recommendations locally. The same
+ * inputs always give the same tracks, which makes it useful for development and demos.
+ * It follows "more/less like this" marks when refining, but can't read the free-text note,
+ * and changes each track's feel to match the mood of each scene.
+ */
+export const createMockProvider = (): RecommendationProvider => {
+  async function* streamRecommendations(input: GenerationInput, signal?: AbortSignal): AsyncGenerator<RecommendationResult> {
+    const refinementLabel = input.refinement ? `|${JSON.stringify(input.refinement)}` : '';
+    const random = forkRandom(0, `${input.topic}|${input.story}|${input.mood}${refinementLabel}`);
+    const profile = profileFor(input.mood);
+    // Scenes draw from their own stream, so the tracks themselves are the same with or without them
+    const scenes = input.scenes && input.scenes.length > 1 ? input.scenes : null;
+    const sceneRandom = forkRandom(0, `${input.topic}|${input.story}|${input.mood}${refinementLabel}|${JSON.stringify(scenes)}`);
+    const steering = steer(input.refinement);
+    const usedNames = new Set<string>();
+    for (let i = 0; i < RECOMMENDATION_COUNT; i++) {
+      // Short pauses so streaming and loading states behave as they would against a real backend
+      await wait(i === 0 ? 400 : 120, signal);
+      const track = createTrack(random, profile, usedNames, steering);
+      yield scenes ? followScenes(sceneRandom, track, scenes) : track;
+    }
+  }
+
+  return { id: 'mock', label: 'Offline demo', model: MOCK_MODEL, streamRecommendations };
+};
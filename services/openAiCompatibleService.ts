@@ -0,0 +1,110 @@
+import type { GenerationInput } from '../types';
+import { buildPrompt, streamJsonRecommendations, MODES, DRUM_STYLES, EFFECTS, SCENE_TRANSITIONS } from './recommendationProvider';
+import type { RecommendationProvider, RecommendationResult } from './recommendationProvider';
+import { AppError, classifyError, errorFromStatus, isAbortError } from './errors';
+
+export interface OpenAiCompatibleConfig {
+  /** API root including the version, e.g. "http://localhost:11434/v1" for Ollama. */
+  baseUrl: string;
+  model: string;
+  /** Optional; local servers such as llama.cpp and Ollama don't need one. */
+  apiKey?: string;
+}
+
+// Chat-completion servers can't all enforce a schema, so the shape is spelled out in the prompt.
+const FORMAT_INSTRUCTIONS = `
+    Respond with a single JSON object and nothing else, shaped like:
+    {"tracks": [{"trackName": string, "mood": string, "musicDescription": string, "bpm": integer 40-220, "key": string like "C" or "F#", "mode": one of ${JSON.stringify(MODES)}, "instruments": string[], "drumStyle": one of ${JSON.stringify(DRUM_STYLES)}, "effects": subset of ${JSON.stringify(EFFECTS)}, "energy": integer 1-10}]}
+    When the video has scenes, each track also has "scenes": [{the same structured fields from "bpm" to "energy", "transition": one of ${JSON.stringify(SCENE_TRANSITIONS)}}], one per scene in order.
+`;
+
+// Marks the end of the event stream
+const STREAM_DONE = Symbol('done');
+
+// The content delta carried by one line of the event stream, if any
+const parseEventLine = (line: string): string | typeof STREAM_DONE | null => {
+  const data = line.trim();
+  if (!data.startsWith('data:')) return null;
+  const payload = data.slice(5).trim();
+  if (payload === '[DONE]') return STREAM_DONE;
+  const choice = JSON.parse(payload)?.choices?.[0];
+  if (choice?.finish_reason === 'content_filter') throw new AppError('safety');
+  const delta: unknown = choice?.delta?.content;
+  return typeof delta === 'string' ? delta : null;
+};
+
+/**
+ * Reads a server-sent event stream of chat completion chunks and yields the content deltas.
+ */
+async function* readContentDeltas(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      // Some servers leave the last event without a trailing newline, so what's left is read too
+      pending += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = pending.split('\n');
+      pending = done ? '' : lines.pop() ?? '';
+      for (const line of lines) {
+        const delta = parseEventLine(line);
+        if (delta === STREAM_DONE) return;
+        if (delta !== null) yield delta;
+      }
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Creates a provider that talks to any server implementing the OpenAI chat completions API,
+ * including local ones such as llama.cpp's server and Ollama.
+ */
+export const createOpenAiCompatibleProvider = (config: OpenAiCompatibleConfig): RecommendationProvider => {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  async function* streamRecommendations(input: GenerationInput, signal?: AbortSignal): AsyncGenerator<RecommendationResult> {
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          temperature: 0.9,
+          stream: true,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: 'You are a music recommendation engine that replies only with JSON.' },
+            { role: 'user', content: buildPrompt(input) + FORMAT_INSTRUCTIONS },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        const retryAfter = Number(response.headers.get('Retry-After'));
+        const detail = await response.text().catch(() => response.statusText);
+        throw errorFromStatus(response.status, detail, retryAfter > 0 ? retryAfter * 1000 : undefined);
+      }
+      if (!response.body) {
+        throw new AppError('network', { message: `${endpoint} returned an empty response.` });
+      }
+
+      // Code fences some local models add around the JSON are skipped by the stream parser
+      yield* streamJsonRecommendations(readContentDeltas(response.body));
+
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error("Error generating music recommendations:", error);
+      throw classifyError(error);
+    }
+  }
+
+  return { id: 'openai-compatible', label: 'OpenAI-compatible', model: config.model, streamRecommendations };
+};
@@ -0,0 +1,70 @@
+import type { ProviderId, RecommendationProvider } from './recommendationProvider';
+import { createGeminiProvider, GEMINI_MODELS } from './geminiService';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleService';
+import { createMockProvider } from './mockService';
+
+const SETTINGS_KEY = 'clipvibe-provider-settings';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  geminiModel: string;
+  openAiBaseUrl: string;
+  openAiModel: string;
+  openAiApiKey: string;
+}
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  'openai-compatible': 'OpenAI-compatible server',
+  mock: 'Offline demo (no network)',
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  geminiModel: GEMINI_MODELS[0],
+  openAiBaseUrl: 'http://localhost:11434/v1',
+  openAiModel: 'llama3.1',
+  openAiApiKey: '',
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PROVIDER_SETTINGS;
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Whether the chosen provider can't be used until the user enters a Gemini API key.
+ */
+export const needsGeminiKey = (settings: ProviderSettings, geminiApiKey: string | null): boolean =>
+  settings.provider === 'gemini' && !geminiApiKey;
+
+/**
+ * Builds the provider the settings select.
+ * @param settings The user's provider choice and its configuration.
+ * @param geminiApiKey The stored Gemini key, required only for the Gemini provider.
+ */
+export const createProvider = (settings: ProviderSettings, geminiApiKey: string | null): RecommendationProvider => {
+  switch (settings.provider) {
+    case 'gemini':
+      if (!geminiApiKey) {
+        throw new Error("AI Client not initialized. Please set your API key.");
+      }
+      return createGeminiProvider(geminiApiKey, settings.geminiModel);
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider({
+        baseUrl: settings.openAiBaseUrl,
+        model: settings.openAiModel,
+        apiKey: settings.openAiApiKey || undefined,
+      });
+    case 'mock':
+      return createMockProvider();
+  }
+};
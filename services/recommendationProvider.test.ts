@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import type { GenerationInput } from '../types';
+import { AppError } from './errors';
+import type { ErrorKind } from './errors';
+import { streamWithRetry } from './recommendationProvider';
+import type { RecommendationProvider, RecommendationResult } from './recommendationProvider';
+
+const input: GenerationInput = { topic: 'Cooking', story: 'A quick pasta recipe', mood: 'Cozy' };
+
+const track = (trackName: string): RecommendationResult => ({ trackName, mood: 'Cozy', musicDescription: 'warm jazz' });
+
+// Each attempt yields its tracks, then fails with its error if it has one
+interface Attempt {
+  tracks: string[];
+  error?: unknown;
+}
+
+const fakeProvider = (attempts: Attempt[]) => {
+  let calls = 0;
+  const provider: RecommendationProvider = {
+    id: 'mock',
+    label: 'Fake',
+    model: 'fake',
+    async *streamRecommendations() {
+      const { tracks, error } = attempts[Math.min(calls++, attempts.length - 1)];
+      for (const name of tracks) yield track(name);
+      if (error) throw error;
+    },
+  };
+  return { provider, calls: () => calls };
+};
+
+// Retries straight away, so the tests don't sit through the backoff
+const failure = (kind: ErrorKind) => new AppError(kind, { retryAfterMs: 0 });
+
+const collect = async (provider: RecommendationProvider, attempts?: number) => {
+  const names: string[] = [];
+  const retries: ErrorKind[] = [];
+  try {
+    for await (const result of streamWithRetry(provider, input, { attempts, onRetry: error => retries.push(error.kind) })) {
+      names.push(result.trackName);
+    }
+    return { names, retries, error: null };
+  } catch (error) {
+    return { names, retries, error: error as AppError };
+  }
+};
+
+describe('streamWithRetry', () => {
+  it('streams every track when nothing fails', async () => {
+    const { provider, calls } = fakeProvider([{ tracks: ['a', 'b'] }]);
+    expect(await collect(provider)).toEqual({ names: ['a', 'b'], retries: [], error: null });
+    expect(calls()).toBe(1);
+  });
+
+  it.each<ErrorKind>(['rate-limit', 'network', 'malformed-response'])('retries a %s failure before the first track', async (kind) => {
+    const { provider, calls } = fakeProvider([{ tracks: [], error: failure(kind) }, { tracks: ['a', 'b'] }]);
+    expect(await collect(provider)).toEqual({ names: ['a', 'b'], retries: [kind], error: null });
+    expect(calls()).toBe(2);
+  });
+
+  it.each<ErrorKind>(['invalid-key', 'safety', 'unknown'])('gives up on a %s failure straight away', async (kind) => {
+    const { provider, calls } = fakeProvider([{ tracks: [], error: failure(kind) }, { tracks: ['a'] }]);
+    const { names, retries, error } = await collect(provider);
+    expect({ names, retries, kind: error?.kind }).toEqual({ names: [], retries: [], kind });
+    expect(calls()).toBe(1);
+  });
+
+  it('does not retry once a track has been shown, so none is shown twice', async () => {
+    const { provider, calls } = fakeProvider([{ tracks: ['a'], error: failure('network') }, { tracks: ['a', 'b'] }]);
+    const { names, retries, error } = await collect(provider);
+    expect({ names, retries, kind: error?.kind }).toEqual({ names: ['a'], retries: [], kind: 'network' });
+    expect(calls()).toBe(1);
+  });
+
+  it('stops after the last attempt', async () => {
+    const { provider, calls } = fakeProvider([{ tracks: [], error: failure('rate-limit') }]);
+    const { retries, error } = await collect(provider, 3);
+    expect({ retries, kind: error?.kind }).toEqual({ retries: ['rate-limit', 'rate-limit'], kind: 'rate-limit' });
+    expect(calls()).toBe(3);
+  });
+
+  it('classifies raw errors from the provider', async () => {
+    const { provider } = fakeProvider([{ tracks: [], error: new SyntaxError('Unexpected end of JSON input') }, { tracks: ['a'] }]);
+    const { names, retries } = await collect(provider);
+    expect({ names, retries }).toEqual({ names: ['a'], retries: ['malformed-response'] });
+  });
+
+  it('passes cancellation through without retrying', async () => {
+    const { provider, calls } = fakeProvider([{ tracks: [], error: new DOMException('Aborted', 'AbortError') }]);
+    const { error } = await collect(provider);
+    expect(error).toBeInstanceOf(DOMException);
+    expect(calls()).toBe(1);
+  });
+});
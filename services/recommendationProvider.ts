@@ -0,0 +1,238 @@
+import type { MusicRecommendation, MusicAttributes, MusicMode, RhythmPattern, EffectName, GenerationInput, Refinement, TrackFeedback, VideoAnalysis, Scene, SceneAttributes, SceneTransition } from '../types';
+import { MOODS } from '../constants';
+import { parseNoteName } from '../utils/musicSpec';
+import { createJsonArrayStreamParser } from '../utils/jsonStream';
+import { classifyError, isAbortError, wait } from './errors';
+import type { AppError } from './errors';
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+/**
+ * A recommendation as it comes back from a provider, before the app assigns an ID,
+ * spec, seed or preview.
+ */
+export type RecommendationResult = Omit<MusicRecommendation, 'id' | 'spec' | 'seed'>;
+
+/**
+ * Form inputs suggested from an uploaded video.
+ */
+export type VideoDescription = Pick<GenerationInput, 'topic' | 'story' | 'mood'>;
+
+/**
+ * A backend that turns video details into music recommendations.
+ */
+export interface RecommendationProvider {
+  id: ProviderId;
+  /** Human-readable backend name, e.g. "Gemini". */
+  label: string;
+  /** The model the backend is asked to use. */
+  model: string;
+  /**
+   * Yields each recommendation as soon as the backend has produced it.
+   * Failures are thrown as `AppError`s; aborting the signal throws an `AbortError`.
+   */
+  streamRecommendations: (input: GenerationInput, signal?: AbortSignal) => AsyncGenerator<RecommendationResult>;
+  /**
+   * Suggests a topic, story and mood from the video's keyframes. Only backends that
+   * accept images implement it. Failures are thrown as `AppError`s.
+   */
+  describeVideo?: (analysis: VideoAnalysis, signal?: AbortSignal) => Promise<VideoDescription>;
+}
+
+export const RECOMMENDATION_COUNT = 20;
+
+const describeFeedback = (feedback: TrackFeedback): string => `- "${feedback.trackName}": ${feedback.musicDescription}`;
+
+// Tells the model what the user thought of the previous batch, so the new one builds on it
+const buildRefinementPrompt = ({ feedback, note }: Refinement): string => {
+  const liked = feedback.filter(item => item.verdict === 'more');
+  const disliked = feedback.filter(item => item.verdict === 'less');
+  const lines = ['This batch refines an earlier one, using the user\'s reactions to it.'];
+  if (liked.length > 0) {
+    lines.push(
+      'The user wants more like these tracks. Make every new track a recognizable variation on one of them, keeping its tempo range, instrumentation and feel, rather than a copy:',
+      ...liked.map(describeFeedback),
+    );
+  }
+  if (disliked.length > 0) {
+    lines.push(
+      'The user wants less like these tracks. Steer clear of their tempo, instrumentation and feel:',
+      ...disliked.map(describeFeedback),
+    );
+  }
+  if (note.trim()) {
+    lines.push(`The user's feedback on the batch, which takes priority: "${note.trim()}"`);
+  }
+  return lines.map(line => `    ${line}`).join('\n');
+};
+
+const formatSeconds = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+// Asks for one track identity that follows the video's scenes, changing feel at each one
+const buildScenesPrompt = (scenes: Scene[]): string => {
+  const lines = [
+    'The video moves through these scenes, and every track must follow them:',
+    ...scenes.map((scene, index) => `- Scene ${index + 1} from ${formatSeconds(scene.start)}, ${scene.mood}${scene.description.trim() ? `: ${scene.description.trim()}` : ''}`),
+    `For each track, also return a "scenes" list with exactly ${scenes.length} entries in the same order, each with its own bpm, key, mode, instruments, drumStyle, effects and energy suited to that scene.`,
+    'Keep the track recognizably one piece across scenes, e.g. the same lead instrument or a related key, and describe the whole journey in musicDescription.',
+    `Give each scene a transition into it: ${JSON.stringify(SCENE_TRANSITIONS)}. Use 'riser' to build into a big lift in energy, 'cut' for a sudden change, otherwise 'crossfade'.`,
+  ];
+  return lines.map(line => `    ${line}`).join('\n');
+};
+
+/**
+ * The instructions every provider sends; providers append their own output-format notes.
+ */
+export const buildPrompt = (input: GenerationInput): string => `
+    As an expert AI music prompt engineer, your task is to generate diverse and detailed prompts for creating background music for short-form videos.
+    Based on the following video details, generate a list of ${RECOMMENDATION_COUNT} unique and creative music track ideas.
+
+    Video Topic: ${input.topic}
+    Video Story/Content: ${input.story}
+    Desired Mood: ${input.mood}
+${input.scenes && input.scenes.length > 1 ? `\n${buildScenesPrompt(input.scenes)}\n` : ''}${input.refinement ? `\n${buildRefinementPrompt(input.refinement)}\n` : ''}
+    For each track, provide a creative name, a one-word mood label, and a highly detailed description for an AI music generator.
+    The description MUST be specific about the feeling and sound.
+    - For tempo, use descriptions like 'slow and dragging 70 bpm' or 'frantic 160 bpm'.
+    - For harmony, use 'dissonant chords', 'atonal pads', 'sad minor key', 'hopeful major key', 'jazzy dorian mode', 'dark phrygian mode'.
+    - For instrumentation, be varied. Suggest things like 'detuned piano', 'glockenspiel', 'music box', 'heavy synth bass', 'distorted electric guitar', 'string section', 'haunting choir'.
+    - For rhythm, specify 'no drums', 'a simple heartbeat kick drum', 'steady rock beat', 'four-on-the-floor dance beat', 'breakbeat', 'trap beat with hi-hat rolls', 'complex electronic beat', or 'tribal percussion', optionally with 'swing'.
+    - For effects, mention things like 'heavy hall reverb', 'short room reverb', 'subtle dotted-eighth delay', 'wavering tape-wobble pitch', 'muffled underwater filter', 'bitcrushed lo-fi texture', 'gritty saturation', or 'sidechain pumping'.
+
+    Also fill in the structured fields (bpm, key, mode, instruments, drumStyle, effects, energy) so they agree exactly with the description.
+
+    Example for a 'creepy' mood: 'A very slow, dragging 60 bpm tempo in a dissonant, atonal scale. Features a simple, repetitive melody from a detuned music box with heavy reverb and delay. Accompanied by low, rumbling bass synth drones and occasional, sparse, discordant piano chords. No drums are present, creating a tense, empty atmosphere.'
+
+    Return the list in the specified JSON format.
+  `;
+
+export const MODES: MusicMode[] = ["major", "minor", "dorian", "phrygian", "dissonant", "pentatonic"];
+export const DRUM_STYLES: (RhythmPattern | 'none')[] = ["none", "standard", "heartbeat", "four-on-the-floor", "breakbeat", "trap", "electronic", "tribal"];
+export const EFFECTS: EffectName[] = ["reverb", "delay", "detune", "wobble", "filter", "bitcrush", "distortion", "pump"];
+export const SCENE_TRANSITIONS: SceneTransition[] = ["crossfade", "riser", "cut"];
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const clampInteger = (value: unknown, min: number, max: number): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : undefined;
+
+// Keeps only the structured fields that are present and well-formed; the rest fall back to text parsing.
+const validateAttributes = (raw: Record<string, unknown>): MusicAttributes => {
+  const attributes: MusicAttributes = {};
+  const bpm = clampInteger(raw.bpm, 40, 220);
+  if (bpm !== undefined) attributes.bpm = bpm;
+  const energy = clampInteger(raw.energy, 1, 10);
+  if (energy !== undefined) attributes.energy = energy;
+  if (typeof raw.key === 'string') {
+    const key = parseNoteName(raw.key);
+    if (key) attributes.key = key;
+  }
+  if (MODES.includes(raw.mode as MusicMode)) attributes.mode = raw.mode as MusicMode;
+  if (DRUM_STYLES.includes(raw.drumStyle as RhythmPattern | 'none')) attributes.drumStyle = raw.drumStyle as RhythmPattern | 'none';
+  if (Array.isArray(raw.instruments)) {
+    attributes.instruments = raw.instruments.filter(isNonEmptyString).map(instrument => instrument.trim());
+  }
+  if (Array.isArray(raw.effects)) {
+    attributes.effects = raw.effects.filter((effect): effect is EffectName => EFFECTS.includes(effect));
+  }
+  return attributes;
+};
+
+// A malformed scene still keeps its place, so later scenes line up with their start times
+const validateSceneAttributes = (raw: unknown): SceneAttributes => {
+  if (typeof raw !== 'object' || raw === null) return {};
+  const entry = raw as Record<string, unknown>;
+  const attributes: SceneAttributes = validateAttributes(entry);
+  if (SCENE_TRANSITIONS.includes(entry.transition as SceneTransition)) attributes.transition = entry.transition as SceneTransition;
+  return attributes;
+};
+
+/**
+ * Checks one parsed recommendation at runtime.
+ * @returns The cleaned-up recommendation, or null if it lacks a name, mood or description.
+ */
+export const validateRecommendation = (raw: unknown): RecommendationResult | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const entry = raw as Record<string, unknown>;
+  if (!isNonEmptyString(entry.trackName) || !isNonEmptyString(entry.mood) || !isNonEmptyString(entry.musicDescription)) {
+    return null;
+  }
+  const recommendation: RecommendationResult = {
+    trackName: entry.trackName,
+    mood: entry.mood,
+    musicDescription: entry.musicDescription,
+    attributes: validateAttributes(entry),
+  };
+  if (Array.isArray(entry.scenes)) {
+    recommendation.sceneAttributes = entry.scenes.map(validateSceneAttributes);
+  }
+  return recommendation;
+};
+
+/**
+ * Checks a video description from a model at runtime.
+ * @returns The description with its mood matched to one of the app's moods, or null if a
+ * field is missing or the mood isn't one the app offers.
+ */
+export const validateVideoDescription = (raw: unknown): VideoDescription | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const entry = raw as Record<string, unknown>;
+  if (!isNonEmptyString(entry.topic) || !isNonEmptyString(entry.story) || typeof entry.mood !== 'string') return null;
+  const mood = MOODS.find(option => option.toLowerCase() === (entry.mood as string).trim().toLowerCase());
+  return mood ? { topic: entry.topic.trim(), story: entry.story.trim(), mood } : null;
+};
+
+/**
+ * Turns streamed model text into validated recommendations, yielding each one as soon as
+ * its JSON object is complete. Invalid entries are skipped rather than failing the batch.
+ * @param chunks The response text as it arrives.
+ */
+export async function* streamJsonRecommendations(chunks: AsyncIterable<string>): AsyncGenerator<RecommendationResult> {
+  const parser = createJsonArrayStreamParser();
+  for await (const chunk of chunks) {
+    for (const item of parser.push(chunk)) {
+      const recommendation = validateRecommendation(item);
+      if (recommendation) yield recommendation;
+    }
+  }
+  parser.finish();
+}
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  /** Total attempts, including the first. */
+  attempts?: number;
+  /** Called before each retry with the error that caused it and the wait in milliseconds. */
+  onRetry?: (error: AppError, delayMs: number) => void;
+}
+
+const RETRY_BASE_DELAY = 1000;
+
+/**
+ * Streams recommendations, retrying transient failures with exponential backoff.
+ * Only a stream that fails before its first result is retried, so no track is shown twice.
+ */
+export async function* streamWithRetry(
+  provider: RecommendationProvider,
+  input: GenerationInput,
+  { signal, attempts = 3, onRetry }: RetryOptions = {},
+): AsyncGenerator<RecommendationResult> {
+  for (let attempt = 1; ; attempt++) {
+    let yielded = false;
+    try {
+      for await (const recommendation of provider.streamRecommendations(input, signal)) {
+        yielded = true;
+        yield recommendation;
+      }
+      return;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const appError = classifyError(error);
+      if (yielded || !appError.isRetryable || attempt >= attempts) throw appError;
+      const delayMs = appError.retryAfterMs ?? RETRY_BASE_DELAY * 2 ** (attempt - 1);
+      onRetry?.(appError, delayMs);
+      await wait(delayMs, signal);
+    }
+  }
+}
@@ -1,7 +1,351 @@
+export type NoteName = 'C' | 'C#' | 'D' | 'D#' | 'E' | 'F' | 'F#' | 'G' | 'G#' | 'A' | 'A#' | 'B';
+
+export type MusicMode = 'major' | 'minor' | 'dorian' | 'phrygian' | 'dissonant' | 'pentatonic';
+
+export type RhythmPattern =
+  | 'standard'
+  | 'heartbeat'
+  | 'four-on-the-floor'
+  | 'breakbeat'
+  | 'trap'
+  | 'electronic'
+  | 'tribal';
+
+export type HarmonyInstrument = 'pad' | 'strings' | 'choir' | 'synth' | 'piano' | 'distorted-guitar';
+
+export type BassInstrument = 'synth' | 'drone';
+
+export type MelodyInstrument = 'lead' | 'piano' | 'bell' | 'music-box' | 'glockenspiel' | 'pluck' | 'guitar';
+
+/**
+ * Which instrument plays each layer of the arrangement; `null` means the layer is silent.
+ */
+export interface InstrumentLayers {
+  drums: RhythmPattern | null;
+  harmony: HarmonyInstrument | null;
+  bass: BassInstrument | null;
+  melody: MelodyInstrument | null;
+}
+
+export type LayerName = keyof InstrumentLayers;
+
+/** A part of the mix that can be exported, muted or soloed on its own; 'effects' is the reverb and delay returns. */
+export type StemName = LayerName | 'effects';
+
+/**
+ * Which stems of a track's preview are muted or soloed. While any are soloed, only those play.
+ */
+export interface StemMix {
+  muted: StemName[];
+  soloed: StemName[];
+}
+
+export type ReverbType = 'room' | 'hall' | 'plate';
+
+export interface ReverbSettings {
+  type: ReverbType;
+  /** Seconds for the tail to die away by 60 dB. */
+  decay: number;
+  /** Balance from 0 (dry) to 1 (all reverb). */
+  mix: number;
+}
+
+export interface DelaySettings {
+  /** Spacing of the echoes in beats, so they stay locked to the tempo; 0.75 is a dotted eighth. */
+  beats: number;
+  /** Share of each echo fed into the next, from 0 to below 1. */
+  feedback: number;
+  /** Level of the echoes from 0 to 1, on top of the dry signal. */
+  mix: number;
+}
+
+export interface WobbleSettings {
+  /** LFO speed in Hz. */
+  rate: number;
+  /** Largest pitch deviation in cents. */
+  depth: number;
+}
+
+export interface FilterSettings {
+  type: 'lowpass' | 'highpass';
+  /** Cutoff in Hz. */
+  cutoff: number;
+  /** Whether the cutoff sweeps slowly up and down over four bars. */
+  sweep: boolean;
+}
+
+export interface BitcrushSettings {
+  bits: number;
+  /** Holds each sample for this many, lowering the effective sample rate. */
+  downsample: number;
+}
+
+export interface DistortionSettings {
+  /** Waveshaper drive: around 2 is warm saturation, 12 and up is heavy clipping. */
+  drive: number;
+}
+
+export interface PumpSettings {
+  /** How far the mix ducks on every beat, from 0 to 1. */
+  depth: number;
+}
+
+/**
+ * The effects applied to the mix; `null` means the effect is off.
+ */
+export interface EffectsSpec {
+  reverb: ReverbSettings | null;
+  delay: DelaySettings | null;
+  /** Tunes the melody slightly flat of the harmony. */
+  detune: boolean;
+  wobble: WobbleSettings | null;
+  filter: FilterSettings | null;
+  bitcrush: BitcrushSettings | null;
+  distortion: DistortionSettings | null;
+  pump: PumpSettings | null;
+}
+
+export type EffectName = keyof EffectsSpec;
+
+/**
+ * How the music gets from one scene into the next: blending over a couple of beats,
+ * building up with a noise riser into the change, or switching right on the cut.
+ */
+export type SceneTransition = 'crossfade' | 'riser' | 'cut';
+
+/**
+ * How one scene of a multi-scene track sounds. Key and tempo may change between scenes.
+ */
+export interface SceneSpec extends Pick<MusicSpec, 'bpm' | 'root' | 'mode' | 'energy' | 'layers' | 'effects'> {
+  /** Seconds into the track where the scene starts. */
+  start: number;
+  /** How the music changes into this scene; ignored for the first. */
+  transition: SceneTransition;
+}
+
+/**
+ * Machine-readable description of a track, used to drive the audio synthesizer.
+ */
+export interface MusicSpec {
+  bpm: number;
+  root: NoteName;
+  mode: MusicMode;
+  /** Overall intensity from 1 (calm) to 10 (intense). */
+  energy: number;
+  /**
+   * How far off-beat sixteenths are pushed late, from 0 (straight) to 1 (a full triplet
+   * shuffle). Absent in specs saved before swing existed, which play straight.
+   */
+  swing?: number;
+  layers: InstrumentLayers;
+  effects: EffectsSpec;
+  /** Terms the description explicitly excluded, e.g. "drums" for "no drums". */
+  negations: string[];
+  /** Preferred export length in seconds, set by editing the track; absent uses the export default. */
+  length?: number;
+  /**
+   * Set for tracks that follow a multi-scene video. Each scene replaces the tempo, key,
+   * mode, energy, layers and effects above from its start time.
+   */
+  scenes?: SceneSpec[];
+}
+
+/**
+ * Structured fields returned by the model alongside the prose description.
+ * Each field is optional because entries that fail validation are dropped.
+ */
+export interface MusicAttributes {
+  bpm?: number;
+  key?: NoteName;
+  mode?: MusicMode;
+  instruments?: string[];
+  drumStyle?: RhythmPattern | 'none';
+  effects?: EffectName[];
+  energy?: number;
+}
+
+/**
+ * Structured fields for one scene of a multi-scene track.
+ */
+export interface SceneAttributes extends MusicAttributes {
+  transition?: SceneTransition;
+}
+
 export interface MusicRecommendation {
   id: string;
   trackName: string;
   mood: string;
   musicDescription: string;
-  previewUrl?: string;
+  attributes?: MusicAttributes;
+  /** Per-scene fields, in scene order, for a multi-scene generation. */
+  sceneAttributes?: SceneAttributes[];
+  spec?: MusicSpec;
+  /** Render seed; the same description and seed always produce identical audio. */
+  seed: number;
+}
+
+/**
+ * A still from an uploaded video, as a JPEG data URL.
+ */
+export interface Keyframe {
+  /** Seconds into the video; for a set of stills, the still's position in the set. */
+  time: number;
+  dataUrl: string;
+}
+
+/**
+ * What local analysis found in an uploaded video or set of stills.
+ */
+export interface VideoAnalysis {
+  name: string;
+  /** Length in seconds; null for a set of stills. */
+  duration: number | null;
+  /** Times in seconds where the picture changes abruptly. */
+  sceneCuts: number[];
+  keyframes: Keyframe[];
+}
+
+/**
+ * A stretch of a voiceover where someone is speaking, in seconds.
+ */
+export interface SpeechRegion {
+  start: number;
+  end: number;
+}
+
+/**
+ * What local analysis found in an uploaded or recorded voiceover.
+ */
+export interface VoiceoverAnalysis {
+  name: string;
+  /** Length in seconds. */
+  duration: number;
+  regions: SpeechRegion[];
+}
+
+/**
+ * How the music makes room for a voiceover while it speaks.
+ */
+export interface DuckingSettings {
+  /** How far the music dips under speech, in dB. */
+  depth: number;
+  /** Also cuts the music's 1–4 kHz band under speech, where voices need the most room. */
+  carve: boolean;
+}
+
+export type FeedbackVerdict = 'more' | 'less';
+
+/**
+ * A track from an earlier batch the user wants more or less like.
+ */
+export interface TrackFeedback {
+  trackName: string;
+  musicDescription: string;
+  attributes?: MusicAttributes;
+  verdict: FeedbackVerdict;
+}
+
+/**
+ * Steers a new batch toward tracks the user liked and away from ones they didn't.
+ */
+export interface Refinement {
+  feedback: TrackFeedback[];
+  /** Free-text direction, e.g. "less cheesy, more lo-fi"; empty when only tracks were marked. */
+  note: string;
+}
+
+/**
+ * One stretch of the video with its own feel, as the creator describes it.
+ */
+export interface Scene {
+  /** Seconds into the video. */
+  start: number;
+  description: string;
+  mood: string;
+}
+
+/**
+ * The form inputs a batch of recommendations was generated from.
+ */
+export interface GenerationInput {
+  topic: string;
+  story: string;
+  mood: string;
+  /** Present when the batch refines an earlier one. */
+  refinement?: Refinement;
+  /** Present when the video was split into scenes; topic, story and mood still describe it as a whole. */
+  scenes?: Scene[];
+}
+
+/**
+ * A bookmarked track saved to the local library. Audio is re-rendered from the
+ * spec and seed on demand, so no blob URL is stored.
+ */
+export interface LibraryEntry extends MusicRecommendation {
+  source: GenerationInput;
+  tags: string[];
+  savedAt: number;
+}
+
+/**
+ * One run of the generator: what was asked, which model answered, and what came back.
+ */
+export interface GenerationSession {
+  id: string;
+  input: GenerationInput;
+  model: string;
+  createdAt: number;
+  tracks: MusicRecommendation[];
+}
+
+/**
+ * Loudness of a mastered render, measured per ITU-R BS.1770.
+ */
+export interface LoudnessReport {
+  /** Integrated loudness of the mix before mastering, in LUFS. */
+  sourceLufs: number;
+  /** Integrated loudness after mastering, in LUFS. */
+  integratedLufs: number;
+  /** Highest inter-sample peak after mastering, in dBTP. */
+  truePeak: number;
+  /** Gain applied to reach the target before limiting, in dB. */
+  gain: number;
+}
+
+/**
+ * A named point in a rendered track, where a section or scene begins.
+ */
+export interface CueMarker {
+  /** Seconds from the start of the track. */
+  time: number;
+  label: string;
+  kind: 'section' | 'scene';
+}
+
+/**
+ * Where the beats, bars and sections of a rendered track fall, for snapping cuts to the music.
+ */
+export interface BeatMap {
+  duration: number;
+  beatsPerBar: number;
+  /** The tempo from each time on; multi-scene tracks change tempo at their scenes. */
+  tempos: { time: number; bpm: number }[];
+  /** Times of every beat in seconds. */
+  beats: number[];
+  /** Times of every bar's downbeat in seconds. */
+  bars: number[];
+  markers: CueMarker[];
+}
+
+/** A loudness normalization preset for where the music will be played. */
+export interface LoudnessTarget {
+  label: string;
+  lufs: number;
 }
+
+/** Where a track's audio preview is in its lifecycle; absent until rendering is requested. */
+export type PreviewState =
+  | { status: 'queued' }
+  | { status: 'rendering' }
+  | { status: 'ready'; url: string; loudness: LoudnessReport; peaks: number[] }
+  | { status: 'error' };
@@ -1,283 +1,336 @@
+import type { MusicSpec, HarmonyInstrument, BassInstrument, MelodyInstrument, LoudnessReport, BeatMap, LayerName, StemName } from '../types';
+import { LOUDNESS_TARGETS } from '../constants';
+import { forkRandom } from './random';
+import { createInstrument, createDrumKit, HARMONY_VOICES, BASS_VOICES, MELODY_VOICES } from './instruments';
+import { composeTrack, midiToFrequency } from './composition';
+import { composeRhythm } from './rhythm';
+import { createEffectsRack, applyBitcrush, MELODY_DETUNE_CENTS } from './effects';
+import type { MixDynamics } from './mastering';
+import { localProcessor } from './audioProcessor';
+import type { AudioProcessor } from './audioProcessor';
+import { hasScenes, planScenes, mixScenes, addRiser, riserLength } from './scenes';
+import { createBeatMap } from './beatMap';
+
+export const PREVIEW_DURATION = 10; // seconds
+
+// Extra render time after the last note so reverb and delay can ring out.
+const TAIL_DURATION = 2;
+
+export interface RenderOptions {
+  /** Length of the music in seconds. */
+  duration: number;
+  /** Seconds of fade-in at the start; ignored for loops. */
+  fadeIn?: number;
+  /** Seconds of fade-out at the end; ignored for loops. */
+  fadeOut?: number;
+  /**
+   * Snaps the length to whole bars and folds the effects tail back onto the start,
+   * so the file repeats without a gap or click. Ignored for multi-scene tracks.
+   */
+  loop?: boolean;
+  /** Output sample rate in Hz; defaults to 44.1 kHz. */
+  sampleRate?: number;
+  /** Integrated loudness to master to, in LUFS; defaults to the first loudness preset. */
+  loudnessTarget?: number;
+  /**
+   * Cancels the render. An offline render can't be interrupted once started, so this
+   * takes effect before it begins or as soon as it finishes.
+   */
+  signal?: AbortSignal;
+  /** Where compression and mastering run after synthesis; defaults to the calling thread. */
+  processor?: AudioProcessor;
+}
+
+export interface RenderedTrack {
+  buffer: AudioBuffer;
+  loudness: LoudnessReport;
+  /** Where the render's beats, bars, sections and scenes fall. */
+  beatMap: BeatMap;
+}
+
+export interface RenderedStems {
+  mix: RenderedTrack;
+  /** Each requested part, aligned with the mix and at the level it has in it. */
+  parts: AudioBuffer[];
+}
+
+// Which parts of the mix a render plays: the instrument layers, and the straight and
+// reverb/delay sides of the effects
+interface MixSelection {
+  layers: LayerName[];
+  dry: boolean;
+  wet: boolean;
+}
+
+const LAYER_NAMES: LayerName[] = ['drums', 'harmony', 'bass', 'melody'];
+const FULL_MIX: MixSelection = { layers: LAYER_NAMES, dry: true, wet: true };
+
+// Gain changes a full section was given, so its parts can be rendered to match
+interface SectionDynamics {
+  compression: Float32Array;
+  mastering: MixDynamics;
+}
+
+// The same for a multi-scene track: each scene's own, then the whole track's mastering
+interface SceneDynamics {
+  scenes: SectionDynamics[];
+  mastering: MixDynamics;
+}
+
+// The effects returns on their own carry every layer's reverb and delay; alongside
+// layers, only those layers' returns
+const selectStems = (stems: StemName[]): MixSelection => {
+  const layers = LAYER_NAMES.filter(layer => stems.includes(layer));
+  const wet = stems.includes('effects');
+  return wet && layers.length === 0 ? { layers: LAYER_NAMES, dry: false, wet } : { layers, dry: true, wet };
+};
+
 /**
- * Generates a complex, multi-layered audio preview based on a text description.
- * This function is now a dynamic synthesizer that parses the description to decide
- * which instruments, scales, and effects to use.
- * @param description The detailed text description of the music from the AI.
- * @returns A promise that resolves to a Blob URL for the generated audio.
+ * Length in seconds a render will actually have: loops are rounded to whole bars.
  */
-export const generateAudioPreview = (description: string): Promise<string> => {
-  return new Promise((resolve) => {
-    const duration = 10; // 10 seconds
-    const sampleRate = 44100;
-    const context = new OfflineAudioContext(2, sampleRate * duration, sampleRate);
+export const resolveRenderDuration = (spec: MusicSpec, options: RenderOptions): number => {
+  if (!options.loop || hasScenes(spec)) return options.duration;
+  const barDuration = (60 / spec.bpm) * 4;
+  return Math.max(1, Math.round(options.duration / barDuration)) * barDuration;
+};
+
+// Renders one stretch of music with a single tempo, key and sound. Given the dynamics of
+// the full mix, it's a part of that mix and gets the same compression and mastering gains.
+const renderSection = (spec: MusicSpec, seed: number, options: RenderOptions, selection = FULL_MIX, mixDynamics?: SectionDynamics): Promise<RenderedTrack & { dynamics: SectionDynamics }> => {
+  return new Promise((resolve, reject) => {
+    options.signal?.throwIfAborted();
+    const duration = resolveRenderDuration(spec, options);
+    const sampleRate = options.sampleRate ?? 44100;
+    const renderLength = Math.ceil(sampleRate * (duration + (options.loop ? TAIL_DURATION : 0)));
+    const context = new OfflineAudioContext(2, renderLength, sampleRate);
     const masterGain = context.createGain();
     masterGain.gain.value = 0.5;
 
     // --- Effects Chain ---
-    const delay = context.createDelay(1.0);
-    const feedback = context.createGain();
-    feedback.gain.value = 0.4;
-    const reverb = context.createConvolver();
-    // Simple impulse response for reverb
-    const impulse = context.createBuffer(2, 2 * sampleRate, sampleRate);
-    for (let i = 0; i < 2; i++) {
-        const chan = impulse.getChannelData(i);
-        for (let j = 0; j < 2 * sampleRate; j++) {
-            chan[j] = (Math.random() * 2 - 1) * Math.pow(1 - j / (2 * sampleRate), 2);
-        }
-    }
-    reverb.buffer = impulse;
-
-    // Connect master gain to destination, potentially through effects
-    masterGain.connect(context.destination);
-
-    // --- Parameter Extraction from Description ---
-    const lowerDesc = description.toLowerCase();
-    
-    // Connect effects if specified
-    if (lowerDesc.includes('reverb')) {
-      const reverbGain = context.createGain();
-      reverbGain.gain.value = 0.6;
-      masterGain.connect(reverb).connect(reverbGain).connect(context.destination);
-    }
-    if (lowerDesc.includes('delay')) {
-      const delayGain = context.createGain();
-      delayGain.gain.value = 0.5;
-      masterGain.connect(delay);
-      delay.connect(feedback).connect(delay);
-      delay.connect(delayGain).connect(context.destination);
-    }
-
-    // Determine Tempo
-    let bpm = 120;
-    const bpmMatch = lowerDesc.match(/(\d+)\s*bpm/);
-    if (bpmMatch) {
-        bpm = parseInt(bpmMatch[1], 10);
-    } else {
-        if (lowerDesc.includes('slow')) bpm = 80;
-        if (lowerDesc.includes('fast') || lowerDesc.includes('upbeat')) bpm = 140;
-    }
-    const beatDuration = 60 / bpm;
-
-    // Determine Scale
-    let scale = [0, 2, 4, 5, 7, 9, 11]; // Major default
-    if (lowerDesc.includes('minor')) scale = [0, 2, 3, 5, 7, 8, 10];
-    if (lowerDesc.includes('dissonant') || lowerDesc.includes('atonal')) scale = [0, 1, 4, 5, 8, 9]; // Dissonant scale
-    if (lowerDesc.includes('pentatonic')) scale = [0, 2, 4, 7, 9];
+    const { layers, effects } = spec;
+    masterGain.connect(createEffectsRack(context, context.destination, effects, {
+      bpm: spec.bpm,
+      random: forkRandom(seed, 'reverb'),
+      length: renderLength / sampleRate,
+      dry: selection.dry,
+      wet: selection.wet,
+    }));
 
-    // Chord Progression (I-V-vi-IV in major, i-VI-III-VII in minor)
-    const isMinor = lowerDesc.includes('minor');
-    const chordProgression = isMinor ? [[0,3,7], [8,0,3], [3,7,10], [10,2,5]] : [[0,4,7], [7,11,2], [9,0,4], [5,9,0]];
-    const baseFreq = 220; // A3
+    // Chords, bass line and melody are all worked out up front; this function only voices them
+    const composition = composeTrack(spec, seed, duration);
 
     // --- Dynamic Instrument Synthesis ---
 
     // 1. Percussion Layer
     const createDrums = () => {
       const gain = context.createGain();
-      gain.gain.value = 0.8;
+      gain.gain.value = 0.5 + spec.energy * 0.06;
       gain.connect(masterGain);
+      const kit = createDrumKit({ context, output: gain, random: forkRandom(seed, 'drums') });
 
-      for (let i = 0; i < duration / beatDuration; i++) {
-        const time = i * beatDuration;
-        
-        // Kick
-        if (i % 2 === 0 || lowerDesc.includes('heartbeat')) {
-            const kickEnv = context.createGain();
-            kickEnv.connect(gain);
-            const kickOsc = context.createOscillator();
-            kickOsc.frequency.setValueAtTime(150, time);
-            kickOsc.frequency.exponentialRampToValueAtTime(0.01, time + 0.1);
-            kickEnv.gain.setValueAtTime(1, time);
-            kickEnv.gain.exponentialRampToValueAtTime(0.01, time + 0.1);
-            kickOsc.connect(kickEnv);
-            kickOsc.start(time);
-            kickOsc.stop(time + 0.15);
-        }
-
-        // Snare (don't play if it's just a heartbeat)
-        if (i % 2 !== 0 && !lowerDesc.includes('heartbeat')) {
-            const snareEnv = context.createGain();
-            snareEnv.connect(gain);
-            const noise = context.createBufferSource();
-            const buffer = context.createBuffer(1, sampleRate * 0.2, sampleRate);
-            buffer.getChannelData(0).forEach((_, j, arr) => arr[j] = Math.random() * 2 - 1);
-            noise.buffer = buffer;
-            const noiseFilter = context.createBiquadFilter();
-            noiseFilter.type = 'highpass';
-            noiseFilter.frequency.value = 1500;
-            noise.connect(noiseFilter).connect(snareEnv);
-            snareEnv.gain.setValueAtTime(0.8, time);
-            snareEnv.gain.exponentialRampToValueAtTime(0.01, time + 0.15);
-            noise.start(time);
-            noise.stop(time + 0.15);
-        }
-      }
+      composeRhythm(spec, seed, composition, duration).forEach(hit => {
+        kit.play(hit.sound, hit.time, hit.velocity);
+      });
     };
 
     // 2. Harmony Layer (Pads, Strings, Chords)
-    const createHarmony = () => {
+    const createHarmony = (instrumentName: HarmonyInstrument) => {
         const gain = context.createGain();
         gain.gain.value = 0.4;
-        const filter = context.createBiquadFilter();
-        filter.type = 'lowpass';
-        filter.frequency.value = 800;
-        gain.connect(filter).connect(masterGain);
-
-        let oscType: OscillatorType = 'sawtooth';
-        if (lowerDesc.includes('choir') || lowerDesc.includes('soft')) oscType = 'sine';
-        if (lowerDesc.includes('synth')) oscType = 'square';
+        gain.connect(masterGain);
+        const instrument = createInstrument(HARMONY_VOICES[instrumentName], {
+            context,
+            output: gain,
+            random: forkRandom(seed, 'harmony'),
+        });
 
-        chordProgression.forEach((chord, i) => {
-            const time = i * beatDuration * 4;
-            chord.forEach(noteOffset => {
-                // Create a richer sound with detuned oscillators for strings/pads
-                const detuneAmount = lowerDesc.includes('string') ? 5 : 0;
-                [-detuneAmount, 0, detuneAmount].forEach(detune => {
-                    if (detune === 0 && detuneAmount !== 0) return; // create 2 detuned, not 3
-                    const osc = context.createOscillator();
-                    osc.type = oscType;
-                    osc.detune.value = detune;
-                    const freq = baseFreq * Math.pow(2, (noteOffset + scale[0]) / 12);
-                    osc.frequency.setValueAtTime(freq, time);
-                    osc.connect(gain);
-                    osc.start(time);
-                    osc.stop(time + beatDuration * 4);
-                });
+        composition.chords.forEach(chord => {
+            // A distorted guitar plays power chords: root and fifth only
+            const notes = instrumentName === 'distorted-guitar' ? [chord.root + 12, chord.root + 19] : chord.voicing;
+            notes.forEach(pitch => {
+                instrument.play(midiToFrequency(pitch), chord.time, chord.duration, 0.8);
             });
         });
     };
     
     // 3. Bass Layer
-    const createBass = () => {
+    const createBass = (instrumentName: BassInstrument) => {
         const gain = context.createGain();
         gain.gain.value = 0.7;
-        const filter = context.createBiquadFilter();
-        filter.type = 'lowpass';
-        filter.frequency.value = 400;
-        gain.connect(filter).connect(masterGain);
-
-        let oscType: OscillatorType = 'square';
-        if (lowerDesc.includes('rumble') || lowerDesc.includes('drone')) oscType = 'sine';
+        gain.connect(masterGain);
+        const instrument = createInstrument(BASS_VOICES[instrumentName], {
+            context,
+            output: gain,
+            random: forkRandom(seed, 'bass'),
+        });
 
-        chordProgression.forEach((chord, i) => {
-            const time = i * beatDuration * 4;
-            const rootNote = chord[0];
-            const freq = (baseFreq / 2) * Math.pow(2, (rootNote + scale[0]) / 12);
-            const osc = context.createOscillator();
-            osc.type = oscType;
-            osc.frequency.setValueAtTime(freq, time);
-            osc.connect(gain);
-            osc.start(time);
-            osc.stop(time + beatDuration * 4);
+        // A drone holds each chord's root rather than following the bass line's rhythm
+        const notes = instrumentName === 'drone'
+            ? composition.chords.map(chord => ({ time: chord.time, duration: chord.duration, pitch: chord.root, velocity: 1 }))
+            : composition.bass;
+        notes.forEach(note => {
+            instrument.play(midiToFrequency(note.pitch), note.time, note.duration, note.velocity);
         });
     };
 
     // 4. Melody Layer
-    const createMelody = () => {
+    const createMelody = (instrumentName: MelodyInstrument) => {
         const gain = context.createGain();
         gain.gain.value = 0.6;
         gain.connect(masterGain);
+        const instrument = createInstrument(MELODY_VOICES[instrumentName], {
+            context,
+            output: gain,
+            random: forkRandom(seed, 'melody-voice'),
+            detune: effects.detune ? MELODY_DETUNE_CENTS : 0,
+        });
 
-        let oscType: OscillatorType = 'triangle';
-        if (lowerDesc.includes('bell') || lowerDesc.includes('music box') || lowerDesc.includes('glockenspiel')) oscType = 'sine';
-        if (lowerDesc.includes('piano')) oscType = 'sine'; // Approximated with envelope
-        
-        for (let i = 0; i < duration / (beatDuration / 2); i++) {
-            const time = i * (beatDuration / 2);
-            const chordIndex = Math.floor(i / 8);
-            const currentChord = chordProgression[chordIndex % chordProgression.length];
-            
-            if (Math.random() > 0.3) {
-                const noteIndex = Math.floor(Math.random() * scale.length);
-                const note = scale[noteIndex] + 12; // One octave higher
-                const freq = baseFreq * Math.pow(2, note / 12);
-
-                const osc = context.createOscillator();
-                osc.type = oscType;
-                if (lowerDesc.includes('detuned')) osc.detune.value = -25;
-                osc.frequency.setValueAtTime(freq, time);
-
-                const env = context.createGain();
-                env.connect(gain);
-                osc.connect(env);
-                
-                let attack = 0.05;
-                let decayTime = time + beatDuration / 2;
-                if (lowerDesc.includes('piano') || lowerDesc.includes('bell')) {
-                    attack = 0.01;
-                    decayTime = time + beatDuration * 2; // Longer decay
-                }
-
-                env.gain.setValueAtTime(0, time);
-                env.gain.linearRampToValueAtTime(1, time + attack);
-                env.gain.exponentialRampToValueAtTime(0.001, decayTime);
-
-                osc.start(time);
-                osc.stop(decayTime);
-            }
-        }
+        composition.melody.forEach(note => {
+            instrument.play(midiToFrequency(note.pitch), note.time, note.duration, note.velocity);
+        });
     };
 
-    // --- Build Audio Based on Description ---
-    if (lowerDesc.includes('drum') || lowerDesc.includes('beat') || lowerDesc.includes('percussion') || lowerDesc.includes('heartbeat')) {
+    // --- Build Audio Based on Spec ---
+    const isSelected = (layer: LayerName) => selection.layers.includes(layer);
+    if (layers.drums && isSelected('drums')) {
       createDrums();
     }
-    if (lowerDesc.includes('pad') || lowerDesc.includes('string') || lowerDesc.includes('choir') || lowerDesc.includes('chord')) {
-      createHarmony();
+    if (layers.harmony && isSelected('harmony')) {
+      createHarmony(layers.harmony);
     }
-    if (lowerDesc.includes('bass') || lowerDesc.includes('drone') || lowerDesc.includes('rumble')) {
-      createBass();
+    if (layers.bass && isSelected('bass')) {
+      createBass(layers.bass);
     }
-    if (lowerDesc.includes('melody') || lowerDesc.includes('piano') || lowerDesc.includes('bell') || lowerDesc.includes('music box') || lowerDesc.includes('glockenspiel')) {
-      createMelody();
+    if (layers.melody && isSelected('melody')) {
+      createMelody(layers.melody);
     }
 
-    context.startRendering().then((renderedBuffer) => {
-      const wav = bufferToWav(renderedBuffer);
-      const blob = new Blob([wav], { type: 'audio/wav' });
-      resolve(URL.createObjectURL(blob));
-    });
+    context.startRendering().then(async (renderedBuffer) => {
+      options.signal?.throwIfAborted();
+      // Compressed here rather than in the graph, so every part can follow the mix's compressor
+      const processor = options.processor ?? localProcessor;
+      const compression = await processor.compress(renderedBuffer, mixDynamics?.compression);
+      if (effects.bitcrush) applyBitcrush(renderedBuffer, effects.bitcrush);
+      let buffer = renderedBuffer;
+      if (options.loop) {
+        buffer = foldLoopTail(renderedBuffer, Math.round(duration * sampleRate));
+      } else {
+        applyFades(renderedBuffer, options.fadeIn ?? 0, options.fadeOut ?? 0);
+      }
+      const { loudness, dynamics } = await processor.master(buffer, mixDynamics?.mastering ?? options.loudnessTarget ?? LOUDNESS_TARGETS[0].lufs);
+      resolve({ buffer, loudness, beatMap: createBeatMap(spec, duration), dynamics: { compression, mastering: dynamics } });
+    }).catch(reject);
   });
 };
 
-// Helper function to convert an AudioBuffer to a WAV file (Blob)
-function bufferToWav(buffer: AudioBuffer): ArrayBuffer {
-  const numOfChan = buffer.numberOfChannels;
-  const length = buffer.length * numOfChan * 2 + 44;
-  const bufferOut = new ArrayBuffer(length);
-  const view = new DataView(bufferOut);
-  let offset = 0;
+// Renders each scene as its own section, then joins them with their transitions and
+// masters the whole track again so the joins don't change its loudness. Risers count as
+// effects, so they come with the reverb and delay returns.
+const renderScenes = async (spec: MusicSpec, seed: number, options: RenderOptions, selection = FULL_MIX, mixDynamics?: SceneDynamics): Promise<RenderedTrack & { dynamics: SceneDynamics }> => {
+  const sampleRate = options.sampleRate ?? 44100;
+  const loudnessTarget = options.loudnessTarget ?? LOUDNESS_TARGETS[0].lufs;
+  const plans = planScenes(spec, options.duration);
+  const sections: AudioBuffer[] = [];
+  const sceneDynamics: SectionDynamics[] = [];
+  for (const [index, plan] of plans.entries()) {
+    // Every scene shares the seed, so motifs and grooves carry across the changes
+    const { buffer, dynamics } = await renderSection(plan.spec, seed, {
+      duration: plan.renderEnd - plan.renderStart,
+      sampleRate,
+      loudnessTarget,
+      signal: options.signal,
+      processor: options.processor,
+    }, selection, mixDynamics?.scenes[index]);
+    sections.push(buffer);
+    sceneDynamics.push(dynamics);
+  }
 
-  const writeString = (view: DataView, offset: number, string: string) => {
-    for (let i = 0; i < string.length; i++) {
-      view.setUint8(offset + i, string.charCodeAt(i));
+  const buffer = new AudioBuffer({ length: Math.round(options.duration * sampleRate), numberOfChannels: 2, sampleRate });
+  mixScenes(buffer, plans, sections);
+  plans.forEach((plan, index) => {
+    if (index > 0 && plan.transition === 'riser' && selection.wet) {
+      addRiser(buffer, plan.start, riserLength(plans[index - 1]), forkRandom(seed, `riser-${index}`));
     }
-  };
+  });
+  applyFades(buffer, options.fadeIn ?? 0, options.fadeOut ?? 0);
+  const { loudness, dynamics } = await (options.processor ?? localProcessor).master(buffer, mixDynamics?.mastering ?? loudnessTarget);
+  return { buffer, loudness, beatMap: createBeatMap(spec, options.duration), dynamics: { scenes: sceneDynamics, mastering: dynamics } };
+};
 
-  writeString(view, 0, 'RIFF');
-  view.setUint32(4, 36 + buffer.length * numOfChan * 2, true);
-  writeString(view, 8, 'WAVE');
-  writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true);
-  view.setUint16(20, 1, true);
-  view.setUint16(22, numOfChan, true);
-  view.setUint32(24, buffer.sampleRate, true);
-  view.setUint32(28, buffer.sampleRate * 2 * numOfChan, true);
-  view.setUint16(32, numOfChan * 2, true);
-  view.setUint16(34, 16, true);
-  writeString(view, 36, 'data');
-  view.setUint32(40, buffer.length * numOfChan * 2, true);
+/**
+ * Synthesizes a complex, multi-layered track from a structured music spec.
+ * Every decision about instruments, scale and effects comes from the spec; use
+ * `parseMusicSpec` to derive one from a text description. A spec with scenes changes
+ * tempo, key and sound at each scene, with a crossfade, riser or cut into it.
+ * Rendering is deterministic: the same spec and seed always produce the same samples.
+ * The mix is bus-compressed, then normalized to the loudness target and true-peak limited.
+ * @param spec The structured description of the track to synthesize.
+ * @param seed Seed for every random choice the generator makes.
+ * @param options Length, fades, looping and loudness of the rendered audio.
+ * @returns A promise that resolves to the mastered audio, its measured loudness and its beat map.
+ */
+export const renderTrack = async (spec: MusicSpec, seed: number, options: RenderOptions): Promise<RenderedTrack> => {
+  const { buffer, loudness, beatMap } = hasScenes(spec) ? await renderScenes(spec, seed, options) : await renderSection(spec, seed, options);
+  return { buffer, loudness, beatMap };
+};
 
-  offset = 44;
-  for (let i = 0; i < buffer.length; i++) {
-    for (let channel = 0; channel < numOfChan; channel++) {
-      const sample = Math.max(-1, Math.min(1, buffer.getChannelData(channel)[i]));
-      const intSample = sample < 0 ? sample * 32768 : sample * 32767;
-      view.setInt16(offset, intSample, true);
-      offset += 2;
+/**
+ * Renders the full mix, then parts of it on their own with the same compression,
+ * normalization and limiting gains the mix got, so they line up with it and add back up
+ * to it. Distortion and bitcrushing are the exceptions: being nonlinear, they're applied
+ * to each part on its own, so parts with them on don't add up to the mix exactly.
+ * @param spec The structured description of the track to synthesize.
+ * @param seed Seed for every random choice the generator makes.
+ * @param options Length, fades, looping and loudness, shared by the mix and every part.
+ * @param parts The stems each part plays together, e.g. `[['drums'], ['bass']]` for two
+ * stems, or `[['melody', 'effects']]` for a mix with the other stems muted.
+ */
+export const renderStems = async (spec: MusicSpec, seed: number, options: RenderOptions, parts: StemName[][]): Promise<RenderedStems> => {
+  const buffers: AudioBuffer[] = [];
+  if (hasScenes(spec)) {
+    const { dynamics, ...mix } = await renderScenes(spec, seed, options);
+    for (const stems of parts) {
+      buffers.push((await renderScenes(spec, seed, options, selectStems(stems), dynamics)).buffer);
     }
+    return { mix, parts: buffers };
   }
+  const { dynamics, ...mix } = await renderSection(spec, seed, options);
+  for (const stems of parts) {
+    buffers.push((await renderSection(spec, seed, options, selectStems(stems), dynamics)).buffer);
+  }
+  return { mix, parts: buffers };
+};
 
-  return bufferOut;
-}
\ No newline at end of file
+// Applies linear fade-in/out ramps to the buffer in place
+function applyFades(buffer: AudioBuffer, fadeIn: number, fadeOut: number) {
+  const fadeInSamples = Math.min(buffer.length, Math.round(fadeIn * buffer.sampleRate));
+  const fadeOutSamples = Math.min(buffer.length, Math.round(fadeOut * buffer.sampleRate));
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < fadeInSamples; i++) {
+      data[i] *= i / fadeInSamples;
+    }
+    for (let i = 0; i < fadeOutSamples; i++) {
+      data[buffer.length - 1 - i] *= i / fadeOutSamples;
+    }
+  }
+}
+
+// Trims the buffer to the loop length, mixing everything that rang past the loop point
+// back into the start so playback wraps around seamlessly.
+function foldLoopTail(buffer: AudioBuffer, loopLength: number): AudioBuffer {
+  const looped = new AudioBuffer({
+    length: loopLength,
+    numberOfChannels: buffer.numberOfChannels,
+    sampleRate: buffer.sampleRate,
+  });
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const source = buffer.getChannelData(channel);
+    const target = looped.getChannelData(channel);
+    target.set(source.subarray(0, loopLength));
+    for (let i = loopLength; i < source.length; i++) {
+      target[(i - loopLength) % loopLength] += source[i];
+    }
+  }
+  return looped;
+}
@@ -0,0 +1,87 @@
+import type { LoudnessReport } from '../types';
+import { compressBus, masterMix } from './mastering';
+import type { MixDynamics } from './mastering';
+import { computePeaks } from './waveform';
+import { bufferToWav } from './wav';
+import { createWorkerPool } from './workerPool';
+import type { WorkerPool } from './workerPool';
+import type { AudioWorkerRequest, AudioWorkerResponse, AudioWorkerResults, PcmChannels } from './audioWorker';
+
+/**
+ * Runs the JavaScript-heavy steps that follow an offline render, on the buffer in place.
+ */
+export interface AudioProcessor {
+  /** Bus-compresses a mix, or a part of one with the mix's envelope; see `compressBus`. */
+  compress: (audio: AudioBuffer, mixEnvelope?: Float32Array) => Promise<Float32Array>;
+  /** Masters a mix, or a part of one with the mix's dynamics; see `masterMix`. */
+  master: (audio: AudioBuffer, target: number | MixDynamics) => Promise<{ loudness: LoudnessReport; dynamics: MixDynamics }>;
+}
+
+/** Does the work on the calling thread. */
+export const localProcessor: AudioProcessor = {
+  compress: async (audio, mixEnvelope) => compressBus(audio, mixEnvelope),
+  master: async (audio, target) => masterMix(audio, target),
+};
+
+// Created on first use; null where workers aren't available at all
+let pool: WorkerPool<AudioWorkerRequest, AudioWorkerResponse> | null | undefined;
+
+const getPool = (): WorkerPool<AudioWorkerRequest, AudioWorkerResponse> | null => {
+  if (pool === undefined) {
+    pool = typeof Worker === 'undefined'
+      ? null
+      : createWorkerPool<AudioWorkerRequest, AudioWorkerResponse>(
+          () => new Worker(new URL('./audioWorker.ts', import.meta.url), { type: 'module' }),
+          Math.max(1, Math.min(4, (navigator.hardwareConcurrency ?? 2) - 1)),
+        );
+  }
+  return pool;
+};
+
+// Copies, because an AudioBuffer's own storage can't be transferred
+const toChannels = (audio: AudioBuffer): PcmChannels => ({
+  channels: Array.from({ length: audio.numberOfChannels }, (_, channel) => audio.getChannelData(channel).slice()),
+  sampleRate: audio.sampleRate,
+});
+
+const writeBack = (audio: AudioBuffer, channels: Float32Array[]) => {
+  channels.forEach((data, channel) => audio.copyToChannel(data, channel));
+};
+
+// Sends a request to a worker, resolving to null when it has to be done on this thread
+// instead. The buffer it was copied from is untouched until the result is written back,
+// so a failed request can always be redone here; the pool replaces crashed workers, so
+// the next request tries a worker again.
+const inWorker = async <Kind extends AudioWorkerRequest['kind']>(request: Extract<AudioWorkerRequest, { kind: Kind }>): Promise<AudioWorkerResults[Kind] | null> => {
+  const workers = getPool();
+  if (!workers) return null;
+  try {
+    return await workers.run(request, request.audio.channels.map(channel => channel.buffer)) as AudioWorkerResults[Kind];
+  } catch (error) {
+    console.warn('Processing audio on the main thread; the worker failed:', error);
+    return null;
+  }
+};
+
+/** Does the work in a pool of workers, falling back to the calling thread if one fails. */
+export const workerProcessor: AudioProcessor = {
+  compress: async (audio, mixEnvelope) => {
+    const result = await inWorker({ kind: 'compress', audio: toChannels(audio), mixEnvelope });
+    if (!result) return compressBus(audio, mixEnvelope);
+    writeBack(audio, result.channels);
+    return result.envelope;
+  },
+  master: async (audio, target) => {
+    const result = await inWorker({ kind: 'master', audio: toChannels(audio), target });
+    if (!result) return masterMix(audio, target);
+    writeBack(audio, result.channels);
+    return { loudness: result.loudness, dynamics: result.dynamics };
+  },
+};
+
+/**
+ * Encodes a preview as a 16-bit WAV and draws its waveform thumbnail, in a worker when
+ * one is available.
+ */
+export const encodePreview = async (audio: AudioBuffer): Promise<AudioWorkerResults['encode']> =>
+  (await inWorker({ kind: 'encode', audio: toChannels(audio) })) ?? { wav: bufferToWav(audio), peaks: computePeaks(audio) };
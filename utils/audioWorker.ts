@@ -0,0 +1,69 @@
+import type { LoudnessReport } from '../types';
+import { compressBus, masterMix } from './mastering';
+import type { MixDynamics } from './mastering';
+import { computePeaks } from './waveform';
+import { bufferToWav } from './wav';
+import type { PcmAudio } from './encoders';
+import type { WorkerReply } from './workerPool';
+
+/** Audio handed to the worker as plain channel arrays, which are transferred with it. */
+export interface PcmChannels {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+export type AudioWorkerRequest =
+  | { kind: 'compress'; audio: PcmChannels; mixEnvelope?: Float32Array }
+  | { kind: 'master'; audio: PcmChannels; target: number | MixDynamics }
+  | { kind: 'encode'; audio: PcmChannels };
+
+/** What the worker sends back for each kind of request. */
+export interface AudioWorkerResults {
+  compress: { channels: Float32Array[]; envelope: Float32Array };
+  master: { channels: Float32Array[]; loudness: LoudnessReport; dynamics: MixDynamics };
+  /** A 16-bit WAV, and the waveform thumbnail from `computePeaks`. */
+  encode: { wav: ArrayBuffer; peaks: number[] };
+}
+
+export type AudioWorkerResponse = AudioWorkerResults[keyof AudioWorkerResults];
+
+const toPcmAudio = ({ channels, sampleRate }: PcmChannels): PcmAudio => ({
+  numberOfChannels: channels.length,
+  length: channels[0]?.length ?? 0,
+  sampleRate,
+  getChannelData: (channel) => channels[channel],
+});
+
+const handle = (request: AudioWorkerRequest): { result: AudioWorkerResponse; transfer: Transferable[] } => {
+  const audio = toPcmAudio(request.audio);
+  const { channels } = request.audio;
+  switch (request.kind) {
+    case 'compress': {
+      const envelope = compressBus(audio, request.mixEnvelope);
+      return { result: { channels, envelope }, transfer: [...channels.map(channel => channel.buffer), envelope.buffer] };
+    }
+    case 'master': {
+      const { loudness, dynamics } = masterMix(audio, request.target);
+      return { result: { channels, loudness, dynamics }, transfer: channels.map(channel => channel.buffer) };
+    }
+    case 'encode': {
+      const wav = bufferToWav(audio);
+      return { result: { wav, peaks: computePeaks(audio) }, transfer: [wav] };
+    }
+  }
+};
+
+// Worker entry point: the mastering, analysis and encoding that follow each offline render.
+// Synthesis itself can't move here, since workers have no OfflineAudioContext.
+self.onmessage = (event: MessageEvent<AudioWorkerRequest>) => {
+  let reply: WorkerReply<AudioWorkerResponse>;
+  let transfer: Transferable[] = [];
+  try {
+    const handled = handle(event.data);
+    reply = { result: handled.result };
+    transfer = handled.transfer;
+  } catch (error) {
+    reply = { error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(reply, { transfer });
+};
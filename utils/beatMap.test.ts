@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { SceneSpec } from '../types';
+import { parseMusicSpec } from './musicSpec';
+import { resolveRenderDuration } from './audioGenerator';
+import { beatMapToCueSheet, createBeatMap } from './beatMap';
+
+const spec = parseMusicSpec('steady piano groove at 120 bpm');
+
+describe('createBeatMap', () => {
+  it.each([
+    { bpm: 120, duration: 8, beats: 16, bars: [0, 2, 4, 6] },
+    { bpm: 90, duration: 8, beats: 12, bars: [0, 2.667, 5.333] },
+    { bpm: 100, duration: 5, beats: 9, bars: [0, 2.4, 4.8] },
+  ])('places the beats and bars of $duration s at $bpm bpm', ({ bpm, duration, beats, bars }) => {
+    const beatMap = createBeatMap({ ...spec, bpm }, duration);
+    expect(beatMap.beats).toHaveLength(beats);
+    expect(beatMap.beats[1]).toBeCloseTo(60 / bpm, 3);
+    expect(beatMap.bars).toEqual(bars);
+    expect(beatMap.tempos).toEqual([{ time: 0, bpm }]);
+    expect(beatMap.markers[0]).toMatchObject({ time: 0, kind: 'section' });
+    expect(beatMap.markers.every(marker => beatMap.bars.includes(marker.time))).toBe(true);
+  });
+
+  it('follows each scene\'s tempo from its start', () => {
+    const scene = (start: number, bpm: number): SceneSpec => ({
+      start, bpm, transition: 'cut', root: spec.root, mode: spec.mode, energy: spec.energy, layers: spec.layers, effects: spec.effects,
+    });
+    const beatMap = createBeatMap({ ...spec, scenes: [scene(0, 120), scene(8, 60)] }, 16);
+    expect(beatMap.tempos).toEqual([{ time: 0, bpm: 120 }, { time: 8, bpm: 60 }]);
+    expect(beatMap.markers.filter(marker => marker.kind === 'scene').map(marker => marker.time)).toEqual([0, 8]);
+    expect(beatMap.bars).toEqual([0, 2, 4, 6, 8, 12]);
+  });
+
+  it('covers a loop export rounded to whole bars', () => {
+    const duration = resolveRenderDuration(spec, { duration: 9, loop: true });
+    expect(duration).toBe(10);
+    const beatMap = createBeatMap(spec, duration);
+    expect(beatMap.duration).toBe(10);
+    expect(beatMap.bars).toEqual([0, 2, 4, 6, 8]);
+  });
+});
+
+describe('beatMapToCueSheet', () => {
+  it('indexes each marker in CD frames and merges markers at the same time', () => {
+    const sheet = beatMapToCueSheet({
+      duration: 90,
+      beatsPerBar: 4,
+      tempos: [{ time: 0, bpm: 120 }],
+      beats: [],
+      bars: [],
+      markers: [
+        { time: 0, label: 'Scene 1', kind: 'scene' },
+        { time: 0, label: 'Intro', kind: 'section' },
+        { time: 61.2, label: 'Chorus "big"', kind: 'section' },
+      ],
+    }, 'Demo', 'demo.wav');
+    expect(sheet.split('\r\n')).toEqual([
+      'TITLE "Demo"',
+      'FILE "demo.wav" WAVE',
+      '  TRACK 01 AUDIO',
+      '    TITLE "Scene 1 / Intro"',
+      '    INDEX 01 00:00:00',
+      '  TRACK 02 AUDIO',
+      '    TITLE "Chorus \'big\'"',
+      '    INDEX 01 01:01:15',
+      '',
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import type { BeatMap, CueMarker, MusicSpec } from '../types';
+import { planSections } from './composition';
+import type { SectionName } from './composition';
+import { hasScenes, planScenes } from './scenes';
+
+const BEATS_PER_BAR = 4;
+// CD cue sheets count time in 1/75 s frames
+const CUE_FRAMES_PER_SECOND = 75;
+
+const SECTION_LABELS: Record<SectionName, string> = {
+  intro: 'Intro',
+  verse: 'Verse',
+  chorus: 'Chorus',
+  bridge: 'Bridge',
+  outro: 'Outro',
+};
+
+const roundTime = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+// The grid of music rendered from `origin` at one tempo, kept to the part heard between start and end
+const gridSpan = (spec: MusicSpec, origin: number, start: number, end: number): Omit<BeatMap, 'duration' | 'beatsPerBar' | 'tempos'> => {
+  const beatDuration = 60 / spec.bpm;
+  const barDuration = beatDuration * BEATS_PER_BAR;
+  const isHeard = (time: number) => time >= start - 1e-6 && time < end - 1e-6;
+  const totalBeats = Math.ceil((end - origin) / beatDuration);
+  const beats = Array.from({ length: totalBeats }, (_, beat) => origin + beat * beatDuration).filter(isHeard);
+  const bars = beats.filter(time => Math.round((time - origin) / beatDuration) % BEATS_PER_BAR === 0);
+  const markers = planSections(Math.max(1, Math.ceil((end - origin) / barDuration)))
+    .map((section): CueMarker => ({ time: origin + section.startBar * barDuration, label: SECTION_LABELS[section.name], kind: 'section' }))
+    .filter(marker => isHeard(marker.time));
+  return { beats, bars, markers };
+};
+
+/**
+ * Works out where the beats, bars, sections and scenes of a render fall, matching what the
+ * generator plays for the same spec and length.
+ * @param spec The track's spec.
+ * @param duration Length of the render in seconds, after any rounding to whole bars.
+ */
+export const createBeatMap = (spec: MusicSpec, duration: number): BeatMap => {
+  const spans = hasScenes(spec)
+    ? planScenes(spec, duration).map((plan, index) => ({
+        spec: plan.spec,
+        // Each scene's music starts where its crossfade does
+        origin: plan.renderStart,
+        start: plan.start,
+        end: plan.end,
+        scene: { time: plan.start, label: `Scene ${index + 1}`, kind: 'scene' } as CueMarker,
+      }))
+    : [{ spec, origin: 0, start: 0, end: duration, scene: null }];
+
+  const beatMap: BeatMap = { duration, beatsPerBar: BEATS_PER_BAR, tempos: [], beats: [], bars: [], markers: [] };
+  for (const span of spans) {
+    const grid = gridSpan(span.spec, span.origin, span.start, span.end);
+    beatMap.tempos.push({ time: roundTime(span.start), bpm: span.spec.bpm });
+    beatMap.beats.push(...grid.beats.map(roundTime));
+    beatMap.bars.push(...grid.bars.map(roundTime));
+    if (span.scene) beatMap.markers.push({ ...span.scene, time: roundTime(span.scene.time) });
+    beatMap.markers.push(...grid.markers.map(marker => ({ ...marker, time: roundTime(marker.time) })));
+  }
+  return beatMap;
+};
+
+// HH:MM:SS.mmm, which spreadsheet and editor marker imports both read
+const formatTimecode = (seconds: number): string => {
+  const millis = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(Math.floor(millis / 3600000))}:${pad(Math.floor(millis / 60000) % 60)}:${pad(Math.floor(millis / 1000) % 60)}.${pad(millis % 1000, 3)}`;
+};
+
+const formatCueTime = (seconds: number): string => {
+  const frames = Math.round(seconds * CUE_FRAMES_PER_SECOND);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(Math.floor(frames / (60 * CUE_FRAMES_PER_SECOND)))}:${pad(Math.floor(frames / CUE_FRAMES_PER_SECOND) % 60)}:${pad(frames % CUE_FRAMES_PER_SECOND)}`;
+};
+
+/**
+ * Lists every bar, section and scene as CSV marker rows, in time order.
+ */
+export const beatMapToCsv = (beatMap: BeatMap): string => {
+  const rows = [
+    ...beatMap.markers.map(marker => ({ name: marker.label, type: marker.kind, time: marker.time })),
+    ...beatMap.bars.map((time, index) => ({ name: `Bar ${index + 1}`, type: 'bar', time })),
+  ].sort((a, b) => a.time - b.time);
+  const lines = rows.map(row => `${row.name},${row.type},${row.time.toFixed(3)},${formatTimecode(row.time)}`);
+  return ['Name,Type,Seconds,Timecode', ...lines].join('\r\n') + '\r\n';
+};
+
+/**
+ * The whole beat map as JSON, titled after the track.
+ */
+export const beatMapToJson = (beatMap: BeatMap, title: string): string => JSON.stringify({ title, ...beatMap }, null, 2);
+
+/**
+ * A cue sheet with one index per section and scene, pointing at the exported audio file.
+ * Markers at the same time, like a scene opening on a new section, share one index.
+ * @param audioFileName Name of the exported audio the sheet describes.
+ */
+export const beatMapToCueSheet = (beatMap: BeatMap, title: string, audioFileName: string): string => {
+  const quote = (text: string) => `"${text.replace(/"/g, "'")}"`;
+  const merged: CueMarker[] = [];
+  for (const marker of beatMap.markers) {
+    const previous = merged[merged.length - 1];
+    if (previous && formatCueTime(previous.time) === formatCueTime(marker.time)) {
+      merged[merged.length - 1] = { ...previous, label: `${previous.label} / ${marker.label}` };
+    } else {
+      merged.push(marker);
+    }
+  }
+  const lines = [`TITLE ${quote(title)}`, `FILE ${quote(audioFileName)} WAVE`];
+  merged.forEach((marker, index) => {
+    lines.push(
+      `  TRACK ${String(index + 1).padStart(2, '0')} AUDIO`,
+      `    TITLE ${quote(marker.label)}`,
+      `    INDEX 01 ${formatCueTime(marker.time)}`,
+    );
+  });
+  return lines.join('\r\n') + '\r\n';
+};
@@ -0,0 +1,322 @@
+import type { MusicSpec, MusicMode } from '../types';
+import { NOTE_NAMES } from '../constants';
+import { forkRandom } from './random';
+import type { Random } from './random';
+
+/** One note of a layer, timed in seconds from the start of the track. */
+export interface NoteEvent {
+  time: number;
+  duration: number;
+  /** MIDI note number; 69 is A4 (440 Hz). */
+  pitch: number;
+  /** Loudness from 0 to 1. */
+  velocity: number;
+}
+
+export type SectionName = 'intro' | 'verse' | 'chorus' | 'bridge' | 'outro';
+
+export interface Section {
+  name: SectionName;
+  startBar: number;
+  bars: number;
+  /** How full the arrangement is, from 0 (sparse) to 1 (everything playing). */
+  intensity: number;
+}
+
+export interface ChordEvent {
+  time: number;
+  duration: number;
+  /** The chord's root in the bass register. */
+  root: number;
+  /** Chord tones in the middle register, voice-led from the previous chord. */
+  voicing: number[];
+}
+
+/**
+ * Everything the synthesizer plays, worked out ahead of time from the spec and seed.
+ */
+export interface Composition {
+  beatDuration: number;
+  barDuration: number;
+  sections: Section[];
+  chords: ChordEvent[];
+  bass: NoteEvent[];
+  melody: NoteEvent[];
+}
+
+// A chord as semitone offsets from the tonic; tones may extend past the octave.
+interface Chord {
+  root: number;
+  tones: number[];
+}
+
+// One bar of melody rhythm and shape on an eighth-note grid.
+interface Motif {
+  onsets: boolean[];
+  // Scale steps to move from the previous note at each onset
+  moves: number[];
+}
+
+export const SCALES: Record<MusicMode, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  phrygian: [0, 1, 3, 5, 7, 8, 10],
+  pentatonic: [0, 2, 4, 7, 9],
+  dissonant: [0, 1, 4, 5, 8, 9],
+};
+
+// Progressions as scale degrees (0 = tonic) of the mode's seven-note scale.
+// Pentatonic melodies sit over the major scale's chords.
+const PROGRESSIONS: Record<Exclude<MusicMode, 'dissonant'>, number[][]> = {
+  major: [[0, 4, 5, 3], [0, 5, 3, 4], [0, 3, 4, 0], [5, 3, 0, 4]],
+  pentatonic: [[0, 3, 0, 4], [0, 5, 3, 4], [0, 4, 5, 3]],
+  minor: [[0, 5, 2, 6], [0, 3, 4, 0], [0, 6, 5, 6], [0, 3, 6, 2]],
+  // The major IV and minor ii are what make dorian sound dorian
+  dorian: [[0, 3, 0, 3], [0, 6, 3, 0], [0, 1, 3, 0]],
+  // ...and the flat II does the same for phrygian
+  phrygian: [[0, 1, 0, 1], [0, 1, 6, 0], [0, 6, 1, 0]],
+};
+
+// Atonal harmony: clusters and tritone shapes on roots that avoid a tonal centre
+const CLUSTER_SHAPES = [[0, 1, 5], [0, 1, 6], [0, 2, 3], [0, 4, 8], [0, 6, 11]];
+const CLUSTER_ROOTS = [1, 5, 6, 8, 11];
+
+const SECTION_INTENSITY: Record<SectionName, number> = {
+  intro: 0.3,
+  verse: 0.6,
+  chorus: 1,
+  bridge: 0.7,
+  outro: 0.4,
+};
+
+const BODY_FORM: SectionName[] = ['verse', 'chorus', 'verse', 'chorus', 'bridge', 'chorus'];
+const PHRASE_BARS = 4;
+const STEPS_PER_BAR = 8;
+// Smaller moves are likelier, so melodies mostly walk and occasionally leap
+const MOTIF_MOVES = [-3, -2, -1, -1, -1, 0, 1, 1, 1, 2, 2, 3];
+
+const VOICING_RANGE: [number, number] = [50, 74];
+const MELODY_SPAN = 19;
+
+export const midiToFrequency = (pitch: number): number => 440 * Math.pow(2, (pitch - 69) / 12);
+
+const pick = <T,>(random: Random, items: T[]): T => items[Math.floor(random() * items.length)];
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const pitchClass = (pitch: number): number => ((pitch % 12) + 12) % 12;
+
+/**
+ * Splits the track into phrase-length sections. Short previews get a verse and the start
+ * of a chorus; longer tracks also get an intro, a bridge and an outro.
+ */
+export const planSections = (totalBars: number): Section[] => {
+  const sections: Section[] = [];
+  let bar = 0;
+  const add = (name: SectionName, bars: number) => {
+    if (bars <= 0) return;
+    sections.push({ name, startBar: bar, bars, intensity: SECTION_INTENSITY[name] });
+    bar += bars;
+  };
+
+  const hasFrame = totalBars >= 16;
+  if (hasFrame) add('intro', 2);
+  const bodyEnd = totalBars - (hasFrame ? 2 : 0);
+  for (let i = 0; bar < bodyEnd; i++) {
+    add(BODY_FORM[i % BODY_FORM.length], Math.min(PHRASE_BARS, bodyEnd - bar));
+  }
+  if (hasFrame) add('outro', totalBars - bar);
+  return sections;
+};
+
+const triadOnDegree = (scale: number[], degree: number): Chord => ({
+  root: scale[degree % scale.length],
+  tones: [0, 2, 4].map(step => {
+    const index = degree + step;
+    return scale[index % scale.length] + 12 * Math.floor(index / scale.length);
+  }),
+});
+
+// Four chords for one section, in the mode's own harmonic language
+const chooseProgression = (mode: MusicMode, random: Random): Chord[] => {
+  if (mode === 'dissonant') {
+    return Array.from({ length: 4 }, (_, i) => {
+      const root = i === 0 ? 0 : pick(random, CLUSTER_ROOTS);
+      return { root, tones: pick(random, CLUSTER_SHAPES).map(offset => root + offset) };
+    });
+  }
+  const harmonyScale = mode === 'pentatonic' ? SCALES.major : SCALES[mode];
+  return pick(random, PROGRESSIONS[mode]).map(degree => triadOnDegree(harmonyScale, degree));
+};
+
+/**
+ * Picks the inversion and octave of the chord that moves least from the previous voicing,
+ * the way a keyboard player keeps their hand in one place.
+ */
+const voiceChord = (tonic: number, chord: Chord, previous: number[] | null): number[] => {
+  const candidates: number[][] = [];
+  for (let inversion = 0; inversion < chord.tones.length; inversion++) {
+    const shape = chord.tones.map((tone, i) => tone + (i < inversion ? 12 : 0)).sort((a, b) => a - b);
+    for (let octave = -2; octave <= 2; octave++) {
+      const notes = shape.map(tone => tonic + tone + 12 * octave);
+      if (notes[0] >= VOICING_RANGE[0] && notes[notes.length - 1] <= VOICING_RANGE[1]) {
+        candidates.push(notes);
+      }
+    }
+  }
+  if (candidates.length === 0) return chord.tones.map(tone => tonic + tone);
+
+  const distance = (notes: number[]) => previous
+    ? notes.reduce((sum, note, i) => sum + Math.abs(note - previous[Math.min(i, previous.length - 1)]), 0)
+    // With nothing to lead from, start in the middle of the range
+    : Math.abs(notes[0] - 55);
+  return candidates.reduce((best, candidate) => distance(candidate) < distance(best) ? candidate : best);
+};
+
+const createMotif = (random: Random, density: number): Motif => {
+  const onsets = Array.from({ length: STEPS_PER_BAR }, (_, step) => step === 0 || random() < density);
+  const moves = onsets.map(() => pick(random, MOTIF_MOVES));
+  return { onsets, moves };
+};
+
+/**
+ * Composes a track: a section plan, a voice-led chord progression per section, a bass
+ * line and a motif-based melody that lands on chord tones on the strong beats.
+ * Deterministic for a given spec, seed and duration.
+ * @param spec The structured description of the track.
+ * @param seed The track's render seed.
+ * @param duration Length of the music in seconds.
+ */
+export const composeTrack = (spec: MusicSpec, seed: number, duration: number): Composition => {
+  const random = forkRandom(seed, 'composition');
+  const beatDuration = 60 / spec.bpm;
+  const barDuration = beatDuration * 4;
+  const stepDuration = barDuration / STEPS_PER_BAR;
+  const totalBars = Math.max(1, Math.ceil(duration / barDuration));
+  // The root in octave 3, where C3 is MIDI 48
+  const tonic = 48 + NOTE_NAMES.indexOf(spec.root);
+  const sections = planSections(totalBars);
+
+  // Each kind of section keeps its own progression and motif, so a chorus returns as itself
+  const progressions = new Map<SectionName, Chord[]>();
+  const motifs = new Map<SectionName, Motif>();
+  const progressionFor = (name: SectionName): Chord[] => {
+    let progression = progressions.get(name);
+    if (!progression) {
+      if (name === 'intro') progression = progressionFor('verse');
+      else if (name === 'outro') progression = progressionFor('chorus');
+      else progression = chooseProgression(spec.mode, random);
+      progressions.set(name, progression);
+    }
+    return progression;
+  };
+
+  const chords: ChordEvent[] = [];
+  const bass: NoteEvent[] = [];
+  const melody: NoteEvent[] = [];
+
+  // Every in-scale pitch the melody may use, low to high
+  const melodyScale = SCALES[spec.mode];
+  const ladder: number[] = [];
+  for (let pitch = tonic + 12; pitch <= tonic + 12 + MELODY_SPAN; pitch++) {
+    if (melodyScale.includes(pitchClass(pitch - tonic))) ladder.push(pitch);
+  }
+  let cursor = Math.floor(ladder.length / 3);
+  let previousVoicing: number[] | null = null;
+
+  // Busier parts for higher energy, on top of how full each section is
+  const energy = spec.energy / 10;
+
+  for (const section of sections) {
+    const progression = progressionFor(section.name);
+    let motif = motifs.get(section.name);
+    if (!motif) {
+      motif = createMotif(random, clamp(0.2 + energy * 0.5 + (section.intensity - 0.5) * 0.3, 0.15, 0.95));
+      motifs.set(section.name, motif);
+    }
+
+    for (let barInSection = 0; barInSection < section.bars; barInSection++) {
+      const bar = section.startBar + barInSection;
+      const barTime = bar * barDuration;
+      if (barTime >= duration) break;
+
+      const isLastBar = bar === totalBars - 1;
+      // The outro settles on the tonic chord at the very end
+      const chord = section.name === 'outro' && isLastBar
+        ? progression[0]
+        : progression[barInSection % progression.length];
+      const voicing = voiceChord(tonic, chord, previousVoicing);
+      previousVoicing = voicing;
+      const bassRoot = tonic - 12 + pitchClass(chord.root);
+      chords.push({ time: barTime, duration: barDuration, root: bassRoot, voicing });
+
+      // Bass: whole notes when calm, root and fifth when moderate, a driving pulse when intense
+      const drive = energy * (0.5 + section.intensity / 2);
+      const bassPattern = drive < 0.35 ? [0] : drive < 0.6 ? [0, 7] : [0, 0, 7, 12];
+      const bassNoteLength = barDuration / bassPattern.length;
+      bassPattern.forEach((interval, i) => {
+        bass.push({
+          time: barTime + i * bassNoteLength,
+          duration: bassNoteLength * 0.9,
+          pitch: bassRoot + interval,
+          velocity: i === 0 ? 1 : 0.8,
+        });
+      });
+
+      // Melody rests through the intro and plays the section's motif with phrase-shaped variations
+      if (section.name === 'intro') continue;
+      const phraseBar = barInSection % PHRASE_BARS;
+      if (phraseBar === 0) {
+        cursor = clamp(cursor, 2, ladder.length - 3);
+      }
+      const chordClasses = chord.tones.map(tone => pitchClass(tone));
+      // Bar 2 of each phrase answers the motif a step higher; bar 4 cadences on a long chord tone
+      const shift = phraseBar === 1 ? 1 : 0;
+      const isCadence = phraseBar === PHRASE_BARS - 1 || isLastBar;
+      const lastStep = isCadence ? STEPS_PER_BAR / 2 : STEPS_PER_BAR;
+      const stepOnsets = motif.onsets.map((onset, step) => onset && step < lastStep);
+
+      for (let step = 0; step < lastStep; step++) {
+        if (!stepOnsets[step]) continue;
+        let index = clamp(cursor + motif.moves[step] + (step === 0 ? shift : 0), 0, ladder.length - 1);
+        const isStrongBeat = step % 4 === 0;
+        if (isStrongBeat || (isCadence && step === lastStep - 1)) {
+          index = nearestChordTone(ladder, index, tonic, chordClasses);
+        }
+        cursor = index;
+
+        let nextOnset = step + 1;
+        while (nextOnset < lastStep && !stepOnsets[nextOnset]) nextOnset++;
+        const length = isCadence && nextOnset >= lastStep ? STEPS_PER_BAR - step : nextOnset - step;
+        melody.push({
+          time: barTime + step * stepDuration,
+          duration: length * stepDuration * 0.95,
+          pitch: ladder[index],
+          velocity: (isStrongBeat ? 0.9 : 0.7) * (0.7 + 0.3 * section.intensity),
+        });
+      }
+    }
+  }
+
+  return {
+    beatDuration,
+    barDuration,
+    sections,
+    chords,
+    bass: bass.filter(note => note.time < duration),
+    melody: melody.filter(note => note.time < duration),
+  };
+};
+
+// The ladder index closest to `index` whose pitch belongs to the chord
+function nearestChordTone(ladder: number[], index: number, tonic: number, chordClasses: number[]): number {
+  for (let distance = 0; distance < ladder.length; distance++) {
+    for (const candidate of [index - distance, index + distance]) {
+      if (candidate >= 0 && candidate < ladder.length && chordClasses.includes(pitchClass(ladder[candidate] - tonic))) {
+        return candidate;
+      }
+    }
+  }
+  return index;
+}
@@ -0,0 +1,269 @@
+import type { EffectsSpec, EffectName, ReverbSettings, ReverbType, DelaySettings, WobbleSettings, FilterSettings, BitcrushSettings, PumpSettings } from '../types';
+import type { Random } from './random';
+import { distortionCurve } from './instruments';
+
+/** How far the "detuned" effect pulls the melody flat of the harmony, in cents. */
+export const MELODY_DETUNE_CENTS = -25;
+
+export interface EffectsContext {
+  bpm: number;
+  /** Source for the reverb's impulse response; fork one so renders stay deterministic. */
+  random: Random;
+  /** Seconds of audio the context renders, so tempo-locked automation covers all of it. */
+  length: number;
+  /** Whether the signal passes straight through as well as into the reverb and delay; defaults to true. */
+  dry?: boolean;
+  /** Whether the reverb and delay returns are heard; defaults to true. */
+  wet?: boolean;
+}
+
+/** One active effect, described for display. */
+export interface EffectSummary {
+  name: EffectName;
+  label: string;
+  detail: string;
+}
+
+interface ReverbCharacter {
+  /** Gap before the tail starts, in seconds. */
+  predelay: number;
+  /** How much high end the tail keeps, from 0 (dark) to 1 (bright). */
+  brightness: number;
+  /** Distinct echoes off nearby walls before the diffuse tail, in seconds. */
+  reflections: number[];
+}
+
+const REVERB_CHARACTER: Record<ReverbType, ReverbCharacter> = {
+  room: { predelay: 0.004, brightness: 0.55, reflections: [0.007, 0.013, 0.019, 0.027] },
+  hall: { predelay: 0.025, brightness: 0.35, reflections: [0.021, 0.037, 0.052, 0.071] },
+  // A plate is a sheet of metal: dense and bright from the first instant, with no walls
+  plate: { predelay: 0, brightness: 0.85, reflections: [] },
+};
+
+// The cutoff sweeps up over four bars and back down over the next four
+const SWEEP_BEATS = 16;
+const SWEEP_OCTAVES = 2;
+// Approximate cents per unit of relative pitch change, for small changes
+const CENTS_PER_RATIO = 1731;
+
+const equalPower = (mix: number): { dry: number; wet: number } => ({
+  dry: Math.cos((mix * Math.PI) / 2),
+  wet: Math.sin((mix * Math.PI) / 2),
+});
+
+/**
+ * Builds a stereo impulse response: a few early reflections, then decaying noise that
+ * loses its high end as it fades, as sound does bouncing around a real space.
+ */
+const createImpulseResponse = (context: BaseAudioContext, { type, decay }: ReverbSettings, random: Random): AudioBuffer => {
+  const { predelay, brightness, reflections } = REVERB_CHARACTER[type];
+  const sampleRate = context.sampleRate;
+  const length = Math.ceil((predelay + decay) * sampleRate);
+  const impulse = context.createBuffer(2, length, sampleRate);
+  const start = Math.floor(predelay * sampleRate);
+
+  for (let channel = 0; channel < 2; channel++) {
+    const data = impulse.getChannelData(channel);
+    let smoothed = 0;
+    for (let i = start; i < length; i++) {
+      const progress = (i - start) / (length - start);
+      // -60 dB by the end of the decay
+      const envelope = Math.pow(10, -3 * progress);
+      const cutoff = brightness * (1 - 0.8 * progress);
+      smoothed += cutoff * (random() * 2 - 1 - smoothed);
+      data[i] = smoothed * envelope;
+    }
+    reflections.forEach((time, n) => {
+      // Offset each channel's reflections a little so the space sounds wide
+      const index = Math.floor((time + channel * 0.0011 * (n + 1)) * sampleRate);
+      if (index < length) data[index] += 0.7 / (n + 1);
+    });
+  }
+  return impulse;
+};
+
+const createReverb = (context: BaseAudioContext, output: AudioNode, settings: ReverbSettings, random: Random): AudioNode => {
+  const convolver = context.createConvolver();
+  convolver.buffer = createImpulseResponse(context, settings, random);
+  const wet = context.createGain();
+  wet.gain.value = equalPower(settings.mix).wet;
+  convolver.connect(wet).connect(output);
+  return convolver;
+};
+
+// Tempo-locked feedback delay; each repeat passes a low-pass so the echoes darken as they fade
+const createDelay = (context: BaseAudioContext, settings: DelaySettings, bpm: number): { input: AudioNode; output: AudioNode } => {
+  const time = (settings.beats * 60) / bpm;
+  const delay = context.createDelay(Math.max(1, time));
+  delay.delayTime.value = time;
+  const damping = context.createBiquadFilter();
+  damping.type = 'lowpass';
+  damping.frequency.value = 3500;
+  const feedback = context.createGain();
+  feedback.gain.value = Math.min(0.95, settings.feedback);
+  delay.connect(damping).connect(feedback).connect(delay);
+  const wet = context.createGain();
+  wet.gain.value = settings.mix;
+  damping.connect(wet);
+  return { input: delay, output: wet };
+};
+
+/**
+ * Pitch wobble from a short delay line whose length an LFO keeps changing, like a tape
+ * machine running unevenly. A faster, shallower flutter rides on top of the main wobble.
+ */
+const createWobble = (context: BaseAudioContext, settings: WobbleSettings): DelayNode => {
+  const baseDelay = 0.015;
+  const line = context.createDelay(0.05);
+  line.delayTime.value = baseDelay;
+
+  const modulate = (rate: number, cents: number) => {
+    const lfo = context.createOscillator();
+    lfo.frequency.value = rate;
+    const amount = context.createGain();
+    // Swinging the delay by ±d seconds at f Hz bends the pitch by up to 2πfd
+    amount.gain.value = Math.min(baseDelay * 0.9, cents / (CENTS_PER_RATIO * 2 * Math.PI * rate));
+    lfo.connect(amount).connect(line.delayTime);
+    lfo.start(0);
+  };
+  modulate(settings.rate, settings.depth);
+  modulate(settings.rate * 9.3, settings.depth * 0.15);
+  return line;
+};
+
+const createFilter = (context: BaseAudioContext, settings: FilterSettings, bpm: number): BiquadFilterNode => {
+  const filter = context.createBiquadFilter();
+  filter.type = settings.type;
+  filter.frequency.value = settings.cutoff;
+  filter.Q.value = 0.8;
+  if (settings.sweep) {
+    const lfo = context.createOscillator();
+    lfo.frequency.value = bpm / 60 / (SWEEP_BEATS * 2);
+    const amount = context.createGain();
+    amount.gain.value = SWEEP_OCTAVES * 1200;
+    lfo.connect(amount).connect(filter.detune);
+    lfo.start(0);
+  }
+  return filter;
+};
+
+// Ducks the mix on every beat and lets it swell back, as if keyed from a kick drum
+const schedulePump = (gain: AudioParam, settings: PumpSettings, bpm: number, length: number) => {
+  const beat = 60 / bpm;
+  gain.setValueAtTime(1, 0);
+  for (let time = 0; time < length; time += beat) {
+    gain.setValueAtTime(1, time);
+    gain.linearRampToValueAtTime(1 - settings.depth, time + 0.01);
+    gain.linearRampToValueAtTime(1, time + beat * 0.75);
+  }
+};
+
+/**
+ * Wires up the effects the spec asks for between a new input node and `output`:
+ * wobble, distortion, filter and pump in series, then delay and reverb as sends with a
+ * dry/wet balance. Bitcrushing can't be done with built-in nodes, so it's applied to the
+ * rendered buffer afterwards with `applyBitcrush`.
+ * @returns The node to connect the mix into.
+ */
+export const createEffectsRack = (context: BaseAudioContext, output: AudioNode, effects: EffectsSpec, { bpm, random, length, dry: withDry = true, wet: withWet = true }: EffectsContext): AudioNode => {
+  const input = context.createGain();
+  let chain: AudioNode = input;
+
+  if (effects.wobble) {
+    const wobble = createWobble(context, effects.wobble);
+    chain.connect(wobble);
+    chain = wobble;
+  }
+  if (effects.distortion) {
+    const shaper = context.createWaveShaper();
+    shaper.curve = distortionCurve(effects.distortion.drive);
+    shaper.oversample = '2x';
+    const makeup = context.createGain();
+    // The clipped signal is much denser, so bring it back to roughly the same loudness
+    makeup.gain.value = 1 / (1 + effects.distortion.drive * 0.08);
+    chain.connect(shaper).connect(makeup);
+    chain = makeup;
+  }
+  if (effects.filter) {
+    const filter = createFilter(context, effects.filter, bpm);
+    chain.connect(filter);
+    chain = filter;
+  }
+  if (effects.pump) {
+    const pump = context.createGain();
+    schedulePump(pump.gain, effects.pump, bpm, length);
+    chain.connect(pump);
+    chain = pump;
+  }
+
+  const dry = context.createGain();
+  dry.gain.value = !withDry ? 0 : effects.reverb ? equalPower(effects.reverb.mix).dry : 1;
+  chain.connect(dry).connect(output);
+  if (!withWet) return input;
+  // Echoes go through the reverb too, so they sit in the same space as the dry sound
+  const reverb = effects.reverb ? createReverb(context, output, effects.reverb, random) : null;
+  if (reverb) chain.connect(reverb);
+  if (effects.delay) {
+    const delay = createDelay(context, effects.delay, bpm);
+    chain.connect(delay.input);
+    delay.output.connect(output);
+    if (reverb) delay.output.connect(reverb);
+  }
+  return input;
+};
+
+/**
+ * Reduces the bit depth and effective sample rate of a rendered buffer in place.
+ */
+export const applyBitcrush = (buffer: AudioBuffer, { bits, downsample }: BitcrushSettings) => {
+  const levels = Math.pow(2, bits - 1);
+  const hold = Math.max(1, Math.round(downsample));
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    let held = 0;
+    for (let i = 0; i < data.length; i++) {
+      if (i % hold === 0) held = Math.round(data[i] * levels) / levels;
+      data[i] = held;
+    }
+  }
+};
+
+const percent = (value: number): string => `${Math.round(value * 100)}%`;
+
+const NOTE_VALUES: Record<number, string> = { 0.5: 'Eighth-note', 0.75: 'Dotted eighth', 1: 'Quarter-note' };
+
+/**
+ * Lists the effects that are on, with their settings in words, for showing in the UI.
+ */
+export const describeEffects = (effects: EffectsSpec): EffectSummary[] => {
+  const summaries: EffectSummary[] = [];
+  const { reverb, delay, wobble, filter, bitcrush, distortion, pump } = effects;
+  if (reverb) {
+    const type = reverb.type[0].toUpperCase() + reverb.type.slice(1);
+    summaries.push({ name: 'reverb', label: `${type} reverb`, detail: `${reverb.decay} s decay, ${percent(reverb.mix)} wet` });
+  }
+  if (delay) {
+    const noteValue = NOTE_VALUES[delay.beats] ?? `${delay.beats}-beat`;
+    summaries.push({ name: 'delay', label: `${noteValue} delay`, detail: `${percent(delay.feedback)} feedback, ${percent(delay.mix)} level` });
+  }
+  if (effects.detune) {
+    summaries.push({ name: 'detune', label: 'Detuned melody', detail: `${Math.abs(MELODY_DETUNE_CENTS)} cents flat` });
+  }
+  if (wobble) {
+    summaries.push({ name: 'wobble', label: wobble.rate > 3 ? 'Vibrato' : 'Tape wobble', detail: `${wobble.rate} Hz, ±${wobble.depth} cents` });
+  }
+  if (filter) {
+    const type = filter.type === 'lowpass' ? 'Low-pass' : 'High-pass';
+    summaries.push({ name: 'filter', label: `${type} filter`, detail: `${filter.cutoff} Hz${filter.sweep ? ', sweeping' : ''}` });
+  }
+  if (bitcrush) {
+    summaries.push({ name: 'bitcrush', label: 'Bitcrusher', detail: `${bitcrush.bits}-bit, 1/${bitcrush.downsample} sample rate` });
+  }
+  if (distortion) {
+    summaries.push({ name: 'distortion', label: distortion.drive >= 8 ? 'Distortion' : 'Saturation', detail: `drive ${distortion.drive}` });
+  }
+  if (pump) {
+    summaries.push({ name: 'pump', label: 'Sidechain pump', detail: `${percent(pump.depth)} dip on every beat` });
+  }
+  return summaries;
+};
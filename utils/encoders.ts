@@ -0,0 +1,123 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+import type { CueMarker } from '../types';
+import { bufferToWav, concatBytes } from './wav';
+import type { WavSampleFormat } from './wav';
+
+/**
+ * Tags written into exported files where the container supports them.
+ */
+export interface AudioMetadata {
+  title?: string;
+  comment?: string;
+  bpm?: number;
+  /** Section and scene starts, written as WAV cue points that editors show as markers. */
+  markers?: CueMarker[];
+}
+
+/**
+ * The parts of an AudioBuffer the encoders read. Plain channel arrays can be wrapped in
+ * this shape to encode audio where AudioBuffer doesn't exist, such as in a worker.
+ */
+export interface PcmAudio {
+  numberOfChannels: number;
+  /** Frames per channel. */
+  length: number;
+  sampleRate: number;
+  getChannelData: (channel: number) => Float32Array;
+}
+
+export type EncoderId = 'wav16' | 'wav24' | 'wav32f' | 'mp3';
+
+export interface AudioEncoder {
+  id: EncoderId;
+  label: string;
+  extension: string;
+  mimeType: string;
+  /** Sample rates the format can carry; the renderer is asked for one of these. */
+  sampleRates: number[];
+  encode: (buffer: PcmAudio, metadata: AudioMetadata) => Promise<Blob>;
+}
+
+const WAV_SAMPLE_RATES = [44100, 48000, 96000];
+const MP3_SAMPLE_RATES = [44100, 48000];
+const MP3_BITRATE = 192; // kbps
+const MP3_FRAME_SIZE = 1152;
+
+const textEncoder = new TextEncoder();
+
+// ID3v2.4 sizes are "synchsafe": 7 bits per byte
+const synchsafe = (size: number): number[] => [(size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f];
+
+const id3Frame = (id: string, payload: Uint8Array): Uint8Array =>
+  concatBytes([textEncoder.encode(id), new Uint8Array([...synchsafe(payload.length), 0, 0]), payload]);
+
+// ID3v2.4 tag with UTF-8 title, comment and tempo frames
+const id3Tag = (metadata: AudioMetadata): Uint8Array => {
+  const UTF8 = 3;
+  const frames: Uint8Array[] = [];
+  if (metadata.title) {
+    frames.push(id3Frame('TIT2', concatBytes([new Uint8Array([UTF8]), textEncoder.encode(metadata.title)])));
+  }
+  if (metadata.comment) {
+    frames.push(id3Frame('COMM', concatBytes([new Uint8Array([UTF8]), textEncoder.encode('eng'), new Uint8Array([0]), textEncoder.encode(metadata.comment)])));
+  }
+  if (metadata.bpm) {
+    frames.push(id3Frame('TBPM', concatBytes([new Uint8Array([UTF8]), textEncoder.encode(String(Math.round(metadata.bpm)))])));
+  }
+  const body = concatBytes(frames);
+  return concatBytes([textEncoder.encode('ID3'), new Uint8Array([4, 0, 0, ...synchsafe(body.length)]), body]);
+};
+
+const floatToInt16 = (data: Float32Array): Int16Array => {
+  const out = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const sample = Math.max(-1, Math.min(1, data[i]));
+    out[i] = sample < 0 ? sample * 32768 : sample * 32767;
+  }
+  return out;
+};
+
+const encodeMp3 = async (buffer: PcmAudio, metadata: AudioMetadata): Promise<Blob> => {
+  const isStereo = buffer.numberOfChannels > 1;
+  const encoder = new Mp3Encoder(isStereo ? 2 : 1, buffer.sampleRate, MP3_BITRATE);
+  const left = floatToInt16(buffer.getChannelData(0));
+  const right = isStereo ? floatToInt16(buffer.getChannelData(1)) : undefined;
+  const parts: Uint8Array[] = [id3Tag(metadata)];
+  for (let i = 0; i < left.length; i += MP3_FRAME_SIZE) {
+    const frame = encoder.encodeBuffer(left.subarray(i, i + MP3_FRAME_SIZE), right?.subarray(i, i + MP3_FRAME_SIZE));
+    if (frame.length > 0) parts.push(frame);
+  }
+  parts.push(encoder.flush());
+  return new Blob(parts, { type: 'audio/mpeg' });
+};
+
+const wavEncoder = (id: EncoderId, label: string, sampleFormat: WavSampleFormat): AudioEncoder => ({
+  id,
+  label,
+  extension: 'wav',
+  mimeType: 'audio/wav',
+  sampleRates: WAV_SAMPLE_RATES,
+  encode: async (buffer, metadata) => new Blob([bufferToWav(buffer, sampleFormat, metadata)], { type: 'audio/wav' }),
+});
+
+export const ENCODERS: AudioEncoder[] = [
+  wavEncoder('wav16', 'WAV 16-bit', 'pcm16'),
+  wavEncoder('wav24', 'WAV 24-bit', 'pcm24'),
+  wavEncoder('wav32f', 'WAV 32-bit float', 'float32'),
+  {
+    id: 'mp3',
+    label: `MP3 ${MP3_BITRATE} kbps`,
+    extension: 'mp3',
+    mimeType: 'audio/mpeg',
+    sampleRates: MP3_SAMPLE_RATES,
+    encode: encodeMp3,
+  },
+];
+
+export const getEncoder = (id: EncoderId): AudioEncoder => {
+  const encoder = ENCODERS.find(candidate => candidate.id === id);
+  if (!encoder) {
+    throw new Error(`Unknown audio encoder: ${id}`);
+  }
+  return encoder;
+};
@@ -0,0 +1,118 @@
+import type { BeatMap, DuckingSettings, MusicRecommendation } from '../types';
+import { LOUDNESS_TARGETS } from '../constants';
+import { renderTrack, renderStems } from './audioGenerator';
+import type { RenderOptions } from './audioGenerator';
+import { workerProcessor } from './audioProcessor';
+import { getEncoder } from './encoders';
+import type { AudioMetadata, EncoderId } from './encoders';
+import { getTrackSpec } from './musicSpec';
+import { beatMapToCsv, beatMapToCueSheet, beatMapToJson } from './beatMap';
+import { stemsOf, STEM_LABELS } from './stems';
+import { createZip } from './zip';
+import type { ZipEntry } from './zip';
+import { applyDucking, decodeAudioFile, mixVoiceover } from './voiceover';
+import type { VoiceoverSource } from './voiceover';
+
+export interface ExportOptions extends RenderOptions {
+  format: EncoderId;
+  /** Bundles each stem, aligned with the full mix, into a zip alongside it. */
+  stems?: boolean;
+  /** Ducks the music under the voiceover's speech, and adds a mix with the voiceover on top. */
+  ducking?: DuckingSettings;
+}
+
+/**
+ * Turns a track name into something safe to use as a file name on every OS.
+ */
+export const toFileName = (name: string): string => {
+  const cleaned = name.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '').replace(/\s+/g, ' ').trim();
+  return cleaned || 'track';
+};
+
+/**
+ * Saves a blob to the user's downloads via a temporary link.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Renders a track at full length and downloads it, named and tagged after the track.
+ * WAV exports carry its sections and scenes as markers. When the export has more than one
+ * file, such as stems or a voiceover mix, they're aligned and zipped together.
+ * @param track The recommendation to export.
+ * @param options Length, fades, looping, loudness, sample rate and file format of the
+ * export, whether to bundle stems with it, and how to duck it under a voiceover.
+ * @param voiceover Narration to duck the music under; needs `options.ducking`.
+ */
+export const exportTrack = async (track: MusicRecommendation, options: ExportOptions, voiceover?: VoiceoverSource | null) => {
+  const spec = getTrackSpec(track);
+  const encoder = getEncoder(options.format);
+  const sampleRate = encoder.sampleRates.includes(options.sampleRate ?? 0) ? options.sampleRate : encoder.sampleRates[0];
+  const renderOptions = { processor: workerProcessor, ...options, sampleRate };
+  const fileName = toFileName(track.trackName);
+  const stems = options.stems ? stemsOf(spec) : [];
+  const { mix, parts } = stems.length > 0
+    ? await renderStems(spec, track.seed, renderOptions, stems.map(stem => [stem]))
+    : { mix: await renderTrack(spec, track.seed, renderOptions), parts: [] };
+
+  const metadata: AudioMetadata = { title: track.trackName, comment: track.musicDescription, bpm: spec.bpm, markers: mix.beatMap.markers };
+  const encode = async (buffer: AudioBuffer, title: string) =>
+    new Uint8Array(await (await encoder.encode(buffer, { ...metadata, title })).arrayBuffer());
+  const ducking = voiceover && options.ducking;
+  const entries: ZipEntry[] = [];
+
+  if (ducking) {
+    // Every part is ducked the same way, so the stems still add up to the ducked mix
+    for (const buffer of [mix.buffer, ...parts]) applyDucking(buffer, voiceover.analysis.regions, ducking);
+    const voice = await decodeAudioFile(voiceover.file, mix.buffer.sampleRate);
+    const mixed = mixVoiceover(mix.buffer, voice, options.loudnessTarget ?? LOUDNESS_TARGETS[0].lufs);
+    entries.push({ name: `${fileName} (with voiceover).${encoder.extension}`, data: await encode(mixed, `${track.trackName} (with voiceover)`) });
+    entries.push({ name: `${fileName} (ducked).${encoder.extension}`, data: await encode(mix.buffer, `${track.trackName} (ducked)`) });
+  } else {
+    entries.push({ name: `${fileName}.${encoder.extension}`, data: await encode(mix.buffer, track.trackName) });
+  }
+  for (const [index, buffer] of parts.entries()) {
+    const label = STEM_LABELS[stems[index]];
+    entries.push({ name: `${fileName} - ${label}.${encoder.extension}`, data: await encode(buffer, `${track.trackName} (${label})`) });
+  }
+
+  if (entries.length === 1) {
+    downloadBlob(new Blob([entries[0].data], { type: encoder.mimeType }), entries[0].name);
+  } else {
+    downloadBlob(createZip(entries), `${fileName} ${parts.length > 0 ? 'stems' : 'with voiceover'}.zip`);
+  }
+};
+
+export type CueFormat = 'csv' | 'json' | 'cue';
+
+export const CUE_FORMATS: { id: CueFormat; label: string }[] = [
+  { id: 'csv', label: 'CSV markers' },
+  { id: 'json', label: 'JSON' },
+  { id: 'cue', label: 'Cue sheet' },
+];
+
+/**
+ * Downloads a track's beat map as markers for importing into an editor.
+ * @param track The recommendation the beat map belongs to.
+ * @param beatMap The beat map of the export it goes with.
+ * @param format CSV rows, the full JSON, or a cue sheet for the WAV export.
+ */
+export const exportCues = (track: MusicRecommendation, beatMap: BeatMap, format: CueFormat) => {
+  const fileName = toFileName(track.trackName);
+  const content = format === 'csv'
+    ? beatMapToCsv(beatMap)
+    : format === 'json'
+      ? beatMapToJson(beatMap, track.trackName)
+      : beatMapToCueSheet(beatMap, track.trackName, `${fileName}.wav`);
+  const mimeType = format === 'json' ? 'application/json' : format === 'csv' ? 'text/csv' : 'text/plain';
+  downloadBlob(new Blob([content], { type: mimeType }), `${fileName}.${format}`);
+};
@@ -0,0 +1,468 @@
+import type { HarmonyInstrument, BassInstrument, MelodyInstrument } from '../types';
+import type { Random } from './random';
+
+/** A synthesis technique and patch; several spec instruments can share one. */
+export type InstrumentVoice =
+  | 'lead'
+  | 'pad'
+  | 'synth'
+  | 'strings'
+  | 'choir'
+  | 'piano'
+  | 'fm-bell'
+  | 'music-box'
+  | 'glockenspiel'
+  | 'pluck'
+  | 'guitar'
+  | 'distorted-guitar'
+  | 'synth-bass'
+  | 'drone';
+
+export interface Instrument {
+  /**
+   * Schedules one note.
+   * @param frequency Pitch in Hz.
+   * @param time Start time in seconds on the context's clock.
+   * @param duration How long the note is held; struck and plucked voices ring on past it.
+   * @param velocity Loudness from 0 to 1.
+   */
+  play: (frequency: number, time: number, duration: number, velocity?: number) => void;
+}
+
+export interface InstrumentOptions {
+  context: BaseAudioContext;
+  output: AudioNode;
+  /** Source for noise excitation; fork one per layer so renders stay deterministic. */
+  random: Random;
+  /** Fixed pitch offset in cents, used for the "detuned" effect. */
+  detune?: number;
+}
+
+type InstrumentFactory = (options: InstrumentOptions) => Instrument;
+
+export type DrumSound = 'kick' | 'snare' | 'clap' | 'closed-hat' | 'open-hat' | 'low-tom' | 'high-tom' | 'shaker';
+
+export interface DrumKit {
+  /**
+   * Schedules one hit.
+   * @param sound Which drum to hit.
+   * @param time Start time in seconds on the context's clock.
+   * @param velocity Loudness from 0 to 1.
+   */
+  play: (sound: DrumSound, time: number, velocity?: number) => void;
+}
+
+export const HARMONY_VOICES: Record<HarmonyInstrument, InstrumentVoice> = {
+  pad: 'pad',
+  synth: 'synth',
+  strings: 'strings',
+  choir: 'choir',
+  piano: 'piano',
+  'distorted-guitar': 'distorted-guitar',
+};
+
+export const BASS_VOICES: Record<BassInstrument, InstrumentVoice> = {
+  synth: 'synth-bass',
+  drone: 'drone',
+};
+
+export const MELODY_VOICES: Record<MelodyInstrument, InstrumentVoice> = {
+  lead: 'lead',
+  piano: 'piano',
+  bell: 'fm-bell',
+  'music-box': 'music-box',
+  glockenspiel: 'glockenspiel',
+  pluck: 'pluck',
+  guitar: 'guitar',
+};
+
+// Exponential ramps can't reach zero, so struck notes decay to this instead
+const SILENT = 0.0001;
+
+// Ramps up to `peak`, holds until `releaseAt`, then fades out; returns when the note is silent.
+const sustainEnvelope = (param: AudioParam, time: number, attack: number, peak: number, releaseAt: number, release: number): number => {
+  const holdUntil = Math.max(time + attack, releaseAt);
+  param.setValueAtTime(0, time);
+  param.linearRampToValueAtTime(peak, time + attack);
+  param.setValueAtTime(peak, holdUntil);
+  param.linearRampToValueAtTime(0, holdUntil + release);
+  return holdUntil + release;
+};
+
+// A near-instant attack followed by an exponential decay, like a struck or plucked string.
+const strikeEnvelope = (param: AudioParam, time: number, peak: number, decay: number): number => {
+  param.setValueAtTime(0, time);
+  param.linearRampToValueAtTime(peak, time + 0.004);
+  param.exponentialRampToValueAtTime(SILENT, time + decay);
+  return time + decay;
+};
+
+const createLowpass = (context: BaseAudioContext, output: AudioNode, cutoff: number, q = 0.7): BiquadFilterNode => {
+  const filter = context.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = cutoff;
+  filter.Q.value = q;
+  filter.connect(output);
+  return filter;
+};
+
+// Slow pitch wobble shared by every note of a voice, in cents
+const createVibrato = (context: BaseAudioContext, rate: number, depth: number): AudioNode => {
+  const lfo = context.createOscillator();
+  lfo.frequency.value = rate;
+  const amount = context.createGain();
+  amount.gain.value = depth;
+  lfo.connect(amount);
+  lfo.start(0);
+  return amount;
+};
+
+/**
+ * A single oscillator through a shared low-pass filter: the classic synth pad, lead and bass sounds.
+ */
+const subtractive = (type: OscillatorType, cutoff: number, attack: number, release: number): InstrumentFactory =>
+  ({ context, output, detune = 0 }) => {
+    const filter = createLowpass(context, output, cutoff);
+    return {
+      play: (frequency, time, duration, velocity = 1) => {
+        const osc = context.createOscillator();
+        osc.type = type;
+        osc.frequency.value = frequency;
+        osc.detune.value = detune;
+        const env = context.createGain();
+        const end = sustainEnvelope(env.gain, time, attack, velocity, time + duration, release);
+        osc.connect(env).connect(filter);
+        osc.start(time);
+        osc.stop(end);
+      },
+    };
+  };
+
+/**
+ * A section of detuned sawtooths with a slow bow-like attack and shared vibrato.
+ */
+const strings: InstrumentFactory = ({ context, output, detune = 0 }) => {
+  const UNISON_CENTS = [-14, -7, 0, 7, 14];
+  const filter = createLowpass(context, output, 2200, 0.5);
+  const vibrato = createVibrato(context, 5.5, 6);
+  return {
+    play: (frequency, time, duration, velocity = 1) => {
+      const env = context.createGain();
+      const end = sustainEnvelope(env.gain, time, 0.25, velocity * 0.4, time + duration, 0.4);
+      env.connect(filter);
+      UNISON_CENTS.forEach(cents => {
+        const osc = context.createOscillator();
+        osc.type = 'sawtooth';
+        osc.frequency.value = frequency;
+        osc.detune.value = detune + cents;
+        vibrato.connect(osc.detune);
+        osc.connect(env);
+        osc.start(time);
+        osc.stop(end);
+      });
+    },
+  };
+};
+
+/**
+ * Sawtooth voices shaped by a bank of band-pass filters at the formants of an "ah" vowel.
+ */
+const choir: InstrumentFactory = ({ context, output, detune = 0 }) => {
+  const FORMANTS = [
+    { frequency: 800, q: 8, gain: 1 },
+    { frequency: 1150, q: 10, gain: 0.5 },
+    { frequency: 2900, q: 12, gain: 0.25 },
+  ];
+  const input = context.createGain();
+  // Band-pass filters pass little energy, so make up the level afterwards
+  const makeup = context.createGain();
+  makeup.gain.value = 3;
+  makeup.connect(output);
+  FORMANTS.forEach(formant => {
+    const filter = context.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.frequency.value = formant.frequency;
+    filter.Q.value = formant.q;
+    const level = context.createGain();
+    level.gain.value = formant.gain;
+    input.connect(filter).connect(level).connect(makeup);
+  });
+  const vibrato = createVibrato(context, 4.8, 12);
+
+  return {
+    play: (frequency, time, duration, velocity = 1) => {
+      const env = context.createGain();
+      const end = sustainEnvelope(env.gain, time, 0.4, velocity * 0.6, time + duration, 0.5);
+      env.connect(input);
+      [-8, 8].forEach(cents => {
+        const osc = context.createOscillator();
+        osc.type = 'sawtooth';
+        osc.frequency.value = frequency;
+        osc.detune.value = detune + cents;
+        vibrato.connect(osc.detune);
+        osc.connect(env);
+        osc.start(time);
+        osc.stop(end);
+      });
+    },
+  };
+};
+
+/**
+ * Additive piano: a handful of slightly stretched partials, the higher ones dying away faster.
+ */
+const piano: InstrumentFactory = ({ context, output, detune = 0 }) => {
+  const PARTIALS = 5;
+  // String stiffness pushes each partial a little sharp of the harmonic series
+  const INHARMONICITY = 0.0004;
+  return {
+    play: (frequency, time, duration, velocity = 1) => {
+      const decay = Math.max(duration, 2.2);
+      for (let n = 1; n <= PARTIALS; n++) {
+        const osc = context.createOscillator();
+        osc.frequency.value = n * frequency * Math.sqrt(1 + INHARMONICITY * n * n);
+        osc.detune.value = detune;
+        const env = context.createGain();
+        const end = strikeEnvelope(env.gain, time, (velocity * 0.5) / Math.pow(n, 1.2), decay / Math.pow(n, 0.7));
+        osc.connect(env).connect(output);
+        osc.start(time);
+        osc.stop(end);
+      }
+    },
+  };
+};
+
+/**
+ * Two-operator FM: a sine modulating a sine, with the modulation fading faster than the tone.
+ * Non-integer ratios give the clangorous partials of bells and metal bars.
+ */
+const fm = (ratio: number, index: number, decay: number, octave = 1): InstrumentFactory =>
+  ({ context, output, detune = 0 }) => ({
+    play: (frequency, time, duration, velocity = 1) => {
+      const pitch = frequency * octave;
+      const ring = Math.max(duration, decay);
+      const carrier = context.createOscillator();
+      carrier.frequency.value = pitch;
+      carrier.detune.value = detune;
+      const modulator = context.createOscillator();
+      modulator.frequency.value = pitch * ratio;
+      modulator.detune.value = detune;
+      const modulation = context.createGain();
+      modulation.gain.setValueAtTime(pitch * index, time);
+      modulation.gain.exponentialRampToValueAtTime(pitch * index * 0.02, time + ring * 0.6);
+      modulator.connect(modulation).connect(carrier.frequency);
+
+      const env = context.createGain();
+      const end = strikeEnvelope(env.gain, time, velocity * 0.5, ring);
+      carrier.connect(env).connect(output);
+      [carrier, modulator].forEach(osc => {
+        osc.start(time);
+        osc.stop(end);
+      });
+    },
+  });
+
+/**
+ * Karplus-Strong string: a burst of noise recirculated through a delay line the length of
+ * one period, averaged each pass so it loses its high end like a real plucked string.
+ */
+const renderPluckedString = (context: BaseAudioContext, random: Random, frequency: number, seconds: number, feedback: number, brightness: number): AudioBuffer => {
+  const length = Math.ceil(seconds * context.sampleRate);
+  const buffer = context.createBuffer(1, length, context.sampleRate);
+  const data = buffer.getChannelData(0);
+  // The two-tap average delays by half a sample, so shorten the line to stay in tune
+  const period = Math.max(2, Math.round(context.sampleRate / frequency - 0.5));
+
+  let smoothed = 0;
+  for (let i = 0; i < Math.min(period, length); i++) {
+    smoothed = brightness * (random() * 2 - 1) + (1 - brightness) * smoothed;
+    data[i] = smoothed;
+  }
+  for (let i = period; i < length; i++) {
+    const older = i > period ? data[i - period - 1] : 0;
+    data[i] = feedback * 0.5 * (data[i - period] + older);
+  }
+  return buffer;
+};
+
+const plucked = (feedback: number, brightness: number, ring: number, cutoff: number): InstrumentFactory =>
+  ({ context, output, random, detune = 0 }) => {
+    const filter = createLowpass(context, output, cutoff);
+    // Every repeat of a pitch reuses the same string rather than simulating it again
+    const pitchBuffers = new Map<number, AudioBuffer>();
+    return {
+      play: (frequency, time, duration, velocity = 1) => {
+        let buffer = pitchBuffers.get(frequency);
+        if (!buffer) {
+          buffer = renderPluckedString(context, random, frequency, ring, feedback, brightness);
+          pitchBuffers.set(frequency, buffer);
+        }
+        const source = context.createBufferSource();
+        source.buffer = buffer;
+        source.detune.value = detune;
+        const env = context.createGain();
+        env.gain.value = velocity * 0.7;
+        source.connect(env).connect(filter);
+        source.start(time);
+      },
+    };
+  };
+
+/** Soft-clipping waveshaper curve; higher drive means more distortion. */
+export const distortionCurve = (drive: number): Float32Array<ArrayBuffer> => {
+  const curve = new Float32Array(1024);
+  for (let i = 0; i < curve.length; i++) {
+    const x = (i / (curve.length - 1)) * 2 - 1;
+    curve[i] = Math.tanh(drive * x) / Math.tanh(drive);
+  }
+  return curve;
+};
+
+/**
+ * Sawtooth "strings" driven through a waveshaper and a speaker-cabinet low-pass. Chord notes
+ * share the amp, so they distort together as they would through one guitar amp.
+ */
+const distortedGuitar: InstrumentFactory = ({ context, output, detune = 0 }) => {
+  const amp = context.createWaveShaper();
+  amp.curve = distortionCurve(12);
+  amp.oversample = '4x';
+  const cabinet = createLowpass(context, output, 3200, 1);
+  const level = context.createGain();
+  level.gain.value = 0.35;
+  amp.connect(level).connect(cabinet);
+  return {
+    play: (frequency, time, duration, velocity = 1) => {
+      const env = context.createGain();
+      const end = sustainEnvelope(env.gain, time, 0.005, velocity * 0.5, time + duration, 0.15);
+      env.connect(amp);
+      [0, 10].forEach(cents => {
+        const osc = context.createOscillator();
+        osc.type = 'sawtooth';
+        osc.frequency.value = frequency;
+        osc.detune.value = detune + cents;
+        osc.connect(env);
+        osc.start(time);
+        osc.stop(end);
+      });
+    },
+  };
+};
+
+// Seconds of white noise shared by every noise-based drum; hits start at random offsets into it
+const NOISE_SECONDS = 1;
+
+/**
+ * Sets up a synthesized drum kit that plays into `options.output`. Every noisy sound reads
+ * from one shared noise buffer, and each sound has its own filter, built once.
+ */
+export const createDrumKit = ({ context, output, random }: Omit<InstrumentOptions, 'detune'>): DrumKit => {
+  const noise = context.createBuffer(1, Math.ceil(NOISE_SECONDS * context.sampleRate), context.sampleRate);
+  const samples = noise.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = random() * 2 - 1;
+  }
+
+  const createFilter = (type: BiquadFilterType, frequency: number, q: number): BiquadFilterNode => {
+    const filter = context.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = frequency;
+    filter.Q.value = q;
+    filter.connect(output);
+    return filter;
+  };
+  const snareFilter = createFilter('highpass', 1500, 0.7);
+  const clapFilter = createFilter('bandpass', 1200, 1.2);
+  const hatFilter = createFilter('highpass', 7000, 0.7);
+  const shakerFilter = createFilter('bandpass', 6000, 1);
+
+  const noiseBurst = (destination: AudioNode, time: number, peak: number, decay: number, attack = 0.002) => {
+    const source = context.createBufferSource();
+    source.buffer = noise;
+    const env = context.createGain();
+    env.gain.setValueAtTime(0, time);
+    env.gain.linearRampToValueAtTime(peak, time + attack);
+    env.gain.exponentialRampToValueAtTime(SILENT, time + attack + decay);
+    source.connect(env).connect(destination);
+    source.start(time, random() * (NOISE_SECONDS - decay - attack));
+    source.stop(time + attack + decay);
+  };
+
+  // A sine swept down in pitch: kicks and toms
+  const pitchDrop = (time: number, from: number, to: number, peak: number, decay: number) => {
+    const osc = context.createOscillator();
+    osc.frequency.setValueAtTime(from, time);
+    osc.frequency.exponentialRampToValueAtTime(to, time + decay * 0.5);
+    const env = context.createGain();
+    const end = strikeEnvelope(env.gain, time, peak, decay);
+    osc.connect(env).connect(output);
+    osc.start(time);
+    osc.stop(end);
+  };
+
+  return {
+    play: (sound, time, velocity = 1) => {
+      switch (sound) {
+        case 'kick':
+          pitchDrop(time, 150, 45, velocity, 0.35);
+          break;
+        case 'snare': {
+          noiseBurst(snareFilter, time, velocity * 0.7, 0.16);
+          // The drum shell's body under the wires
+          const body = context.createOscillator();
+          body.type = 'triangle';
+          body.frequency.value = 185;
+          const env = context.createGain();
+          const end = strikeEnvelope(env.gain, time, velocity * 0.4, 0.08);
+          body.connect(env).connect(output);
+          body.start(time);
+          body.stop(end);
+          break;
+        }
+        case 'clap':
+          // Several hands a few milliseconds apart, then the room
+          [0, 0.011, 0.022].forEach(offset => noiseBurst(clapFilter, time + offset, velocity * 0.6, 0.01));
+          noiseBurst(clapFilter, time + 0.03, velocity * 0.5, 0.15);
+          break;
+        case 'closed-hat':
+          noiseBurst(hatFilter, time, velocity * 0.35, 0.045);
+          break;
+        case 'open-hat':
+          noiseBurst(hatFilter, time, velocity * 0.3, 0.3);
+          break;
+        case 'low-tom':
+          pitchDrop(time, 130, 80, velocity * 0.8, 0.4);
+          break;
+        case 'high-tom':
+          pitchDrop(time, 220, 150, velocity * 0.7, 0.3);
+          break;
+        case 'shaker':
+          noiseBurst(shakerFilter, time, velocity * 0.25, 0.06, 0.015);
+          break;
+      }
+    },
+  };
+};
+
+const INSTRUMENTS: Record<InstrumentVoice, InstrumentFactory> = {
+  lead: subtractive('triangle', 8000, 0.05, 0.15),
+  pad: subtractive('sawtooth', 800, 0.05, 0.1),
+  synth: subtractive('square', 800, 0.02, 0.1),
+  strings,
+  choir,
+  piano,
+  'fm-bell': fm(3.5, 2.5, 2.5),
+  'music-box': fm(5.8, 1.2, 1.2, 2),
+  glockenspiel: fm(2.76, 1.5, 1.6, 2),
+  pluck: plucked(0.994, 0.5, 1.5, 3000),
+  guitar: plucked(0.997, 0.9, 2, 4500),
+  'distorted-guitar': distortedGuitar,
+  'synth-bass': subtractive('square', 400, 0.01, 0.05),
+  drone: subtractive('sine', 400, 0.3, 0.3),
+};
+
+/**
+ * Sets up an instrument that plays into `options.output`. Shared parts such as filter
+ * banks and amps are built once here, so create one instrument per layer, not per note.
+ */
+export const createInstrument = (voice: InstrumentVoice, options: InstrumentOptions): Instrument =>
+  INSTRUMENTS[voice](options);
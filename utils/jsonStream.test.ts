@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { createJsonArrayStreamParser } from './jsonStream';
+
+// Feeds the chunks one at a time and collects every item the parser emits
+const parseChunks = (chunks: string[]): unknown[] => {
+  const parser = createJsonArrayStreamParser();
+  const items = chunks.flatMap(chunk => parser.push(chunk));
+  parser.finish();
+  return items;
+};
+
+// Splits text into pieces of the given size, to cut tokens at every possible place
+const splitEvery = (text: string, size: number): string[] =>
+  Array.from({ length: Math.ceil(text.length / size) }, (_, index) => text.slice(index * size, (index + 1) * size));
+
+describe('createJsonArrayStreamParser', () => {
+  const cases: { name: string; text: string; items: unknown[] }[] = [
+    {
+      name: 'a bare array',
+      text: '[{"trackName":"a"},{"trackName":"b"}]',
+      items: [{ trackName: 'a' }, { trackName: 'b' }],
+    },
+    {
+      name: 'an array inside a wrapper object',
+      text: '{"tracks":[{"trackName":"a"}]}',
+      items: [{ trackName: 'a' }],
+    },
+    {
+      name: 'a Markdown code fence around the JSON',
+      text: '```json\n[{"trackName":"a"}]\n```',
+      items: [{ trackName: 'a' }],
+    },
+    {
+      name: 'braces and escaped quotes inside strings',
+      text: '[{"trackName":"a } \\" {","mood":"b"}]',
+      items: [{ trackName: 'a } " {', mood: 'b' }],
+    },
+    {
+      name: 'items holding arrays of objects',
+      text: '[{"trackName":"a","scenes":[{"bpm":90},{"bpm":120,"layers":{"drums":null}}]},{"trackName":"b","scenes":[]}]',
+      items: [
+        { trackName: 'a', scenes: [{ bpm: 90 }, { bpm: 120, layers: { drums: null } }] },
+        { trackName: 'b', scenes: [] },
+      ],
+    },
+    {
+      name: 'brackets inside strings of a nested item',
+      text: '{"tracks":[{"trackName":"[a]","scenes":[{"label":"} ] { ["}]}]}',
+      items: [{ trackName: '[a]', scenes: [{ label: '} ] { [' }] }],
+    },
+    {
+      name: 'an empty array',
+      text: '[]',
+      items: [],
+    },
+  ];
+
+  it.each(cases)('reads $name in one chunk', ({ text, items }) => {
+    expect(parseChunks([text])).toEqual(items);
+  });
+
+  it.each(cases)('reads $name one character at a time', ({ text, items }) => {
+    expect(parseChunks(splitEvery(text, 1))).toEqual(items);
+  });
+
+  it('emits each item as soon as its closing brace arrives', () => {
+    const parser = createJsonArrayStreamParser();
+    expect(parser.push('[{"trackName":"a"')).toEqual([]);
+    expect(parser.push('},{"trackName"')).toEqual([{ trackName: 'a' }]);
+    expect(parser.push(':"b"}]')).toEqual([{ trackName: 'b' }]);
+    expect(() => parser.finish()).not.toThrow();
+  });
+
+  it('emits an item with scenes only once the whole item has arrived', () => {
+    const parser = createJsonArrayStreamParser();
+    expect(parser.push('[{"trackName":"a","scenes":[{"bpm":90}')).toEqual([]);
+    expect(parser.push(',{"bpm":120}]')).toEqual([]);
+    expect(parser.push('}]')).toEqual([{ trackName: 'a', scenes: [{ bpm: 90 }, { bpm: 120 }] }]);
+  });
+
+  it.each([
+    ['no JSON at all', 'Sorry, I cannot help with that.', /did not contain any JSON/],
+    ['JSON cut off in an item', '[{"trackName":"a"},{"track', /middle of the JSON/],
+    ['JSON cut off in a string', '[{"trackName":"a', /middle of the JSON/],
+  ])('rejects %s when finished', (_, text, message) => {
+    const parser = createJsonArrayStreamParser();
+    parser.push(text);
+    expect(() => parser.finish()).toThrow(message);
+  });
+});
@@ -0,0 +1,71 @@
+export interface JsonArrayStreamParser {
+  /** Feeds the next piece of text and returns the array items it completed. */
+  push: (chunk: string) => unknown[];
+  /** Signals the end of the stream; throws if the JSON was cut off or never started. */
+  finish: () => void;
+}
+
+/**
+ * Incrementally extracts the objects of a JSON array while the text is still arriving,
+ * so each item can be shown as soon as its closing brace streams in. Works for a bare
+ * array (`[{...}, {...}]`) as well as an array nested in a wrapper (`{"tracks": [...]}`);
+ * text outside the JSON, such as a Markdown code fence, is ignored.
+ */
+export const createJsonArrayStreamParser = (): JsonArrayStreamParser => {
+  let text = '';
+  let position = 0;
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let sawJson = false;
+  // Offset where the array item currently being read started, or -1 between items
+  let itemStart = -1;
+  // Stack depth of the array that item belongs to; objects nested in it close deeper
+  let itemDepth = -1;
+
+  const push = (chunk: string): unknown[] => {
+    text += chunk;
+    const items: unknown[] = [];
+
+    for (; position < text.length; position++) {
+      const char = text[position];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        if (stack.length > 0) inString = true;
+      } else if (char === '{' || char === '[') {
+        if (char === '{' && itemStart === -1 && stack[stack.length - 1] === '[') {
+          itemStart = position;
+          itemDepth = stack.length;
+        }
+        stack.push(char);
+        sawJson = true;
+      } else if (char === '}' || char === ']') {
+        stack.pop();
+        if (char === '}' && itemStart !== -1 && stack.length === itemDepth) {
+          items.push(JSON.parse(text.slice(itemStart, position + 1)));
+          itemStart = -1;
+        }
+      }
+    }
+
+    return items;
+  };
+
+  const finish = () => {
+    if (!sawJson) {
+      throw new SyntaxError("The model response did not contain any JSON.");
+    }
+    if (stack.length > 0 || inString) {
+      throw new SyntaxError("The model response ended in the middle of the JSON.");
+    }
+  };
+
+  return { push, finish };
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { PcmAudio } from './encoders';
+import { TRUE_PEAK_CEILING, compressBus, masterMix, measureLoudness, measureTruePeak } from './mastering';
+
+const SAMPLE_RATE = 48000;
+
+// Stereo audio with the same signal in both channels
+const stereo = (seconds: number, sample: (time: number) => number): PcmAudio => {
+  const data = Float32Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, (_, i) => sample(i / SAMPLE_RATE));
+  const channels = [data, data.slice()];
+  return { numberOfChannels: 2, length: data.length, sampleRate: SAMPLE_RATE, getChannelData: channel => channels[channel] };
+};
+
+const maxDifference = (a: Float32Array, b: Float32Array): number =>
+  a.reduce((max, sample, i) => Math.max(max, Math.abs(sample - b[i])), 0);
+
+const sine = (frequency: number, db: number) => (time: number) => Math.pow(10, db / 20) * Math.sin(2 * Math.PI * frequency * time);
+
+describe('measureLoudness', () => {
+  // BS.1770 calibrates K-weighting so a 1 kHz sine in both channels reads its own level
+  it.each([-6, -20, -36])('reads a 1 kHz sine at %i dBFS as that many LUFS', (db) => {
+    expect(measureLoudness(stereo(3, sine(1000, db)))).toBeCloseTo(db, 0);
+  });
+
+  it('gates out silence', () => {
+    expect(measureLoudness(stereo(3, () => 0))).toBe(-Infinity);
+  });
+});
+
+describe('masterMix', () => {
+  it.each([
+    { name: 'a quiet sine up', db: -34, target: -14 },
+    { name: 'a loud sine down', db: -3, target: -23 },
+    { name: 'a sine to a broadcast target', db: -20, target: -16 },
+  ])('brings $name to the target loudness', ({ db, target }) => {
+    const audio = stereo(3, sine(1000, db));
+    const { loudness } = masterMix(audio, target);
+    expect(Math.abs(loudness.integratedLufs - target)).toBeLessThan(0.5);
+    expect(measureLoudness(audio)).toBeCloseTo(loudness.integratedLufs, 5);
+  });
+
+  it('boosts near-silence only so far', () => {
+    const { loudness } = masterMix(stereo(3, sine(1000, -60)), -14);
+    expect(loudness.gain).toBe(24);
+    expect(loudness.integratedLufs).toBeCloseTo(-36, 0);
+  });
+
+  it.each([
+    { name: 'a sine pushed past full scale', signal: sine(1000, -6), target: -3 },
+    { name: 'a high sine between samples', signal: sine(11025, -6), target: -4 },
+    { name: 'square-wave bursts', signal: (time: number) => (Math.floor(time * 4) % 2 === 0 ? Math.sign(Math.sin(2 * Math.PI * 220 * time)) * 0.3 : 0), target: -6 },
+  ])('keeps true peaks of $name under the ceiling', ({ signal, target }) => {
+    const audio = stereo(3, signal);
+    const { loudness } = masterMix(audio, target);
+    expect(loudness.truePeak).toBeLessThanOrEqual(TRUE_PEAK_CEILING + 0.1);
+    expect(measureTruePeak(audio)).toBeLessThanOrEqual(TRUE_PEAK_CEILING + 0.1);
+  });
+
+  it('leaves silence alone', () => {
+    const audio = stereo(1, () => 0);
+    const { loudness } = masterMix(audio, -14);
+    expect(loudness.gain).toBe(0);
+    expect(audio.getChannelData(0).every(sample => sample === 0)).toBe(true);
+  });
+
+  it('gives parts of a mix gains that add back up to the mastered mix', () => {
+    // Fades in, so the limiter never has to clamp at the very first frame
+    const fade = (time: number) => Math.min(1, time * 4);
+    const low = (time: number) => fade(time) * sine(110, -6)(time);
+    const high = (time: number) => fade(time) * sine(2500, -9)(time);
+    const mix = stereo(2, time => low(time) + high(time));
+    const lowPart = stereo(2, low);
+    const highPart = stereo(2, high);
+
+    const { dynamics } = masterMix(mix, -8);
+    masterMix(lowPart, dynamics);
+    masterMix(highPart, dynamics);
+
+    const mixed = mix.getChannelData(0);
+    const summed = lowPart.getChannelData(0).map((sample, i) => sample + highPart.getChannelData(0)[i]);
+    expect(maxDifference(summed, mixed)).toBeLessThan(1e-5);
+  });
+});
+
+describe('compressBus', () => {
+  it('leaves audio under the threshold alone', () => {
+    const audio = stereo(1, sine(440, -30));
+    const before = audio.getChannelData(0).slice();
+    compressBus(audio);
+    expect(maxDifference(audio.getChannelData(0), before)).toBeLessThan(1e-6);
+  });
+
+  it('turns down audio over the threshold, and the same envelope reproduces it', () => {
+    const audio = stereo(1, sine(440, -3));
+    const copy = stereo(1, sine(440, -3));
+    const envelope = compressBus(audio);
+    expect(envelope[envelope.length - 1]).toBeLessThan(0.5);
+    compressBus(copy, envelope);
+    expect(copy.getChannelData(1)).toEqual(audio.getChannelData(1));
+  });
+});
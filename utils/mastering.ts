@@ -0,0 +1,315 @@
+import type { LoudnessReport } from '../types';
+import type { PcmAudio } from './encoders';
+
+/** Highest inter-sample peak the limiter lets through, in dBTP. */
+export const TRUE_PEAK_CEILING = -1;
+
+// BS.1770 gating: 400 ms blocks overlapping by 75%
+const BLOCK_SECONDS = 0.4;
+const HOP_SECONDS = 0.1;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+// The limiter starts pulling the gain down this far ahead of a peak, and recovers this slowly
+const LOOKAHEAD_SECONDS = 0.005;
+const RELEASE_SECONDS = 0.08;
+// Never push a near-silent mix up by more than this, in dB
+const MAX_GAIN_DB = 24;
+
+// Gentle bus compression that glues the layers together before normalizing
+const COMPRESSOR_THRESHOLD_DB = -18;
+const COMPRESSOR_KNEE_DB = 6;
+const COMPRESSOR_RATIO = 3;
+const COMPRESSOR_ATTACK_SECONDS = 0.01;
+const COMPRESSOR_RELEASE_SECONDS = 0.25;
+
+/**
+ * The gain changes mastering made to a mix, so parts of it can be given exactly the same
+ * and still add up to it.
+ */
+export interface MixDynamics {
+  /** Normalization gain, in dB. */
+  gain: number;
+  /** The limiter's gain at each frame. */
+  limiting: Float32Array;
+}
+
+/** Normalized biquad coefficients: feed-forward b0–b2 and feedback a1–a2 (a0 is 1). */
+export interface Biquad {
+  b: [number, number, number];
+  a: [number, number];
+}
+
+const toDb = (gain: number): number => 20 * Math.log10(gain);
+const fromDb = (db: number): number => Math.pow(10, db / 20);
+
+/**
+ * The two-stage K-weighting filter from ITU-R BS.1770 (a high shelf for the head's
+ * acoustic effect, then a high-pass), designed for any sample rate.
+ */
+const kWeighting = (sampleRate: number): Biquad[] => {
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+
+  const passK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const passQ = 0.5003270373238773;
+  const passA0 = 1 + passK / passQ + passK * passK;
+
+  return [
+    {
+      b: [
+        (vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+        (2 * (shelfK * shelfK - vh)) / shelfA0,
+        (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+      ],
+      a: [(2 * (shelfK * shelfK - 1)) / shelfA0, (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0],
+    },
+    {
+      b: [1, -2, 1],
+      a: [(2 * (passK * passK - 1)) / passA0, (1 - passK / passQ + passK * passK) / passA0],
+    },
+  ];
+};
+
+/**
+ * Runs a signal through a biquad filter, returning the filtered copy.
+ */
+export const applyBiquad = (input: Float32Array, { b, a }: Biquad): Float32Array => {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    output[i] = y;
+  }
+  return output;
+};
+
+const blockLoudness = (power: number): number => -0.691 + 10 * Math.log10(power);
+
+/**
+ * Measures integrated loudness per ITU-R BS.1770-4 / EBU R128: K-weighted, gated mean
+ * power over 400 ms blocks.
+ * @returns Loudness in LUFS; -Infinity for silence.
+ */
+export const measureLoudness = (audio: PcmAudio): number => {
+  const filters = kWeighting(audio.sampleRate);
+  const weighted = Array.from({ length: audio.numberOfChannels }, (_, channel) =>
+    filters.reduce((signal, filter) => applyBiquad(signal, filter), audio.getChannelData(channel)));
+
+  const blockLength = Math.min(audio.length, Math.round(BLOCK_SECONDS * audio.sampleRate));
+  const hop = Math.round(HOP_SECONDS * audio.sampleRate);
+  if (blockLength === 0) return -Infinity;
+
+  const powers: number[] = [];
+  for (let start = 0; start + blockLength <= audio.length; start += hop) {
+    let power = 0;
+    for (const samples of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + blockLength; i++) {
+        sum += samples[i] * samples[i];
+      }
+      // Left and right are weighted equally; surround channels don't occur here
+      power += sum / blockLength;
+    }
+    powers.push(power);
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const audible = powers.filter(power => blockLoudness(power) > ABSOLUTE_GATE);
+  if (audible.length === 0) return -Infinity;
+  const relativeGate = blockLoudness(mean(audible)) + RELATIVE_GATE;
+  const gated = audible.filter(power => blockLoudness(power) > relativeGate);
+  return blockLoudness(mean(gated));
+};
+
+// Catmull-Rom interpolation between p1 and p2, a cheap stand-in for the 4x oversampling
+// filter BS.1770 uses to find peaks that fall between samples
+const interpolate = (p0: number, p1: number, p2: number, p3: number, t: number): number =>
+  p1 + 0.5 * t * (p2 - p0 + t * (2 * p0 - 5 * p1 + 4 * p2 - p3 + t * (3 * (p1 - p2) + p3 - p0)));
+
+// The largest absolute value the waveform reaches in each frame, across channels and
+// between samples
+const framePeaks = (audio: PcmAudio): Float32Array => {
+  const peaks = new Float32Array(audio.length);
+  for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+    const data = audio.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      const p0 = data[Math.max(0, i - 1)];
+      const p1 = data[i];
+      const p2 = data[Math.min(data.length - 1, i + 1)];
+      const p3 = data[Math.min(data.length - 1, i + 2)];
+      let peak = Math.abs(p1);
+      for (const t of [0.25, 0.5, 0.75]) {
+        peak = Math.max(peak, Math.abs(interpolate(p0, p1, p2, p3, t)));
+      }
+      peaks[i] = Math.max(peaks[i], peak);
+    }
+  }
+  return peaks;
+};
+
+/**
+ * Estimates the true (inter-sample) peak level.
+ * @returns The peak in dBTP; -Infinity for silence.
+ */
+export const measureTruePeak = (audio: PcmAudio): number =>
+  toDb(framePeaks(audio).reduce((max, peak) => Math.max(max, peak), 0));
+
+/**
+ * Look-ahead true-peak limiter. The gain needed at each frame is brought forward by the
+ * look-ahead with a sliding minimum, smoothed with a moving average so it ramps down
+ * rather than jumping, and released exponentially.
+ * @returns The limiter's gain at each frame; apply it with `applyGains`.
+ */
+const limiterGains = (audio: PcmAudio, ceilingDb: number): Float32Array => {
+  const ceiling = fromDb(ceilingDb);
+  const peaks = framePeaks(audio);
+  const lookahead = Math.max(1, Math.round(LOOKAHEAD_SECONDS * audio.sampleRate));
+  const release = 1 - Math.exp(-1 / (RELEASE_SECONDS * audio.sampleRate));
+  const length = audio.length;
+
+  const required = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    required[i] = peaks[i] > ceiling ? ceiling / peaks[i] : 1;
+  }
+
+  // Minimum of `required` over the next `lookahead` frames, via a monotonic queue kept
+  // in a ring buffer; it never holds more than the window
+  const upcoming = new Float32Array(length);
+  const capacity = lookahead + 2;
+  const queue = new Int32Array(capacity);
+  let head = 0;
+  let size = 0;
+  for (let i = length - 1; i >= 0; i--) {
+    while (size > 0 && required[queue[(head + size - 1) % capacity]] >= required[i]) size--;
+    queue[(head + size) % capacity] = i;
+    size++;
+    if (queue[head] > i + lookahead) {
+      head = (head + 1) % capacity;
+      size--;
+    }
+    upcoming[i] = required[queue[head]];
+  }
+
+  // Averaging the minima over the look-ahead never exceeds the gain a frame requires,
+  // since every minimum in the window already includes that frame
+  const gains = new Float32Array(length);
+  // Frames before the start count as needing no reduction
+  let windowSum = lookahead;
+  let gain = 1;
+  for (let i = 0; i < length; i++) {
+    windowSum += upcoming[i] - (i >= lookahead ? upcoming[i - lookahead] : 1);
+    gain = Math.min(windowSum / lookahead, gain + (1 - gain) * release);
+    gains[i] = gain;
+  }
+  return gains;
+};
+
+// Multiplies every frame by its gain in place, optionally clipping what's still over a ceiling
+const applyGains = (audio: PcmAudio, gains: Float32Array, ceilingDb = Infinity) => {
+  const ceiling = fromDb(ceilingDb);
+  for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+    const data = audio.getChannelData(channel);
+    const length = Math.min(data.length, gains.length);
+    for (let i = 0; i < length; i++) {
+      data[i] = Math.max(-ceiling, Math.min(ceiling, data[i] * gains[i]));
+    }
+  }
+};
+
+const scale = (audio: PcmAudio, gainDb: number) => {
+  if (gainDb === 0) return;
+  const gain = fromDb(gainDb);
+  for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+    const data = audio.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      data[i] *= gain;
+    }
+  }
+};
+
+// Gives a part of a mix the normalization and limiting the full mix was mastered with
+const matchMix = (audio: PcmAudio, { gain, limiting }: MixDynamics): LoudnessReport => {
+  const sourceLufs = measureLoudness(audio);
+  scale(audio, gain);
+  applyGains(audio, limiting, TRUE_PEAK_CEILING);
+  return {
+    sourceLufs,
+    integratedLufs: measureLoudness(audio),
+    truePeak: measureTruePeak(audio),
+    gain,
+  };
+};
+
+/**
+ * Masters a rendered mix in place: normalizes its integrated loudness to the target,
+ * then limits true peaks to the ceiling. Limiting can leave dense mixes a little under
+ * a loud target; the report says where it ended up.
+ * @param audio The mix, or a part of one.
+ * @param target The integrated loudness to aim for in LUFS, e.g. -14 for short-video
+ * platforms; or, for a part of a mix, the dynamics the full mix was mastered with, so the
+ * part keeps its level in the mix and the parts add up to it.
+ * @returns How loud the result is, and the gains used to get there.
+ */
+export const masterMix = (audio: PcmAudio, target: number | MixDynamics): { loudness: LoudnessReport; dynamics: MixDynamics } => {
+  if (typeof target !== 'number') return { loudness: matchMix(audio, target), dynamics: target };
+  const sourceLufs = measureLoudness(audio);
+  const gain = Number.isFinite(sourceLufs) ? Math.min(MAX_GAIN_DB, target - sourceLufs) : 0;
+  scale(audio, gain);
+  const limiting = limiterGains(audio, TRUE_PEAK_CEILING);
+  applyGains(audio, limiting, TRUE_PEAK_CEILING);
+  return {
+    loudness: {
+      sourceLufs,
+      integratedLufs: measureLoudness(audio),
+      truePeak: measureTruePeak(audio),
+      gain,
+    },
+    dynamics: { gain, limiting },
+  };
+};
+
+/**
+ * Masters a rendered mix in place like `masterMix`, reporting only its loudness.
+ */
+export const masterAudio = (audio: PcmAudio, targetLufs: number): LoudnessReport => masterMix(audio, targetLufs).loudness;
+
+/**
+ * Bus-compresses a rendered mix in place to glue its layers together before it is
+ * normalized. The compressor follows the peak level across channels, with a soft knee.
+ * @param mixEnvelope For a part of a mix, the envelope the full mix was compressed with,
+ * which is applied instead.
+ * @returns The compressor's gain at each frame.
+ */
+export const compressBus = (audio: PcmAudio, mixEnvelope?: Float32Array): Float32Array => {
+  if (mixEnvelope) {
+    applyGains(audio, mixEnvelope);
+    return mixEnvelope;
+  }
+  const attack = Math.exp(-1 / (COMPRESSOR_ATTACK_SECONDS * audio.sampleRate));
+  const release = Math.exp(-1 / (COMPRESSOR_RELEASE_SECONDS * audio.sampleRate));
+  const channels = Array.from({ length: audio.numberOfChannels }, (_, channel) => audio.getChannelData(channel));
+  const gains = new Float32Array(audio.length);
+  let reduction = 0;
+  for (let i = 0; i < audio.length; i++) {
+    let peak = 0;
+    for (const data of channels) peak = Math.max(peak, Math.abs(data[i]));
+    const over = toDb(peak) - COMPRESSOR_THRESHOLD_DB;
+    const target = 2 * over < -COMPRESSOR_KNEE_DB
+      ? 0
+      : 2 * Math.abs(over) <= COMPRESSOR_KNEE_DB
+        ? ((1 / COMPRESSOR_RATIO - 1) * Math.pow(over + COMPRESSOR_KNEE_DB / 2, 2)) / (2 * COMPRESSOR_KNEE_DB)
+        : over / COMPRESSOR_RATIO - over;
+    const coefficient = target < reduction ? attack : release;
+    reduction = coefficient * reduction + (1 - coefficient) * target;
+    gains[i] = fromDb(reduction);
+  }
+  applyGains(audio, gains);
+  return gains;
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { InstrumentLayers, MusicAttributes, MusicMode } from '../types';
+import { buildMusicSpec, parseMusicSpec } from './musicSpec';
+
+describe('parseMusicSpec', () => {
+  const cases: { description: string; layers: Partial<InstrumentLayers>; mode?: MusicMode; negations: string[] }[] = [
+    {
+      description: 'no drums, sparse piano',
+      layers: { drums: null, melody: 'piano' },
+      negations: ['drums'],
+    },
+    {
+      description: 'warm pads, not minor',
+      layers: { harmony: 'pad' },
+      mode: 'major',
+      negations: ['minor'],
+    },
+    {
+      description: 'lo-fi groove without drums or bass, soft piano',
+      layers: { drums: null, bass: null, melody: 'piano' },
+      negations: ['drums', 'bass'],
+    },
+    {
+      description: 'non-stop drums and a non-stop bass groove',
+      layers: { drums: 'standard', bass: 'synth' },
+      negations: [],
+    },
+    {
+      description: 'driving drums and bass',
+      layers: { drums: 'standard', bass: 'synth' },
+      negations: [],
+    },
+    {
+      description: 'dark minor piano',
+      layers: { melody: 'piano' },
+      mode: 'minor',
+      negations: [],
+    },
+  ];
+
+  it.each(cases)('parses "$description"', ({ description, layers, mode, negations }) => {
+    const spec = parseMusicSpec(description);
+    expect(spec.layers).toMatchObject(layers);
+    if (mode) expect(spec.mode).toBe(mode);
+    expect(spec.negations).toEqual(negations);
+  });
+
+  it.each([
+    ['a fast chase', 140],
+    ['slow and sparse', 80],
+    ['steady pulse at 96 bpm', 96],
+    ['impossibly quick at 400 bpm', 220],
+  ])('reads the tempo of "%s"', (description, bpm) => {
+    expect(parseMusicSpec(description).bpm).toBe(bpm);
+  });
+});
+
+describe('buildMusicSpec', () => {
+  const description = 'dark minor piano at 90 bpm with heavy drums';
+
+  const cases: { name: string; attributes?: MusicAttributes; expected: Record<string, unknown> }[] = [
+    {
+      name: 'falls back to the description without attributes',
+      expected: { bpm: 90, mode: 'minor', root: 'A' },
+    },
+    {
+      name: 'prefers the tempo, key and mode from attributes',
+      attributes: { bpm: 128, key: 'D', mode: 'major' },
+      expected: { bpm: 128, mode: 'major', root: 'D' },
+    },
+    {
+      name: 'keeps described fields the attributes leave out',
+      attributes: { energy: 8 },
+      expected: { bpm: 90, mode: 'minor', energy: 8 },
+    },
+  ];
+
+  it.each(cases)('$name', ({ attributes, expected }) => {
+    expect(buildMusicSpec(description, attributes)).toMatchObject(expected);
+  });
+
+  it('takes the pitched layers from the instrument list and drums from drumStyle', () => {
+    const spec = buildMusicSpec(description, { instruments: ['strings'], drumStyle: 'none' });
+    expect(spec.layers).toEqual({ drums: null, harmony: 'strings', bass: null, melody: null });
+  });
+
+  it('turns on only the listed effects', () => {
+    const spec = buildMusicSpec('huge cathedral reverb and a dotted echo', { effects: ['reverb'] });
+    expect(spec.effects.reverb).not.toBeNull();
+    expect(spec.effects.delay).toBeNull();
+  });
+});
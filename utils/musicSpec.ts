@@ -0,0 +1,397 @@
+import type { MusicSpec, MusicMode, MusicAttributes, MusicRecommendation, NoteName, InstrumentLayers, EffectsSpec, EffectName, ReverbType, SceneAttributes, SceneSpec } from '../types';
+import { NOTE_NAMES } from '../constants';
+
+// Words that switch a clause into "excluded" territory, e.g. "no drums", "without reverb".
+const NEGATION_CUE = /\b(?:no|not|without|never|lacks?|lacking|free of|absent|avoid(?:s|ing)?|minus)\b/;
+
+// Negation only reaches as far as the end of its clause: "no drums, sparse piano" keeps the piano.
+const CLAUSE_BREAK = /[.,;:!?()\n]|\b(?:and|but|with|while|plus|then)\b/;
+
+// Every term the parser understands, keyed by the label reported in `MusicSpec.negations`.
+const TERMS: Record<string, RegExp> = {
+  drums: /\b(?:drums?|beats?|percussion|kick|snare)\b/,
+  heartbeat: /\bheartbeat/,
+  'four on the floor': /\b(?:four[\s-]on[\s-]the[\s-]floor|disco|techno)\b/,
+  breakbeat: /\b(?:break[\s-]?beats?|jungle|boom[\s-]?bap|hip[\s-]?hop)\b/,
+  trap: /\b(?:trap|hi[\s-]?hat rolls?)\b/,
+  tribal: /\b(?:tribal|tom[\s-]?toms?|taiko|djembe|bongos?|congas?|hand drums?)\b/,
+  electronic: /\b(?:electronic|edm|glitch|idm|drum machine)/,
+  swing: /\b(?:swing|swung|shuffl)/,
+  pads: /\bpads?\b/,
+  strings: /\bstrings?\b/,
+  choir: /\bchoir/,
+  chords: /\bchords?\b/,
+  synth: /\bsynth/,
+  bass: /\bbass/,
+  drone: /\bdron(?:e|es|ing)\b/,
+  rumble: /\brumbl/,
+  melody: /\bmelod/,
+  piano: /\bpiano/,
+  bells: /\bbells?\b/,
+  'music box': /\bmusic[\s-]?box/,
+  glockenspiel: /\bglockenspiel/,
+  guitar: /\bguitars?\b/,
+  distorted: /\b(?:distort|overdriv|fuzz)/,
+  pluck: /\b(?:pluck|harp|pizzicato|kalimba|koto)/,
+  reverb: /\breverb/,
+  hall: /\b(?:hall|cathedral|cavern|church)/,
+  room: /\broom\b/,
+  plate: /\bplate\b/,
+  delay: /\b(?:delay|echo)/,
+  dotted: /\bdotted/,
+  quarter: /\bquarter/,
+  eighth: /\beighth/,
+  detuned: /\bdetun/,
+  wobble: /\b(?:waver|wobbl|warbl|flutter|seasick)/,
+  vibrato: /\bvibrato/,
+  muffled: /\b(?:muffled|underwater|muted|low[\s-]?pass|lo[\s-]?pass)/,
+  tinny: /\b(?:tinny|telephone|radio|high[\s-]?pass)/,
+  sweep: /\bsweep/,
+  bitcrush: /\b(?:bit[\s-]?crush|lo[\s-]?fi|8[\s-]?bit|chiptune)/,
+  saturated: /\b(?:saturat|gritty|blown[\s-]?out)/,
+  pump: /\b(?:sidechain|side-chain|pumping|ducking)/,
+  heavy: /\b(?:heavy|heavily|lots of|drenched|washed|huge|massive|lush|big)\b/,
+  subtle: /\b(?:subtle|subtly|light|slight|slightly|gentle|touch of|hint of)\b/,
+  major: /\bmajor\b/,
+  minor: /\bminor\b/,
+  dorian: /\bdorian\b/,
+  phrygian: /\bphrygian\b/,
+  dissonant: /\b(?:dissonan|atonal)/,
+  pentatonic: /\bpentatonic/,
+  slow: /\bslow/,
+  fast: /\b(?:fast|upbeat|frantic)/,
+};
+
+const BPM_PATTERN = /(\d{2,3})\s*-?\s*bpm/;
+
+// "C# minor", "Bb major", "key of E flat"; the note letter must stand on its own.
+const KEY_PATTERN = /\b(?:key of\s+([a-g])|([a-g])(?=\s*(?:#|♯|b|♭|-?\s*sharp|-?\s*flat)?\s+(?:major|minor)\b))\s*(#|♯|b(?![a-z])|♭|-?\s*sharp|-?\s*flat)?/;
+
+// A bare note name such as "F#", "Eb" or "B flat", optionally followed by more text.
+const NOTE_PATTERN = /^([a-g])\s*(#|♯|b(?![a-z])|♭|-?\s*sharp|-?\s*flat)?/;
+
+const DEFAULT_BPM = 120;
+const DEFAULT_ROOT: NoteName = 'A';
+const DEFAULT_ENERGY = 5;
+// A lazy shuffle rather than a full triplet feel
+const SWUNG = 0.6;
+
+interface TermScan {
+  has: (label: string) => boolean;
+  /** Whether both terms appear positively in the same clause, e.g. "piano chords". */
+  together: (first: string, second: string) => boolean;
+  negations: string[];
+}
+
+/**
+ * Scans the description clause by clause and records which terms appear positively
+ * and which only ever appear after a negation cue.
+ */
+const scanTerms = (description: string): TermScan => {
+  const clauses = description
+    .toLowerCase()
+    .split(CLAUSE_BREAK)
+    .map(clause => clause.trim())
+    .filter(Boolean);
+
+  const present = new Set<string>();
+  const negated = new Set<string>();
+  const clauseTerms: Set<string>[] = [];
+
+  for (const clause of clauses) {
+    const inClause = new Set<string>();
+    for (const [label, pattern] of Object.entries(TERMS)) {
+      const match = pattern.exec(clause);
+      if (!match) continue;
+      if (NEGATION_CUE.test(clause.slice(0, match.index))) {
+        negated.add(label);
+      } else {
+        present.add(label);
+        inClause.add(label);
+      }
+    }
+    clauseTerms.push(inClause);
+  }
+
+  return {
+    has: (label) => present.has(label),
+    together: (first, second) => clauseTerms.some(terms => terms.has(first) && terms.has(second)),
+    // A term mentioned positively anywhere isn't really excluded, so it's not reported.
+    negations: [...negated].filter(label => !present.has(label)),
+  };
+};
+
+const parseBpm = (description: string, terms: TermScan): number => {
+  const bpmMatch = description.toLowerCase().match(BPM_PATTERN);
+  if (bpmMatch) {
+    return Math.min(220, Math.max(40, parseInt(bpmMatch[1], 10)));
+  }
+  if (terms.has('fast')) return 140;
+  if (terms.has('slow')) return 80;
+  return DEFAULT_BPM;
+};
+
+const toNoteName = (letter: string, accidental = ''): NoteName => {
+  const symbol = accidental.replace(/[\s-]/g, '');
+  let index = NOTE_NAMES.indexOf(letter.toUpperCase() as NoteName);
+  if (symbol === '#' || symbol === '♯' || symbol === 'sharp') index += 1;
+  if (symbol === 'b' || symbol === '♭' || symbol === 'flat') index -= 1;
+  return NOTE_NAMES[(index + NOTE_NAMES.length) % NOTE_NAMES.length];
+};
+
+/**
+ * Normalizes a note name like "Eb" or "F sharp" to the sharp spelling used by `NoteName`.
+ * @returns The note, or null if the text doesn't start with a note letter.
+ */
+export const parseNoteName = (text: string): NoteName | null => {
+  const noteMatch = text.trim().toLowerCase().match(NOTE_PATTERN);
+  return noteMatch ? toNoteName(noteMatch[1], noteMatch[2]) : null;
+};
+
+const parseRoot = (description: string): NoteName => {
+  const keyMatch = description.toLowerCase().match(KEY_PATTERN);
+  if (!keyMatch) return DEFAULT_ROOT;
+  return toNoteName(keyMatch[1] ?? keyMatch[2], keyMatch[3]);
+};
+
+const parseEnergy = (terms: TermScan): number => {
+  if (terms.has('fast')) return 7;
+  if (terms.has('slow')) return 3;
+  return DEFAULT_ENERGY;
+};
+
+const parseMode = (terms: TermScan): MusicMode => {
+  if (terms.has('pentatonic')) return 'pentatonic';
+  if (terms.has('dissonant')) return 'dissonant';
+  if (terms.has('phrygian')) return 'phrygian';
+  if (terms.has('dorian')) return 'dorian';
+  if (terms.has('minor')) return 'minor';
+  if (terms.has('major')) return 'major';
+  // "not major" with nothing else to go on still tells us which way to lean.
+  return terms.negations.includes('major') ? 'minor' : 'major';
+};
+
+const parseLayers = (terms: TermScan): InstrumentLayers => {
+  // Genre grooves imply drums by themselves unless drums are ruled out; "electronic" only
+  // styles drums asked for elsewhere
+  let drums: InstrumentLayers['drums'] = null;
+  if (terms.has('heartbeat')) drums = 'heartbeat';
+  else if (terms.negations.includes('drums')) drums = null;
+  else if (terms.has('trap')) drums = 'trap';
+  else if (terms.has('four on the floor')) drums = 'four-on-the-floor';
+  else if (terms.has('breakbeat')) drums = 'breakbeat';
+  else if (terms.has('tribal')) drums = 'tribal';
+  else if (terms.has('drums')) drums = terms.has('electronic') ? 'electronic' : 'standard';
+
+  let harmony: InstrumentLayers['harmony'] = null;
+  if (terms.has('choir')) harmony = 'choir';
+  else if (terms.has('strings')) harmony = 'strings';
+  else if (terms.together('guitar', 'distorted')) harmony = 'distorted-guitar';
+  else if (terms.together('piano', 'chords')) harmony = 'piano';
+  else if (terms.has('pads') || terms.has('chords')) harmony = terms.has('synth') ? 'synth' : 'pad';
+
+  let bass: InstrumentLayers['bass'] = null;
+  if (terms.has('drone') || terms.has('rumble')) bass = 'drone';
+  else if (terms.has('bass')) bass = 'synth';
+
+  // Piano that only ever plays chords belongs to the harmony layer, not the melody
+  const hasPianoMelody = terms.has('piano') && (harmony !== 'piano' || terms.together('piano', 'melody'));
+  const hasGuitarMelody = terms.has('guitar') && harmony !== 'distorted-guitar';
+
+  let melody: InstrumentLayers['melody'] = null;
+  if (terms.has('music box')) melody = 'music-box';
+  else if (terms.has('glockenspiel')) melody = 'glockenspiel';
+  else if (terms.has('bells')) melody = 'bell';
+  else if (hasGuitarMelody) melody = 'guitar';
+  else if (terms.has('pluck')) melody = 'pluck';
+  else if (hasPianoMelody) melody = 'piano';
+  else if (terms.has('melody')) melody = 'lead';
+
+  return { drums, harmony, bass, melody };
+};
+
+/** Settings for an effect that is switched on without any detail, e.g. by the model's effects list. */
+export const DEFAULT_EFFECTS: { [Name in Exclude<EffectName, 'detune'>]: NonNullable<EffectsSpec[Name]> } = {
+  reverb: { type: 'hall', decay: 2.5, mix: 0.3 },
+  delay: { beats: 0.75, feedback: 0.4, mix: 0.25 },
+  wobble: { rate: 0.8, depth: 20 },
+  filter: { type: 'lowpass', cutoff: 900, sweep: false },
+  bitcrush: { bits: 8, downsample: 4 },
+  distortion: { drive: 4 },
+  pump: { depth: 0.6 },
+};
+
+const REVERB_DECAY: Record<ReverbType, number> = { room: 0.9, hall: 2.5, plate: 1.8 };
+
+const NO_EFFECTS: EffectsSpec = {
+  reverb: null,
+  delay: null,
+  detune: false,
+  wobble: null,
+  filter: null,
+  bitcrush: null,
+  distortion: null,
+  pump: null,
+};
+
+const parseEffects = (terms: TermScan): EffectsSpec => {
+  // "heavy reverb" and "subtle delay" scale the effect they share a clause with
+  const amount = (label: string): number =>
+    terms.together(label, 'heavy') ? 1.6 : terms.together(label, 'subtle') ? 0.5 : 1;
+  const round = (value: number, places = 2) => Number(value.toFixed(places));
+
+  const effects: EffectsSpec = { ...NO_EFFECTS, detune: terms.has('detuned') };
+
+  if (terms.has('reverb') || terms.has('hall')) {
+    const reverbTerm = terms.has('reverb') ? 'reverb' : 'hall';
+    const type: ReverbType = terms.together(reverbTerm, 'plate') ? 'plate' : terms.together(reverbTerm, 'room') ? 'room' : 'hall';
+    effects.reverb = {
+      type,
+      decay: round(Math.min(8, REVERB_DECAY[type] * amount(reverbTerm)), 1),
+      mix: round(Math.min(0.6, DEFAULT_EFFECTS.reverb.mix * amount(reverbTerm))),
+    };
+  }
+  if (terms.has('delay')) {
+    const beats = terms.together('delay', 'quarter') ? 1 : terms.together('delay', 'eighth') && !terms.together('delay', 'dotted') ? 0.5 : 0.75;
+    effects.delay = {
+      beats,
+      feedback: round(Math.min(0.7, DEFAULT_EFFECTS.delay.feedback * amount('delay'))),
+      mix: round(Math.min(0.5, DEFAULT_EFFECTS.delay.mix * amount('delay'))),
+    };
+  }
+  if (terms.has('vibrato')) {
+    effects.wobble = { rate: 5.5, depth: round(15 * amount('vibrato'), 0) };
+  } else if (terms.has('wobble')) {
+    effects.wobble = { rate: DEFAULT_EFFECTS.wobble.rate, depth: round(DEFAULT_EFFECTS.wobble.depth * amount('wobble'), 0) };
+  }
+  if (terms.has('muffled') || terms.has('tinny') || terms.has('sweep')) {
+    effects.filter = terms.has('tinny') && !terms.has('muffled')
+      ? { type: 'highpass', cutoff: 1200, sweep: terms.has('sweep') }
+      : { ...DEFAULT_EFFECTS.filter, sweep: terms.has('sweep') };
+  }
+  if (terms.has('bitcrush')) {
+    effects.bitcrush = amount('bitcrush') > 1
+      ? { bits: 5, downsample: 8 }
+      : amount('bitcrush') < 1 ? { bits: 10, downsample: 2 } : DEFAULT_EFFECTS.bitcrush;
+  }
+  // "Distorted" on its own colours the whole mix; with a guitar it's the guitar's sound
+  if (terms.has('saturated') || (terms.has('distorted') && !terms.together('distorted', 'guitar'))) {
+    const term = terms.has('saturated') ? 'saturated' : 'distorted';
+    effects.distortion = { drive: round(DEFAULT_EFFECTS.distortion.drive * amount(term) * (term === 'distorted' ? 2 : 1), 1) };
+  }
+  if (terms.has('pump')) {
+    effects.pump = { depth: round(Math.min(0.9, DEFAULT_EFFECTS.pump.depth * amount('pump'))) };
+  }
+  return effects;
+};
+
+// An effect stored as `true` predates effect settings and gets the defaults
+const upgradeSetting = <T,>(value: unknown, defaults: T): T | null =>
+  value === true ? defaults : typeof value === 'object' && value !== null ? value as T : null;
+
+/**
+ * Brings a stored spec up to date. Specs saved before the effects rack kept each effect
+ * as an on/off flag, and lack the effects added with it.
+ */
+const upgradeSpec = (spec: MusicSpec): MusicSpec => {
+  const stored = spec.effects as unknown as Partial<Record<EffectName, unknown>>;
+  return {
+    ...spec,
+    effects: {
+      reverb: upgradeSetting(stored.reverb, DEFAULT_EFFECTS.reverb),
+      delay: upgradeSetting(stored.delay, DEFAULT_EFFECTS.delay),
+      detune: stored.detune === true,
+      wobble: upgradeSetting(stored.wobble, DEFAULT_EFFECTS.wobble),
+      filter: upgradeSetting(stored.filter, DEFAULT_EFFECTS.filter),
+      bitcrush: upgradeSetting(stored.bitcrush, DEFAULT_EFFECTS.bitcrush),
+      distortion: upgradeSetting(stored.distortion, DEFAULT_EFFECTS.distortion),
+      pump: upgradeSetting(stored.pump, DEFAULT_EFFECTS.pump),
+    },
+  };
+};
+
+/**
+ * Parses a free-text music description into a structured `MusicSpec`.
+ * Terms preceded by a negation in the same clause ("no drums", "without reverb")
+ * are treated as excluded rather than requested.
+ * @param description The prose description of the music from the AI.
+ */
+export const parseMusicSpec = (description: string): MusicSpec => {
+  const terms = scanTerms(description);
+  return {
+    bpm: parseBpm(description, terms),
+    root: parseRoot(description),
+    mode: parseMode(terms),
+    energy: parseEnergy(terms),
+    swing: terms.has('swing') ? SWUNG : 0,
+    layers: parseLayers(terms),
+    effects: parseEffects(terms),
+    negations: terms.negations,
+  };
+};
+
+/**
+ * Builds the spec for a recommendation, preferring the model's structured attributes
+ * and falling back to parsing the prose description for anything they don't cover.
+ * @param description The prose description of the music from the AI.
+ * @param attributes The validated structured fields, if the model returned any.
+ * @param scenes Start times and fields of each scene, for a track that follows a
+ * multi-scene video; fields a scene leaves out come from the track as a whole.
+ */
+export const buildMusicSpec = (description: string, attributes?: MusicAttributes, scenes?: { start: number; attributes: SceneAttributes }[]): MusicSpec => {
+  if (scenes && scenes.length > 1) {
+    const sceneSpecs = scenes.map(({ start, attributes: sceneAttributes }, index): SceneSpec => {
+      const { bpm, root, mode, energy, layers, effects } = buildMusicSpec(description, { ...attributes, ...sceneAttributes });
+      // Nothing leads into the first scene
+      const transition = index === 0 ? 'cut' : sceneAttributes.transition ?? 'crossfade';
+      return { start, transition, bpm, root, mode, energy, layers, effects };
+    });
+    return { ...buildMusicSpec(description, attributes), scenes: sceneSpecs };
+  }
+
+  const spec = parseMusicSpec(description);
+  if (!attributes) return spec;
+
+  const layers = { ...spec.layers };
+  if (attributes.instruments && attributes.instruments.length > 0) {
+    // The instrument list is authoritative for the pitched layers; drums come from drumStyle.
+    const instrumentLayers = parseLayers(scanTerms(attributes.instruments.join(', ')));
+    layers.harmony = instrumentLayers.harmony;
+    layers.bass = instrumentLayers.bass;
+    layers.melody = instrumentLayers.melody;
+  }
+  if (attributes.drumStyle) {
+    layers.drums = attributes.drumStyle === 'none' ? null : attributes.drumStyle;
+  }
+
+  // The model's list says which effects are on; the description may still say how they sound
+  const listed = attributes.effects;
+  const effects: EffectsSpec = listed
+    ? {
+        reverb: listed.includes('reverb') ? spec.effects.reverb ?? DEFAULT_EFFECTS.reverb : null,
+        delay: listed.includes('delay') ? spec.effects.delay ?? DEFAULT_EFFECTS.delay : null,
+        detune: listed.includes('detune'),
+        wobble: listed.includes('wobble') ? spec.effects.wobble ?? DEFAULT_EFFECTS.wobble : null,
+        filter: listed.includes('filter') ? spec.effects.filter ?? DEFAULT_EFFECTS.filter : null,
+        bitcrush: listed.includes('bitcrush') ? spec.effects.bitcrush ?? DEFAULT_EFFECTS.bitcrush : null,
+        distortion: listed.includes('distortion') ? spec.effects.distortion ?? DEFAULT_EFFECTS.distortion : null,
+        pump: listed.includes('pump') ? spec.effects.pump ?? DEFAULT_EFFECTS.pump : null,
+      }
+    : spec.effects;
+
+  return {
+    ...spec,
+    bpm: attributes.bpm ?? spec.bpm,
+    root: attributes.key ?? spec.root,
+    mode: attributes.mode ?? spec.mode,
+    energy: attributes.energy ?? spec.energy,
+    layers,
+    effects,
+  };
+};
+
+/**
+ * The spec a track renders from: its stored spec, or one built from its description.
+ */
+export const getTrackSpec = (track: Pick<MusicRecommendation, 'spec' | 'musicDescription' | 'attributes'>): MusicSpec =>
+  track.spec ? upgradeSpec(track.spec) : buildMusicSpec(track.musicDescription, track.attributes);
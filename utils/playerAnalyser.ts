@@ -0,0 +1,30 @@
+interface PlayerTap {
+  context: AudioContext;
+  analyser: AnalyserNode;
+}
+
+// A media element can only be routed into Web Audio once, so each player keeps its tap
+const taps = new WeakMap<HTMLMediaElement, PlayerTap>();
+
+/**
+ * Returns an analyser listening to a media element, routing the element's sound through
+ * Web Audio the first time it's asked for. From then on the element only plays while the
+ * context is running, so call this from a user gesture or while already playing.
+ */
+export const getPlayerAnalyser = (player: HTMLMediaElement): AnalyserNode => {
+  let tap = taps.get(player);
+  if (!tap) {
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    analyser.smoothingTimeConstant = 0.75;
+    context.createMediaElementSource(player).connect(analyser);
+    analyser.connect(context.destination);
+    tap = { context, analyser };
+    taps.set(player, tap);
+  }
+  if (tap.context.state === 'suspended') {
+    tap.context.resume().catch(err => console.warn('Could not start the spectrum analyser:', err));
+  }
+  return tap.analyser;
+};
@@ -0,0 +1,204 @@
+import type { MusicSpec, LoudnessReport, StemName } from '../types';
+import { renderTrack, renderStems, PREVIEW_DURATION } from './audioGenerator';
+import { condenseScenes } from './scenes';
+import { encodePreview, workerProcessor } from './audioProcessor';
+
+/** How urgently a preview is needed; queued renders start in this order. */
+export type RenderPriority = 'playback' | 'hover' | 'background';
+
+export interface PreviewRequest {
+  priority?: RenderPriority;
+  /** Withdraws the request. A render no one is waiting for is dropped if it hasn't started. */
+  signal?: AbortSignal;
+  /** Called once the render starts, or straight away if it already has or is cached. */
+  onStart?: () => void;
+  /** Plays only these stems, at their level in the full mix; the full mix when absent. */
+  stems?: StemName[] | null;
+}
+
+export interface RenderedPreview {
+  url: string;
+  loudness: LoudnessReport;
+  /** Waveform thumbnail, from `computePeaks`. */
+  peaks: number[];
+}
+
+const PRIORITY_RANK: Record<RenderPriority, number> = { playback: 0, hover: 1, background: 2 };
+
+// Each offline render builds its whole node graph on the main thread, so only a couple
+// run at once; the synthesis itself happens on the browser's audio thread.
+const MAX_CONCURRENT_RENDERS = 2;
+// Blob URLs kept for reuse; a 10 s stereo preview is about 1.7 MB
+const CACHE_SIZE = 60;
+
+interface RenderJob {
+  key: string;
+  spec: MusicSpec;
+  seed: number;
+  stems: StemName[] | null;
+  rank: number;
+  // Breaks ties between equal priorities in request order
+  order: number;
+  started: boolean;
+  waiters: number;
+  startListeners: (() => void)[];
+  promise: Promise<RenderedPreview>;
+  resolve: (preview: RenderedPreview) => void;
+  reject: (error: unknown) => void;
+}
+
+// Finished previews in least-recently-used order
+const cache = new Map<string, RenderedPreview>();
+// How many places are showing each preview URL; these outlive their cache entry
+const urlHolds = new Map<string, number>();
+// Renders that are queued or in progress
+const jobs = new Map<string, RenderJob>();
+let runningRenders = 0;
+let nextOrder = 0;
+
+const cacheKey = (spec: MusicSpec, seed: number, stems: StemName[] | null): string =>
+  `${seed}:${JSON.stringify(spec)}${stems ? `:${stems.join(',')}` : ''}`;
+
+const remember = (key: string, preview: RenderedPreview) => {
+  cache.set(key, preview);
+  for (const [oldKey, oldPreview] of cache) {
+    if (cache.size <= CACHE_SIZE) break;
+    cache.delete(oldKey);
+    if (!urlHolds.has(oldPreview.url)) URL.revokeObjectURL(oldPreview.url);
+  }
+};
+
+const isCached = (url: string): boolean => [...cache.values()].some(preview => preview.url === url);
+
+/**
+ * Keeps a preview URL alive while something shows or plays it, even after it drops out
+ * of the cache. Each call must be matched by a `releasePreviewUrl`.
+ */
+export const retainPreviewUrl = (url: string) => {
+  urlHolds.set(url, (urlHolds.get(url) ?? 0) + 1);
+};
+
+/**
+ * Lets go of a preview URL kept by `retainPreviewUrl`. Once nothing holds it and the cache
+ * has moved on from it, the URL is revoked.
+ */
+export const releasePreviewUrl = (url: string) => {
+  const holds = (urlHolds.get(url) ?? 0) - 1;
+  if (holds > 0) {
+    urlHolds.set(url, holds);
+    return;
+  }
+  urlHolds.delete(url);
+  if (!isCached(url)) URL.revokeObjectURL(url);
+};
+
+const runJob = async (job: RenderJob) => {
+  try {
+    const spec = condenseScenes(job.spec, PREVIEW_DURATION);
+    const options = { duration: PREVIEW_DURATION, processor: workerProcessor };
+    const { buffer, loudness } = job.stems
+      ? await renderStems(spec, job.seed, options, [job.stems]).then(({ mix, parts }) => ({ buffer: parts[0], loudness: mix.loudness }))
+      : await renderTrack(spec, job.seed, options);
+    const { wav, peaks } = await encodePreview(buffer);
+    const preview = { url: URL.createObjectURL(new Blob([wav], { type: 'audio/wav' })), loudness, peaks };
+    remember(job.key, preview);
+    job.resolve(preview);
+  } catch (error) {
+    job.reject(error);
+  } finally {
+    jobs.delete(job.key);
+  }
+};
+
+const startQueuedJobs = () => {
+  while (runningRenders < MAX_CONCURRENT_RENDERS) {
+    let next: RenderJob | undefined;
+    for (const job of jobs.values()) {
+      if (!job.started && (!next || job.rank < next.rank || (job.rank === next.rank && job.order < next.order))) {
+        next = job;
+      }
+    }
+    if (!next) return;
+
+    next.started = true;
+    next.startListeners.forEach(listener => listener());
+    runningRenders++;
+    runJob(next).finally(() => {
+      runningRenders--;
+      startQueuedJobs();
+    });
+  }
+};
+
+const createJob = (key: string, spec: MusicSpec, seed: number, stems: StemName[] | null): RenderJob => {
+  let resolve!: (preview: RenderedPreview) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<RenderedPreview>((onResolve, onReject) => {
+    resolve = onResolve;
+    reject = onReject;
+  });
+  return {
+    key, spec, seed, stems,
+    rank: PRIORITY_RANK.background,
+    order: nextOrder++,
+    started: false,
+    waiters: 0,
+    startListeners: [],
+    promise, resolve, reject,
+  };
+};
+
+/**
+ * Renders the short in-page preview for a track and returns a Blob URL for it, along with
+ * its measured loudness and waveform. Renders
+ * are queued by priority and run a few at a time, with mastering and WAV encoding done in workers.
+ * Results are cached by spec, seed and stems, so asking again for the same track is instant;
+ * the cache revokes the least recently used URLs unless they're held with `retainPreviewUrl`.
+ * @param spec The structured description of the track to synthesize.
+ * @param seed The track's render seed.
+ * @param request Priority and cancellation; a repeat request can raise the priority.
+ */
+export const renderPreview = (spec: MusicSpec, seed: number, { priority = 'background', signal, onStart, stems = null }: PreviewRequest = {}): Promise<RenderedPreview> => {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
+  const key = cacheKey(spec, seed, stems);
+  const cached = cache.get(key);
+  if (cached) {
+    // Move to the most recently used end
+    cache.delete(key);
+    cache.set(key, cached);
+    onStart?.();
+    return Promise.resolve(cached);
+  }
+
+  let job = jobs.get(key);
+  if (!job) {
+    job = createJob(key, spec, seed, stems);
+    jobs.set(key, job);
+  }
+  const activeJob = job;
+  activeJob.rank = Math.min(activeJob.rank, PRIORITY_RANK[priority]);
+  activeJob.waiters++;
+  if (onStart) {
+    if (activeJob.started) onStart();
+    else activeJob.startListeners.push(() => {
+      if (!signal?.aborted) onStart();
+    });
+  }
+  startQueuedJobs();
+
+  if (!signal) return activeJob.promise;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      activeJob.waiters--;
+      if (activeJob.waiters === 0 && !activeJob.started) {
+        jobs.delete(key);
+      }
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    activeJob.promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
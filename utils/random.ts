@@ -0,0 +1,37 @@
+/**
+ * A source of pseudo-random numbers in [0, 1), like `Math.random`.
+ */
+export type Random = () => number;
+
+/**
+ * Creates a seeded PRNG (mulberry32). The same seed always yields the same sequence,
+ * which is what makes renders reproducible.
+ */
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Derives an independent stream for one part of the generator, so that e.g. adding
+ * a drum layer doesn't shift the random choices the melody makes.
+ */
+export const forkRandom = (seed: number, label: string): Random => {
+  // FNV-1a hash of the label, mixed into the seed
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < label.length; i++) {
+    hash = Math.imul(hash ^ label.charCodeAt(i), 0x01000193);
+  }
+  return createRandom((seed ^ hash) >>> 0);
+};
+
+/**
+ * Picks a fresh 32-bit seed for a newly generated track.
+ */
+export const randomSeed = (): number => crypto.getRandomValues(new Uint32Array(1))[0];
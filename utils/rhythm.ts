@@ -0,0 +1,213 @@
+import type { MusicSpec, RhythmPattern } from '../types';
+import { forkRandom } from './random';
+import type { Random } from './random';
+import type { DrumSound } from './instruments';
+import type { Composition } from './composition';
+
+/** One drum hit, timed in seconds from the start of the track. */
+export interface DrumHit {
+  time: number;
+  sound: DrumSound;
+  /** Loudness from 0 to 1. */
+  velocity: number;
+}
+
+/**
+ * A one-bar groove on a sixteenth-note grid. Each sound's line is 16 characters:
+ * 'X' is an accent, 'x' a normal hit, 'o' a ghost note and '.' a rest.
+ */
+interface DrumPattern {
+  steps: Partial<Record<DrumSound, string>>;
+  /** Swing the groove always has, before any swing the spec asks for. */
+  swing: number;
+  /** How loose the timing and dynamics are, from 0 (quantized) to 1. */
+  humanize: number;
+  /** Sounds that keep playing in sparse sections such as the intro and outro. */
+  sparse: DrumSound[];
+  fills: boolean;
+  /** The sound that breaks into rapid rolls now and then, as trap hi-hats do. */
+  rolls?: DrumSound;
+}
+
+const STEPS_PER_BAR = 16;
+const STEP_VELOCITY: Record<string, number> = { X: 1, x: 0.75, o: 0.4 };
+
+const PATTERNS: Record<RhythmPattern, DrumPattern> = {
+  standard: {
+    steps: {
+      kick: 'X.......X.x.....',
+      snare: '....X.....o.X...',
+      'closed-hat': 'x.x.x.x.x.x.x.x.',
+    },
+    swing: 0,
+    humanize: 0.4,
+    sparse: ['kick', 'closed-hat'],
+    fills: true,
+  },
+  heartbeat: {
+    // A lub-dub on every beat
+    steps: {
+      kick: 'Xx..Xx..Xx..Xx..',
+    },
+    swing: 0,
+    humanize: 0.2,
+    sparse: ['kick'],
+    fills: false,
+  },
+  'four-on-the-floor': {
+    steps: {
+      kick: 'X...X...X...X...',
+      clap: '....X.......X...',
+      'open-hat': '..x...x...x...x.',
+      shaker: 'xoxoxoxoxoxoxoxo',
+    },
+    swing: 0,
+    humanize: 0.1,
+    sparse: ['kick', 'shaker'],
+    fills: true,
+  },
+  breakbeat: {
+    steps: {
+      kick: 'X.x.......Xx....',
+      snare: '....X..o.o..X..o',
+      'closed-hat': 'x.x.x.x.x.x.x.x.',
+    },
+    swing: 0.2,
+    humanize: 0.5,
+    sparse: ['closed-hat'],
+    fills: true,
+  },
+  trap: {
+    // Half time: the snare and clap land once a bar, on beat three
+    steps: {
+      kick: 'X......x..X.....',
+      snare: '........X.......',
+      clap: '........X.......',
+      'closed-hat': 'x.x.x.x.x.x.x.x.',
+    },
+    swing: 0,
+    humanize: 0.1,
+    sparse: ['closed-hat'],
+    fills: false,
+    rolls: 'closed-hat',
+  },
+  electronic: {
+    steps: {
+      kick: 'X..x..X...X..x..',
+      clap: '....X.......X...',
+      'closed-hat': 'xoxoxoxxxoxoxoxx',
+      'open-hat': '..............x.',
+      'high-tom': '.......o......o.',
+    },
+    swing: 0.1,
+    humanize: 0.1,
+    sparse: ['kick', 'closed-hat'],
+    fills: true,
+  },
+  tribal: {
+    steps: {
+      kick: 'X.......X.......',
+      'low-tom': 'X..x..x.X..x..x.',
+      'high-tom': '..x..x....x.x..x',
+      shaker: 'xoxoxoxoxoxoxoxo',
+    },
+    swing: 0.15,
+    humanize: 0.7,
+    sparse: ['low-tom', 'shaker'],
+    fills: true,
+  },
+};
+
+// Fills for the second half of a phrase's last bar, on the same grid as the patterns
+const FILLS: Partial<Record<DrumSound, string>>[] = [
+  { snare: '........x.x.xxXX' },
+  { snare: '........xoxoxxxx', kick: '........X.......' },
+  { 'high-tom': '........xx..xx..', 'low-tom': '..........xx..XX' },
+  { snare: '........X.x.....', 'high-tom': '............x...', 'low-tom': '.............x.X' },
+];
+
+// Sounds a fill replaces, so the groove doesn't play over it
+const FILL_SOUNDS: DrumSound[] = ['kick', 'snare', 'clap', 'low-tom', 'high-tom'];
+
+// Largest timing drift a fully humanized hit gets, in seconds
+const MAX_DRIFT = 0.012;
+
+const pick = <T,>(random: Random, items: T[]): T => items[Math.floor(random() * items.length)];
+
+const stepVelocity = (line: string | undefined, step: number): number => (line && STEP_VELOCITY[line[step]]) || 0;
+
+/**
+ * Sequences the drum part for a track: the groove for its rhythm pattern, thinned out in
+ * sparse sections, with fills at the end of each section, swing and human timing.
+ * Deterministic for a given spec, seed and composition.
+ * @param spec The structured description of the track; `layers.drums` picks the groove.
+ * @param seed The track's render seed.
+ * @param composition The section plan and tempo the drums play along to.
+ * @param duration Length of the music in seconds.
+ */
+export const composeRhythm = (spec: MusicSpec, seed: number, composition: Composition, duration: number): DrumHit[] => {
+  const pattern = PATTERNS[spec.layers.drums ?? 'standard'];
+  const random = forkRandom(seed, 'rhythm');
+  const stepDuration = composition.barDuration / STEPS_PER_BAR;
+  const totalBars = Math.ceil(duration / composition.barDuration);
+  const energy = spec.energy / 10;
+  // A full shuffle moves the off-beat sixteenth a third of the way to the next one
+  const swingDelay = Math.max(pattern.swing, spec.swing ?? 0) * stepDuration / 3;
+  const hits: DrumHit[] = [];
+
+  for (const section of composition.sections) {
+    const isSparse = section.intensity < 0.5;
+    // Ghost notes only come through when the track and section have some drive
+    const playsGhosts = energy * (0.5 + section.intensity / 2) >= 0.35;
+    const sounds = (Object.keys(pattern.steps) as DrumSound[]).filter(sound => !isSparse || pattern.sparse.includes(sound));
+
+    for (let barInSection = 0; barInSection < section.bars; barInSection++) {
+      const bar = section.startBar + barInSection;
+      const barTime = bar * composition.barDuration;
+      const isFillBar = pattern.fills && !isSparse && barInSection === section.bars - 1 && bar < totalBars - 1;
+      const fill = isFillBar ? pick(random, FILLS) : null;
+
+      const play = (sound: DrumSound, step: number, velocity: number) => {
+        const swung = step % 2 === 1 ? swingDelay : 0;
+        const drift = (random() * 2 - 1) * MAX_DRIFT * pattern.humanize;
+        const dynamics = 1 + (random() * 2 - 1) * 0.2 * pattern.humanize;
+        hits.push({
+          time: Math.max(0, barTime + step * stepDuration + swung + drift),
+          sound,
+          velocity: Math.min(1, velocity * dynamics * (0.75 + 0.25 * section.intensity)),
+        });
+      };
+
+      for (let step = 0; step < STEPS_PER_BAR; step++) {
+        const inFill = fill !== null && step >= STEPS_PER_BAR / 2;
+        for (const sound of sounds) {
+          if (inFill && FILL_SOUNDS.includes(sound)) continue;
+          const velocity = stepVelocity(pattern.steps[sound], step);
+          if (velocity === 0 || (velocity < 0.5 && !playsGhosts)) continue;
+
+          // Rolls split a hit into three or four quick repeats that swell into the next step
+          if (sound === pattern.rolls && step % 4 === 2 && random() < 0.15 + energy * 0.3) {
+            const repeats = random() < 0.5 ? 3 : 4;
+            for (let i = 0; i < repeats; i++) {
+              hits.push({
+                time: barTime + (step + i / repeats) * stepDuration,
+                sound,
+                velocity: velocity * (0.5 + (0.5 * (i + 1)) / repeats),
+              });
+            }
+            continue;
+          }
+          play(sound, step, velocity);
+        }
+        if (inFill) {
+          for (const [sound, line] of Object.entries(fill) as [DrumSound, string][]) {
+            const velocity = stepVelocity(line, step);
+            if (velocity > 0) play(sound, step, velocity);
+          }
+        }
+      }
+    }
+  }
+
+  return hits.filter(hit => hit.time < duration).sort((a, b) => a.time - b.time);
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import type { SceneSpec } from '../types';
+import { parseMusicSpec } from './musicSpec';
+import { planScenes } from './scenes';
+
+describe('planScenes', () => {
+  const base = parseMusicSpec('steady piano groove at 120 bpm');
+  const sceneAt = (start: number): SceneSpec => ({
+    start,
+    transition: 'cut',
+    bpm: base.bpm,
+    root: base.root,
+    mode: base.mode,
+    energy: base.energy,
+    layers: base.layers,
+    effects: base.effects,
+  });
+
+  it.each([
+    { name: 'keeps scenes spaced far enough apart', starts: [0, 5, 10], duration: 20, kept: [0, 5, 10] },
+    { name: 'sorts scenes by start', starts: [10, 0, 5], duration: 20, kept: [0, 5, 10] },
+    { name: 'drops a scene too close to the one before', starts: [0, 5, 5.5, 10], duration: 20, kept: [0, 5, 10] },
+    { name: 'keeps every other scene of a run of quick cuts', starts: [0, 0.6, 1.2, 1.8, 2.4, 3], duration: 20, kept: [0, 1.2, 2.4] },
+    { name: 'drops a scene too close to the end', starts: [0, 5, 19.5], duration: 20, kept: [0, 5] },
+  ])('$name', ({ starts, duration, kept }) => {
+    const plans = planScenes({ ...base, scenes: starts.map(sceneAt) }, duration);
+    expect(plans.map(plan => plan.start)).toEqual(kept);
+    expect(plans[plans.length - 1].end).toBe(duration);
+  });
+});
@@ -0,0 +1,177 @@
+import type { MusicSpec, SceneSpec, SceneTransition } from '../types';
+import type { PcmAudio } from './encoders';
+import type { Random } from './random';
+
+/**
+ * One scene's stretch of a multi-scene render. Sections overlap where they crossfade.
+ */
+export interface ScenePlan {
+  /** The whole spec the scene renders from. */
+  spec: MusicSpec;
+  transition: SceneTransition;
+  /** Seconds into the track where the scene starts. */
+  start: number;
+  /** Seconds into the track where the next scene starts, or the track ends. */
+  end: number;
+  /** Seconds of crossfade into the scene, centered on its start; 0 unless it crossfades. */
+  crossfade: number;
+  /** Span of the track the section's audio covers, in seconds, including crossfades. */
+  renderStart: number;
+  renderEnd: number;
+}
+
+// A scene shorter than this is merged into the one before it
+const MIN_SCENE_SECONDS = 1;
+// Crossfades last two beats of the incoming tempo, up to this long
+const CROSSFADE_BEATS = 2;
+const MAX_CROSSFADE_SECONDS = 2;
+// Risers build over the last bar of the outgoing scene, up to this long
+const MAX_RISER_SECONDS = 4;
+// Cut edges are ramped over this long so they don't click
+const DECLICK_SECONDS = 0.005;
+
+/**
+ * Whether the spec follows more than one scene, and so renders section by section.
+ */
+export const hasScenes = (spec: MusicSpec): boolean => (spec.scenes?.length ?? 0) > 1;
+
+/**
+ * Squeezes the scenes evenly into a short render, e.g. a preview, so it still moves
+ * through every one of them. Specs without scenes come back unchanged.
+ * @param duration Length of the short render in seconds.
+ */
+export const condenseScenes = (spec: MusicSpec, duration: number): MusicSpec => {
+  if (!hasScenes(spec)) return spec;
+  const scenes = [...spec.scenes!].sort((a, b) => a.start - b.start);
+  return { ...spec, scenes: scenes.map((scene, index) => ({ ...scene, start: (index * duration) / scenes.length })) };
+};
+
+/**
+ * Lays the spec's scenes out over the track: which span each one renders and how long
+ * each crossfade is. Scenes starting too close to the end or to each other are dropped.
+ * @param spec A spec with scenes.
+ * @param duration Length of the whole track in seconds.
+ */
+export const planScenes = (spec: MusicSpec, duration: number): ScenePlan[] => {
+  // Spacing is measured from the last scene kept, so a run of quick cuts keeps every
+  // other one instead of dropping them all
+  const scenes = [...(spec.scenes ?? [])]
+    .sort((a, b) => a.start - b.start)
+    .reduce<SceneSpec[]>((kept, scene) => {
+      const last = kept[kept.length - 1];
+      if (!last || (scene.start - last.start >= MIN_SCENE_SECONDS && duration - scene.start >= MIN_SCENE_SECONDS)) kept.push(scene);
+      return kept;
+    }, []);
+
+  const plans = scenes.map((scene, index): ScenePlan => {
+    const { transition, bpm, root, mode, energy, layers, effects } = scene;
+    const start = index === 0 ? 0 : scene.start;
+    const end = index + 1 < scenes.length ? scenes[index + 1].start : duration;
+    return {
+      spec: { ...spec, bpm, root, mode, energy, layers, effects, scenes: undefined },
+      transition,
+      start,
+      end,
+      crossfade: 0,
+      renderStart: start,
+      renderEnd: end,
+    };
+  });
+
+  plans.forEach((plan, index) => {
+    if (index === 0 || plan.transition !== 'crossfade') return;
+    const previous = plans[index - 1];
+    const crossfade = Math.min(
+      MAX_CROSSFADE_SECONDS,
+      (CROSSFADE_BEATS * 60) / plan.spec.bpm,
+      previous.end - previous.start,
+      plan.end - plan.start,
+    );
+    plan.crossfade = crossfade;
+    plan.renderStart -= crossfade / 2;
+    previous.renderEnd += crossfade / 2;
+  });
+  return plans;
+};
+
+/**
+ * Mixes rendered sections into one track, equal-power crossfading where scenes overlap
+ * and ramping hard cuts over a few milliseconds.
+ * @param output The track to mix into, silent and as long as the plans cover.
+ * @param plans The scene layout from `planScenes`.
+ * @param sections Each scene's audio, rendered over its plan's span.
+ */
+export const mixScenes = (output: PcmAudio, plans: ScenePlan[], sections: PcmAudio[]) => {
+  const sampleRate = output.sampleRate;
+  const declick = Math.round(DECLICK_SECONDS * sampleRate);
+
+  plans.forEach((plan, index) => {
+    const section = sections[index];
+    const next = plans[index + 1];
+    const offset = Math.round(plan.renderStart * sampleRate);
+    const fadeInLength = Math.round(plan.crossfade * sampleRate);
+    const fadeOutLength = next ? Math.round(next.crossfade * sampleRate) : 0;
+    const length = Math.min(section.length, output.length - offset);
+
+    const gainAt = (frame: number): number => {
+      let gain = 1;
+      if (index > 0) {
+        gain *= fadeInLength > 0
+          ? Math.sin((Math.min(1, frame / fadeInLength) * Math.PI) / 2)
+          : Math.min(1, frame / declick);
+      }
+      if (next) {
+        const remaining = length - frame;
+        gain *= fadeOutLength > 0
+          ? Math.sin((Math.min(1, remaining / fadeOutLength) * Math.PI) / 2)
+          : Math.min(1, remaining / declick);
+      }
+      return gain;
+    };
+
+    for (let channel = 0; channel < output.numberOfChannels; channel++) {
+      const source = section.getChannelData(Math.min(channel, section.numberOfChannels - 1));
+      const target = output.getChannelData(channel);
+      for (let frame = 0; frame < length; frame++) {
+        target[offset + frame] += source[frame] * gainAt(frame);
+      }
+    }
+  });
+};
+
+/**
+ * How long the riser into a scene builds: the last bar of the scene before it.
+ */
+export const riserLength = (previous: ScenePlan): number =>
+  Math.min(MAX_RISER_SECONDS, (4 * 60) / previous.spec.bpm, (previous.end - previous.start) / 2);
+
+/**
+ * Adds a riser ending on a scene change: noise that opens up from dark to bright under a
+ * tone sweeping up three octaves, swelling until it stops dead on the change.
+ * @param output The mixed track, changed in place.
+ * @param end Seconds into the track where the riser stops.
+ * @param length Seconds it builds over.
+ * @param random Source for the noise.
+ */
+export const addRiser = (output: PcmAudio, end: number, length: number, random: Random) => {
+  const sampleRate = output.sampleRate;
+  const last = Math.min(output.length, Math.round(end * sampleRate));
+  const frames = Math.min(last, Math.round(length * sampleRate));
+  const start = last - frames;
+  const riser = new Float32Array(frames);
+  let smoothed = 0;
+  let phase = 0;
+  for (let i = 0; i < frames; i++) {
+    const progress = i / frames;
+    // A one-pole low-pass whose cutoff rises with the build
+    smoothed += (0.02 + 0.6 * progress * progress) * (random() * 2 - 1 - smoothed);
+    phase += (2 * Math.PI * 200 * Math.pow(2, 3 * progress)) / sampleRate;
+    riser[i] = (0.8 * smoothed + 0.2 * Math.sin(phase)) * 0.3 * progress * progress;
+  }
+  for (let channel = 0; channel < output.numberOfChannels; channel++) {
+    const data = output.getChannelData(channel);
+    for (let i = 0; i < frames; i++) {
+      data[start + i] += riser[i];
+    }
+  }
+};
@@ -0,0 +1,58 @@
+import type { MusicSpec, StemMix, StemName } from '../types';
+
+export const STEM_NAMES: StemName[] = ['drums', 'harmony', 'bass', 'melody', 'effects'];
+
+export const STEM_LABELS: Record<StemName, string> = {
+  drums: 'Drums',
+  harmony: 'Harmony',
+  bass: 'Bass',
+  melody: 'Melody',
+  effects: 'Effects',
+};
+
+/**
+ * The stems a track has: the layers that play in it, in any scene, and the effects
+ * returns when it has reverb or delay.
+ */
+export const stemsOf = (spec: MusicSpec): StemName[] => {
+  const sounds = [spec, ...(spec.scenes ?? [])];
+  return STEM_NAMES.filter(stem => sounds.some(sound =>
+    stem === 'effects' ? Boolean(sound.effects.reverb || sound.effects.delay) : sound.layers[stem] !== null,
+  ));
+};
+
+/**
+ * The stems that play under a mute/solo setting: the soloed ones if there are any,
+ * otherwise all but the muted ones.
+ * @param available The track's stems, from `stemsOf`.
+ * @returns The audible stems, or null when that's all of them.
+ */
+export const audibleStems = (mix: StemMix | undefined, available: StemName[]): StemName[] | null => {
+  if (!mix) return null;
+  const audible = mix.soloed.length > 0
+    ? available.filter(stem => mix.soloed.includes(stem))
+    : available.filter(stem => !mix.muted.includes(stem));
+  return audible.length === available.length ? null : audible;
+};
+
+/**
+ * The nonlinear effects a track uses, in any scene, for warning about stems: these run on
+ * each stem on its own, so stems with them on don't add back up to the full mix exactly.
+ */
+export const perStemEffectsOf = (spec: MusicSpec): string[] => {
+  const sounds = [spec, ...(spec.scenes ?? [])];
+  return [
+    sounds.some(sound => sound.effects.distortion) && 'distortion',
+    sounds.some(sound => sound.effects.bitcrush) && 'bitcrushing',
+  ].filter((effect): effect is string => Boolean(effect));
+};
+
+/**
+ * A sentence saying which effects keep stems from adding up to the mix, or null if none do.
+ * @param effects From `perStemEffectsOf`.
+ */
+export const describePerStemEffects = (effects: string[]): string | null => {
+  if (effects.length === 0) return null;
+  const list = effects.join(' and ');
+  return `${list[0].toUpperCase()}${list.slice(1)} ${effects.length > 1 ? 'are' : 'is'} applied to each layer on its own, so the layers won't add up exactly to the full mix.`;
+};
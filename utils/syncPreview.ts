@@ -0,0 +1,150 @@
+/**
+ * How a track is laid against a video for previewing.
+ */
+export interface SyncSettings {
+  /** Seconds into the video where the music starts. */
+  offset: number;
+  fadeIn: number;
+  /** Seconds of fade-out before the video ends, which is where the music stops. */
+  fadeOut: number;
+  /** How far the music dips while the video's own audio is loud, in dB. */
+  duck: number;
+  /** Level of the video's own audio, from 0 (muted) to 1. */
+  originalVolume: number;
+}
+
+export interface SyncPlayer {
+  /** Sets the audio to play against the video; null while it renders. */
+  setMusic: (music: AudioBuffer | null) => void;
+  update: (settings: SyncSettings) => void;
+  dispose: () => void;
+}
+
+// The video's audio counts as loud, e.g. someone speaking, above this RMS level
+const DUCK_THRESHOLD_DB = -40;
+// Ducking pulls the music down quickly and lets it back up slowly, so it doesn't pump
+const DUCK_ATTACK = 0.03;
+const DUCK_RELEASE = 0.3;
+
+// Every player shares one context, since browsers only allow a few to exist at once.
+// It's suspended while no player is using it.
+let sharedContext: AudioContext | null = null;
+let activePlayers = 0;
+// A media element can only ever feed one source node, so each video keeps its source for
+// life, however many players are created for it, e.g. when React remounts one
+const sources = new WeakMap<HTMLVideoElement, MediaElementAudioSourceNode>();
+
+const routeVideo = (video: HTMLVideoElement) => {
+  sharedContext ??= new AudioContext();
+  const context = sharedContext;
+  let original = sources.get(video);
+  if (!original) {
+    original = context.createMediaElementSource(video);
+    sources.set(video, original);
+  }
+  return { context, original };
+};
+
+/**
+ * The music's fade level at a point in the video, from 0 to 1.
+ * @param time Seconds into the video.
+ * @param settings Where the music starts and how long it fades.
+ * @param end When the video ends, in seconds.
+ */
+export const fadeGainAt = (time: number, { offset, fadeIn, fadeOut }: SyncSettings, end: number): number => {
+  const intoMusic = time - offset;
+  if (intoMusic < 0 || time >= end) return 0;
+  const fadeInGain = fadeIn > 0 ? Math.min(1, intoMusic / fadeIn) : 1;
+  const fadeOutGain = fadeOut > 0 ? Math.min(1, (end - time) / fadeOut) : 1;
+  return fadeInGain * fadeOutGain;
+};
+
+/**
+ * Plays music in time with a video element, which stays the clock: the music is
+ * restarted from the right place whenever the video plays, seeks or stalls, and faded and
+ * ducked under the video's own audio on every animation frame. The video's own audio is
+ * routed through the player, and is silent once the player is disposed.
+ */
+export const createSyncPlayer = (video: HTMLVideoElement, initialSettings: SyncSettings): SyncPlayer => {
+  const { context, original } = routeVideo(video);
+  activePlayers++;
+  const originalGain = context.createGain();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  original.connect(originalGain).connect(context.destination);
+  original.connect(analyser);
+  const musicGain = context.createGain();
+  musicGain.gain.value = 0;
+  musicGain.connect(context.destination);
+
+  const samples = new Float32Array(analyser.fftSize);
+  let settings = initialSettings;
+  let music: AudioBuffer | null = null;
+  let source: AudioBufferSourceNode | null = null;
+  let frame = 0;
+  originalGain.gain.value = settings.originalVolume;
+
+  const stopMusic = () => {
+    source?.stop();
+    source?.disconnect();
+    source = null;
+  };
+
+  const startMusic = () => {
+    stopMusic();
+    if (video.paused || video.seeking) return;
+    // Also lets the video's own audio through; the context starts suspended until a user gesture
+    context.resume();
+    if (!music) return;
+    const position = video.currentTime - settings.offset;
+    if (position >= music.duration) return;
+    source = context.createBufferSource();
+    source.buffer = music;
+    source.connect(musicGain);
+    // Before the music's start, schedule it for when the video gets there
+    source.start(context.currentTime + Math.max(0, -position), Math.max(0, position));
+  };
+
+  const tick = () => {
+    analyser.getFloatTimeDomainData(samples);
+    const power = samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length;
+    const isLoud = settings.originalVolume > 0 && 10 * Math.log10(power) > DUCK_THRESHOLD_DB;
+    const duck = isLoud ? Math.pow(10, -settings.duck / 20) : 1;
+    const gain = fadeGainAt(video.currentTime, settings, video.duration) * duck;
+    musicGain.gain.setTargetAtTime(gain, context.currentTime, isLoud ? DUCK_ATTACK : DUCK_RELEASE);
+    frame = requestAnimationFrame(tick);
+  };
+  frame = requestAnimationFrame(tick);
+
+  const events: [string, () => void][] = [
+    ['playing', startMusic],
+    ['seeked', startMusic],
+    ['pause', stopMusic],
+    ['waiting', stopMusic],
+    ['seeking', stopMusic],
+  ];
+  events.forEach(([name, handler]) => video.addEventListener(name, handler));
+
+  return {
+    setMusic: (next) => {
+      music = next;
+      startMusic();
+    },
+    update: (next) => {
+      const hasMoved = next.offset !== settings.offset;
+      settings = next;
+      originalGain.gain.setTargetAtTime(settings.originalVolume, context.currentTime, 0.02);
+      if (hasMoved) startMusic();
+    },
+    dispose: () => {
+      cancelAnimationFrame(frame);
+      stopMusic();
+      events.forEach(([name, handler]) => video.removeEventListener(name, handler));
+      original.disconnect();
+      musicGain.disconnect();
+      originalGain.disconnect();
+      analyser.disconnect();
+      if (--activePlayers === 0) context.suspend();
+    },
+  };
+};
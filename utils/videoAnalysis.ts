@@ -0,0 +1,202 @@
+import type { Keyframe, VideoAnalysis } from '../types';
+
+export interface AnalysisOptions {
+  signal?: AbortSignal;
+  /** Called as frames are sampled, with the fraction done from 0 to 1. */
+  onProgress?: (fraction: number) => void;
+}
+
+// Frames are sampled at most this often, and no more than this many times in all
+const MIN_SAMPLE_SECONDS = 0.2;
+const MAX_SAMPLES = 150;
+// Scene cuts closer together than this are treated as one, e.g. a flash or a fast pan
+const MIN_SCENE_SECONDS = 1;
+// Histogram distance from the previous sample above which the picture has certainly changed;
+// busier footage needs more, so the threshold also adapts to the video's own motion
+const CUT_DISTANCE = 0.35;
+const CUT_DEVIATIONS = 3;
+
+const MIN_KEYFRAMES = 4;
+const MAX_KEYFRAMES = 8;
+
+// Frames are compared this small, which is quick and ignores grain and compression noise
+const PROBE_WIDTH = 64;
+const PROBE_HEIGHT = 36;
+const HISTOGRAM_BINS = 8;
+const THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_QUALITY = 0.7;
+// A seek that takes longer than this is treated as failed, so an unseekable file can't stall the analysis
+const SEEK_TIMEOUT_MS = 10000;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas 2D drawing is not available in this browser.');
+  return { canvas, context };
+};
+
+// Resolves once the video fires `event`; rejects with `failure` if it errors first or
+// takes longer than `timeout` ms, or with the abort reason if the signal fires
+const waitForVideo = (video: HTMLVideoElement, event: string, failure: string, signal?: AbortSignal, timeout?: number): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const settle = (outcome: () => void) => {
+    clearTimeout(timer);
+    video.removeEventListener(event, onEvent);
+    video.removeEventListener('error', onError);
+    signal?.removeEventListener('abort', onAbort);
+    outcome();
+  };
+  const onEvent = () => settle(resolve);
+  const onError = () => settle(() => reject(new Error(failure)));
+  const onAbort = () => settle(() => reject(signal!.reason));
+  const timer = timeout === undefined ? undefined : setTimeout(onError, timeout);
+  video.addEventListener(event, onEvent);
+  video.addEventListener('error', onError);
+  signal?.addEventListener('abort', onAbort);
+});
+
+const loadVideo = async (url: string, signal?: AbortSignal): Promise<HTMLVideoElement> => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  const loaded = waitForVideo(video, 'loadeddata', 'The browser could not decode this video.', signal);
+  video.src = url;
+  await loaded;
+  return video;
+};
+
+const seek = (video: HTMLVideoElement, time: number, signal?: AbortSignal): Promise<void> => {
+  const seeked = waitForVideo(video, 'seeked', 'The browser could not seek through this video.', signal, SEEK_TIMEOUT_MS);
+  video.currentTime = time;
+  return seeked;
+};
+
+// Color histogram of the frame, normalized to sum to 1 per channel
+const histogram = (pixels: Uint8ClampedArray): Float32Array => {
+  const bins = new Float32Array(HISTOGRAM_BINS * 3);
+  const pixelCount = pixels.length / 4;
+  for (let i = 0; i < pixels.length; i += 4) {
+    for (let channel = 0; channel < 3; channel++) {
+      bins[channel * HISTOGRAM_BINS + ((pixels[i + channel] * HISTOGRAM_BINS) >> 8)] += 1 / pixelCount;
+    }
+  }
+  return bins;
+};
+
+// How different two frames look, from 0 (same colors) to 1 (nothing in common)
+const histogramDistance = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / 6;
+};
+
+const findSceneCuts = (times: number[], distances: number[]): number[] => {
+  if (distances.length === 0) return [];
+  const mean = distances.reduce((sum, distance) => sum + distance, 0) / distances.length;
+  const deviation = Math.sqrt(distances.reduce((sum, distance) => sum + (distance - mean) ** 2, 0) / distances.length);
+  const threshold = Math.max(CUT_DISTANCE, mean + CUT_DEVIATIONS * deviation);
+
+  const cuts: number[] = [];
+  distances.forEach((distance, i) => {
+    // distances[i] compares sample i with sample i + 1
+    const time = times[i + 1];
+    if (distance > threshold && time - (cuts[cuts.length - 1] ?? 0) >= MIN_SCENE_SECONDS) cuts.push(time);
+  });
+  return cuts;
+};
+
+// One still from the middle of each scene, keeping the longest scenes when there are too
+// many, and evenly spaced stills when there are too few to show what the video is about
+const chooseKeyframeTimes = (duration: number, cuts: number[]): number[] => {
+  const bounds = [0, ...cuts, duration];
+  const scenes = bounds.slice(0, -1).map((start, i) => ({ start, end: bounds[i + 1] }));
+  if (scenes.length < MIN_KEYFRAMES) {
+    return Array.from({ length: MIN_KEYFRAMES }, (_, i) => ((i + 0.5) / MIN_KEYFRAMES) * duration);
+  }
+  return scenes
+    .sort((a, b) => (b.end - b.start) - (a.end - a.start))
+    .slice(0, MAX_KEYFRAMES)
+    .map(scene => (scene.start + scene.end) / 2)
+    .sort((a, b) => a - b);
+};
+
+const captureThumbnail = (source: CanvasImageSource, width: number, height: number): string => {
+  const scale = Math.min(1, THUMBNAIL_WIDTH / width);
+  const { canvas, context } = createCanvas(Math.round(width * scale), Math.round(height * scale));
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY);
+};
+
+/**
+ * Analyzes a video file in the browser: reads its duration, finds scene cuts by comparing
+ * color histograms of sampled frames, and captures a still from each main scene.
+ */
+export const analyzeVideo = async (file: File, { signal, onProgress }: AnalysisOptions = {}): Promise<VideoAnalysis> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const video = await loadVideo(url, signal);
+    const duration = video.duration;
+    if (!Number.isFinite(duration) || duration <= 0) throw new Error('This video has no readable length.');
+
+    const probe = createCanvas(PROBE_WIDTH, PROBE_HEIGHT);
+    const step = Math.max(MIN_SAMPLE_SECONDS, duration / MAX_SAMPLES);
+    const times: number[] = [];
+    const distances: number[] = [];
+    let previous: Float32Array | null = null;
+    for (let time = 0; time < duration; time += step) {
+      signal?.throwIfAborted();
+      await seek(video, time, signal);
+      probe.context.drawImage(video, 0, 0, PROBE_WIDTH, PROBE_HEIGHT);
+      const current = histogram(probe.context.getImageData(0, 0, PROBE_WIDTH, PROBE_HEIGHT).data);
+      if (previous) distances.push(histogramDistance(previous, current));
+      previous = current;
+      times.push(time);
+      onProgress?.(Math.min(1, time / duration));
+    }
+
+    const sceneCuts = findSceneCuts(times, distances);
+    const keyframes: Keyframe[] = [];
+    for (const time of chooseKeyframeTimes(duration, sceneCuts)) {
+      signal?.throwIfAborted();
+      await seek(video, time, signal);
+      keyframes.push({ time, dataUrl: captureThumbnail(video, video.videoWidth, video.videoHeight) });
+    }
+    onProgress?.(1);
+    return { name: file.name, duration, sceneCuts, keyframes };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Turns a set of stills into an analysis with no duration or cuts, for creators who
+ * would rather pick the keyframes themselves. Only the first few are kept.
+ */
+export const analyzeStills = async (files: File[], { signal }: AnalysisOptions = {}): Promise<VideoAnalysis> => {
+  const keyframes: Keyframe[] = [];
+  for (const [index, file] of files.slice(0, MAX_KEYFRAMES).entries()) {
+    signal?.throwIfAborted();
+    const image = await createImageBitmap(file);
+    keyframes.push({ time: index, dataUrl: captureThumbnail(image, image.width, image.height) });
+    image.close();
+  }
+  const name = files.length === 1 ? files[0].name : `${files.length} images`;
+  return { name, duration: null, sceneCuts: [], keyframes };
+};
+
+/**
+ * Analyzes whatever was dropped: the first video if there is one, otherwise the images.
+ */
+export const analyzeMedia = (files: File[], options?: AnalysisOptions): Promise<VideoAnalysis> => {
+  const video = files.find(file => file.type.startsWith('video/'));
+  if (video) return analyzeVideo(video, options);
+  const images = files.filter(file => file.type.startsWith('image/'));
+  if (images.length === 0) return Promise.reject(new Error('Drop a video file or some images.'));
+  return analyzeStills(images, options);
+};
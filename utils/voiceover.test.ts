@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { SpeechRegion } from '../types';
+import type { PcmAudio } from './encoders';
+import { applyDucking, detectSpeech, duckAmountAt } from './voiceover';
+
+const mono = (seconds: number, sampleRate: number, sample: (time: number) => number): PcmAudio => {
+  const data = Float32Array.from({ length: Math.round(seconds * sampleRate) }, (_, i) => sample(i / sampleRate));
+  return { numberOfChannels: 1, length: data.length, sampleRate, getChannelData: () => data };
+};
+
+// Silence with a voice-range tone wherever `spans` says someone is talking
+const speech = (seconds: number, spans: [number, number][]): PcmAudio =>
+  mono(seconds, 16000, time => (spans.some(([start, end]) => time >= start && time < end) ? 0.1 * Math.sin(2 * Math.PI * 300 * time) : 0));
+
+const expectRegions = (actual: SpeechRegion[], expected: [number, number][]) => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((region, index) => {
+    expect(Math.abs(region.start - expected[index][0])).toBeLessThan(0.03);
+    expect(Math.abs(region.end - expected[index][1])).toBeLessThan(0.03);
+  });
+};
+
+describe('detectSpeech', () => {
+  // Regions start 50 ms early and end 150 ms late, to cover soft onsets and trailing consonants
+  it.each<{ name: string; spans: [number, number][]; regions: [number, number][] }>([
+    { name: 'finds nothing in silence', spans: [], regions: [] },
+    { name: 'finds one phrase', spans: [[1, 2]], regions: [[0.95, 2.15]] },
+    { name: 'bridges a short pause', spans: [[1, 2], [2.2, 3]], regions: [[0.95, 3.15]] },
+    { name: 'splits at a long pause', spans: [[1, 2], [2.6, 3]], regions: [[0.95, 2.15], [2.55, 3.15]] },
+    { name: 'drops a blip too short to be speech', spans: [[1, 1.1], [2, 3]], regions: [[1.95, 3.15]] },
+    { name: 'keeps a word just long enough', spans: [[1, 1.2]], regions: [[0.95, 1.35]] },
+    { name: 'clips the widening to the recording', spans: [[0, 1], [3.9, 4]], regions: [[0, 1.15]] },
+    { name: 'clips the tail to the end of the recording', spans: [[3, 4]], regions: [[2.95, 4]] },
+  ])('$name', ({ spans, regions }) => {
+    expectRegions(detectSpeech(speech(4, spans)), regions);
+  });
+});
+
+describe('duckAmountAt', () => {
+  const regions: SpeechRegion[] = [{ start: 1, end: 2 }, { start: 2.3, end: 3 }];
+
+  // Ducking ramps in over 120 ms before a region and out over 400 ms after it
+  it.each([
+    [0.5, 0],
+    [0.88, 0],
+    [0.94, 0.5],
+    [1, 1],
+    [1.5, 1],
+    [2, 1],
+    [2.1, 0.75],
+    // Between two regions, whichever ramp is deeper wins
+    [2.2, 0.5],
+    [2.27, 0.75],
+    [3.2, 0.5],
+    [3.4, 0],
+  ])('at %f s is %f', (time, amount) => {
+    expect(duckAmountAt(time, regions)).toBeCloseTo(amount, 5);
+  });
+});
+
+describe('applyDucking', () => {
+  it('dips the music by the depth under speech and ramps at the edges', () => {
+    const music = mono(4, 1000, () => 1);
+    applyDucking(music, [{ start: 1, end: 2 }], { depth: 12, carve: false });
+    const data = music.getChannelData(0);
+    const floor = Math.pow(10, -12 / 20);
+    expect(data[500]).toBe(1);
+    expect(data[940]).toBeCloseTo(1 - 0.5 * (1 - floor), 5);
+    expect(data[1500]).toBeCloseTo(floor, 5);
+    expect(data[2200]).toBeCloseTo(1 - 0.5 * (1 - floor), 5);
+    expect(data[3000]).toBe(1);
+  });
+
+  it('leaves music without speech untouched, even with carving on', () => {
+    const music = mono(1, 8000, time => Math.sin(2 * Math.PI * 2000 * time));
+    const before = music.getChannelData(0).slice();
+    applyDucking(music, [], { depth: 12, carve: true });
+    expect(music.getChannelData(0)).toEqual(before);
+  });
+});
@@ -0,0 +1,181 @@
+import type { DuckingSettings, SpeechRegion, VoiceoverAnalysis } from '../types';
+import type { PcmAudio } from './encoders';
+import { applyBiquad, masterAudio } from './mastering';
+import type { Biquad } from './mastering';
+
+/**
+ * An uploaded or recorded voiceover, with what analysis found in it.
+ */
+export interface VoiceoverSource {
+  file: File;
+  analysis: VoiceoverAnalysis;
+}
+
+// Speech is detected from the level of short frames, after cutting rumble below the voice
+const FRAME_SECONDS = 0.02;
+const RUMBLE_CUTOFF = 150;
+// A frame is speech when it's this far above the recording's noise floor, and never below
+// an absolute floor, so room tone and breaths don't count
+const SPEECH_OVER_FLOOR_DB = 10;
+const MIN_SPEECH_DB = -55;
+// Pauses this short stay inside one region, and blips this short aren't speech
+const MAX_PAUSE_SECONDS = 0.3;
+const MIN_SPEECH_SECONDS = 0.15;
+// Regions are widened a little to cover soft word onsets and trailing consonants
+const LEAD_SECONDS = 0.05;
+const TAIL_SECONDS = 0.15;
+
+// Offline, the music can start dipping just before each phrase and recover gently after it
+const DUCK_ATTACK_SECONDS = 0.12;
+const DUCK_RELEASE_SECONDS = 0.4;
+// The carve is a wide dip centred between 1 and 4 kHz
+const CARVE_FREQUENCY = 2000;
+const CARVE_Q = 0.7;
+const CARVE_DEPTH_DB = 6;
+
+const toDb = (power: number): number => 10 * Math.log10(Math.max(power, 1e-12));
+
+// RBJ audio-EQ-cookbook designs
+const highPass = (frequency: number, sampleRate: number): Biquad => {
+  const w = (2 * Math.PI * frequency) / sampleRate;
+  const alpha = Math.sin(w) / (2 * Math.SQRT1_2);
+  const a0 = 1 + alpha;
+  const cos = Math.cos(w);
+  return {
+    b: [(1 + cos) / 2 / a0, -(1 + cos) / a0, (1 + cos) / 2 / a0],
+    a: [(-2 * cos) / a0, (1 - alpha) / a0],
+  };
+};
+
+const peaking = (frequency: number, q: number, gainDb: number, sampleRate: number): Biquad => {
+  const w = (2 * Math.PI * frequency) / sampleRate;
+  const alpha = Math.sin(w) / (2 * q);
+  const amplitude = Math.pow(10, gainDb / 40);
+  const a0 = 1 + alpha / amplitude;
+  const cos = Math.cos(w);
+  return {
+    b: [(1 + alpha * amplitude) / a0, (-2 * cos) / a0, (1 - alpha * amplitude) / a0],
+    a: [(-2 * cos) / a0, (1 - alpha / amplitude) / a0],
+  };
+};
+
+const percentile = (values: number[], fraction: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+};
+
+/**
+ * Decodes an audio file, resampled to the given rate.
+ */
+export const decodeAudioFile = async (file: File, sampleRate: number): Promise<AudioBuffer> => {
+  const data = await file.arrayBuffer();
+  return new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(data);
+};
+
+/**
+ * Finds where someone is speaking, from how far each short frame rises above the
+ * recording's own noise floor. Short pauses are bridged and stray blips dropped.
+ */
+export const detectSpeech = (audio: PcmAudio): SpeechRegion[] => {
+  const mono = new Float32Array(audio.length);
+  for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+    const data = audio.getChannelData(channel);
+    for (let i = 0; i < audio.length; i++) mono[i] += data[i] / audio.numberOfChannels;
+  }
+  const filtered = applyBiquad(mono, highPass(RUMBLE_CUTOFF, audio.sampleRate));
+
+  const frameLength = Math.max(1, Math.round(FRAME_SECONDS * audio.sampleRate));
+  const levels: number[] = [];
+  for (let start = 0; start < filtered.length; start += frameLength) {
+    const end = Math.min(filtered.length, start + frameLength);
+    let power = 0;
+    for (let i = start; i < end; i++) power += filtered[i] * filtered[i];
+    levels.push(toDb(power / (end - start)));
+  }
+  if (levels.length === 0) return [];
+  const threshold = Math.max(MIN_SPEECH_DB, percentile(levels, 0.1) + SPEECH_OVER_FLOOR_DB);
+
+  const regions: SpeechRegion[] = [];
+  levels.forEach((level, frame) => {
+    if (level < threshold) return;
+    const start = frame * FRAME_SECONDS;
+    const last = regions[regions.length - 1];
+    if (last && start - last.end <= MAX_PAUSE_SECONDS) last.end = start + FRAME_SECONDS;
+    else regions.push({ start, end: start + FRAME_SECONDS });
+  });
+  const duration = audio.length / audio.sampleRate;
+  return regions
+    .filter(region => region.end - region.start >= MIN_SPEECH_SECONDS)
+    .map(region => ({ start: Math.max(0, region.start - LEAD_SECONDS), end: Math.min(duration, region.end + TAIL_SECONDS) }));
+};
+
+/**
+ * Decodes a voiceover and finds its speech, all in the browser.
+ */
+export const analyzeVoiceover = async (file: File, signal?: AbortSignal): Promise<VoiceoverAnalysis> => {
+  const audio = await decodeAudioFile(file, 16000);
+  signal?.throwIfAborted();
+  return { name: file.name, duration: audio.duration, regions: detectSpeech(audio) };
+};
+
+/**
+ * How far the music is ducked at each point in time, from 0 (not at all) to 1 (fully),
+ * ramping down ahead of each region and back up after it.
+ * @param time Seconds into the track.
+ */
+export const duckAmountAt = (time: number, regions: SpeechRegion[]): number => {
+  let amount = 0;
+  for (const { start, end } of regions) {
+    if (time >= start && time <= end) return 1;
+    if (time < start && time > start - DUCK_ATTACK_SECONDS) amount = Math.max(amount, 1 - (start - time) / DUCK_ATTACK_SECONDS);
+    if (time > end && time < end + DUCK_RELEASE_SECONDS) amount = Math.max(amount, 1 - (time - end) / DUCK_RELEASE_SECONDS);
+  }
+  return amount;
+};
+
+/**
+ * Ducks music in place under a voiceover's speech, and optionally carves room for the
+ * voice out of the music's 1–4 kHz band while it speaks.
+ * @param music The rendered music.
+ * @param regions Where the voiceover speaks, from `detectSpeech`.
+ */
+export const applyDucking = (music: PcmAudio, regions: SpeechRegion[], { depth, carve }: DuckingSettings) => {
+  // The envelope changes slowly, so it's worked out once per millisecond and held between
+  const step = Math.max(1, Math.round(music.sampleRate / 1000));
+  const amounts = new Float32Array(Math.ceil(music.length / step));
+  for (let i = 0; i < amounts.length; i++) amounts[i] = duckAmountAt((i * step) / music.sampleRate, regions);
+  const floor = Math.pow(10, -depth / 20);
+  const carveFilter = carve ? peaking(CARVE_FREQUENCY, CARVE_Q, -CARVE_DEPTH_DB, music.sampleRate) : null;
+
+  for (let channel = 0; channel < music.numberOfChannels; channel++) {
+    const data = music.getChannelData(channel);
+    const carved = carveFilter ? applyBiquad(data, carveFilter) : null;
+    for (let i = 0; i < music.length; i++) {
+      const amount = amounts[Math.floor(i / step)];
+      if (amount === 0) continue;
+      const sample = carved ? data[i] + (carved[i] - data[i]) * amount : data[i];
+      data[i] = sample * (1 - amount * (1 - floor));
+    }
+  }
+};
+
+/**
+ * Lays a voiceover over music and masters the result. The voice is brought to the
+ * loudness target first, so it sits on top of the music rather than under it.
+ * @param music The ducked music; the mix is as long as it is.
+ * @param voice The voiceover at the music's sample rate; it is changed in place.
+ * @param loudnessTarget The integrated loudness of the finished mix, in LUFS.
+ */
+export const mixVoiceover = (music: AudioBuffer, voice: AudioBuffer, loudnessTarget: number): AudioBuffer => {
+  masterAudio(voice, loudnessTarget);
+  const mixed = new AudioBuffer({ length: music.length, numberOfChannels: music.numberOfChannels, sampleRate: music.sampleRate });
+  for (let channel = 0; channel < music.numberOfChannels; channel++) {
+    const output = mixed.getChannelData(channel);
+    output.set(music.getChannelData(channel));
+    const speech = voice.getChannelData(Math.min(channel, voice.numberOfChannels - 1));
+    const length = Math.min(output.length, speech.length);
+    for (let i = 0; i < length; i++) output[i] += speech[i];
+  }
+  masterAudio(mixed, loudnessTarget);
+  return mixed;
+};
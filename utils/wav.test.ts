@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import type { CueMarker } from '../types';
+import type { PcmAudio } from './encoders';
+import { bufferToWav } from './wav';
+import type { WavSampleFormat } from './wav';
+
+interface Chunk {
+  id: string;
+  /** The payload, without the padding byte. */
+  data: DataView;
+}
+
+const readId = (view: DataView, offset: number): string =>
+  String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)));
+
+// Walks a run of RIFF chunks, checking each pads to an even length and the run ends exactly at its end
+const readChunks = (view: DataView, start: number, end: number): Chunk[] => {
+  const chunks: Chunk[] = [];
+  let offset = start;
+  while (offset < end) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ id: readId(view, offset), data: new DataView(view.buffer, view.byteOffset + offset + 8, size) });
+    offset += 8 + size + (size % 2);
+  }
+  expect(offset).toBe(end);
+  return chunks;
+};
+
+const readWav = (wav: ArrayBuffer): Chunk[] => {
+  const view = new DataView(wav);
+  expect(readId(view, 0)).toBe('RIFF');
+  expect(view.getUint32(4, true)).toBe(wav.byteLength - 8);
+  expect(readId(view, 8)).toBe('WAVE');
+  return readChunks(view, 12, wav.byteLength);
+};
+
+const chunk = (chunks: Chunk[], id: string, listType?: string): DataView => {
+  const found = chunks.find(candidate => candidate.id === id && (!listType || readId(candidate.data, 0) === listType));
+  if (!found) throw new Error(`No ${id} ${listType ?? ''} chunk`);
+  return found.data;
+};
+
+const readText = (view: DataView, offset: number): string => {
+  const bytes: number[] = [];
+  for (let i = offset; view.getUint8(i) !== 0; i++) bytes.push(view.getUint8(i));
+  return new TextDecoder().decode(new Uint8Array(bytes));
+};
+
+const silence = (frames: number, numberOfChannels = 2, sampleRate = 44100): PcmAudio => {
+  const channels = Array.from({ length: numberOfChannels }, () => new Float32Array(frames));
+  return { numberOfChannels, length: frames, sampleRate, getChannelData: channel => channels[channel] };
+};
+
+describe('bufferToWav', () => {
+  it.each<{ format: WavSampleFormat; channels: number; frames: number; tag: number; bits: number; chunks: string[] }>([
+    { format: 'pcm16', channels: 2, frames: 100, tag: 1, bits: 16, chunks: ['fmt ', 'LIST', 'data'] },
+    { format: 'pcm24', channels: 1, frames: 101, tag: 1, bits: 24, chunks: ['fmt ', 'LIST', 'data'] },
+    { format: 'float32', channels: 2, frames: 100, tag: 3, bits: 32, chunks: ['fmt ', 'fact', 'LIST', 'data'] },
+  ])('lays out a plain $format file', ({ format, channels, frames, tag, bits, chunks }) => {
+    const parsed = readWav(bufferToWav(silence(frames, channels), format));
+    expect(parsed.map(({ id }) => id)).toEqual(chunks);
+    const fmt = chunk(parsed, 'fmt ');
+    expect(fmt.getUint16(0, true)).toBe(tag);
+    expect(fmt.getUint16(2, true)).toBe(channels);
+    expect(fmt.getUint32(4, true)).toBe(44100);
+    expect(fmt.getUint32(8, true)).toBe(44100 * channels * (bits / 8));
+    expect(fmt.getUint16(12, true)).toBe(channels * (bits / 8));
+    expect(fmt.getUint16(14, true)).toBe(bits);
+    // An odd-length data chunk, like 101 mono 24-bit frames, is padded but reports its true size
+    expect(chunk(parsed, 'data').byteLength).toBe(frames * channels * (bits / 8));
+    if (format === 'float32') expect(chunk(parsed, 'fact').getUint32(0, true)).toBe(frames);
+  });
+
+  it('writes the tempo and beat count in the acid chunk', () => {
+    const acid = chunk(readWav(bufferToWav(silence(44100 * 4), 'pcm16', { bpm: 90 })), 'acid');
+    expect(acid.byteLength).toBe(24);
+    expect(acid.getUint32(12, true)).toBe(6);
+    expect(acid.getUint16(16, true)).toBe(4);
+    expect(acid.getUint16(18, true)).toBe(4);
+    expect(acid.getFloat32(20, true)).toBe(90);
+  });
+
+  it('writes the title and comment in a LIST/INFO chunk', () => {
+    const info = chunk(readWav(bufferToWav(silence(10), 'pcm16', { title: 'Odd', comment: 'Even' })), 'LIST', 'INFO');
+    const entries = readChunks(info, 4, info.byteLength);
+    expect(entries.map(({ id, data }) => [id, readText(data, 0)])).toEqual([['INAM', 'Odd'], ['ICMT', 'Even'], ['ISFT', 'ClipVibe']]);
+  });
+
+  it('places each marker on its sample with a matching label', () => {
+    const markers: CueMarker[] = [
+      { time: 0, label: 'Intro', kind: 'section' },
+      { time: 1.5, label: 'Scene 2', kind: 'scene' },
+      { time: 2.25, label: 'Chorus', kind: 'section' },
+      // Past the end, so it's pinned to the last sample
+      { time: 10, label: 'Outro', kind: 'section' },
+    ];
+    const parsed = readWav(bufferToWav(silence(44100 * 3), 'pcm16', { markers }));
+    expect(parsed.map(({ id }) => id)).toEqual(['fmt ', 'LIST', 'cue ', 'LIST', 'data']);
+
+    const cue = chunk(parsed, 'cue ');
+    expect(cue.getUint32(0, true)).toBe(markers.length);
+    expect(cue.byteLength).toBe(4 + markers.length * 24);
+    const points = markers.map((_, index) => {
+      const offset = 4 + index * 24;
+      expect(readId(cue, offset + 8)).toBe('data');
+      expect(cue.getUint32(offset + 4, true)).toBe(cue.getUint32(offset + 20, true));
+      return { id: cue.getUint32(offset, true), sample: cue.getUint32(offset + 20, true) };
+    });
+    expect(points).toEqual([
+      { id: 1, sample: 0 },
+      { id: 2, sample: 66150 },
+      { id: 3, sample: 99225 },
+      { id: 4, sample: 132300 },
+    ]);
+
+    const adtl = chunk(parsed, 'LIST', 'adtl');
+    const labels = readChunks(adtl, 4, adtl.byteLength);
+    expect(labels.map(({ id, data }) => [id, data.getUint32(0, true), readText(data, 4)])).toEqual([
+      ['labl', 1, 'Intro'],
+      ['labl', 2, 'Scene 2'],
+      ['labl', 3, 'Chorus'],
+      ['labl', 4, 'Outro'],
+    ]);
+  });
+});
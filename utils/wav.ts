@@ -0,0 +1,152 @@
+import type { CueMarker } from '../types';
+import type { AudioMetadata, PcmAudio } from './encoders';
+
+export type WavSampleFormat = 'pcm16' | 'pcm24' | 'float32';
+
+const textEncoder = new TextEncoder();
+
+const writeString = (view: DataView, offset: number, string: string) => {
+  for (let i = 0; i < string.length; i++) {
+    view.setUint8(offset + i, string.charCodeAt(i));
+  }
+};
+
+// Builds a RIFF sub-chunk, padding the payload to an even length as the format requires.
+const riffChunk = (id: string, payload: Uint8Array): Uint8Array => {
+  const padded = payload.length + (payload.length % 2);
+  const chunk = new Uint8Array(8 + padded);
+  const view = new DataView(chunk.buffer);
+  writeString(view, 0, id);
+  view.setUint32(4, payload.length, true);
+  chunk.set(payload, 8);
+  return chunk;
+};
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// LIST/INFO chunk carrying the title and comment
+const infoChunk = (metadata: AudioMetadata): Uint8Array | null => {
+  const entries: [string, string | undefined][] = [
+    ['INAM', metadata.title],
+    ['ICMT', metadata.comment],
+    ['ISFT', 'ClipVibe'],
+  ];
+  const subChunks = entries
+    .filter((entry): entry is [string, string] => Boolean(entry[1]))
+    .map(([id, value]) => riffChunk(id, concatBytes([textEncoder.encode(value), new Uint8Array([0])])));
+  if (subChunks.length === 0) return null;
+  return riffChunk('LIST', concatBytes([textEncoder.encode('INFO'), ...subChunks]));
+};
+
+// ACID chunk: the de-facto place DAWs and editors read a WAV's tempo from
+const acidChunk = (bpm: number, buffer: PcmAudio): Uint8Array => {
+  const payload = new Uint8Array(24);
+  const view = new DataView(payload.buffer);
+  view.setUint32(0, 0, true); // flags: looping, no root note
+  view.setUint16(4, 60, true); // root note
+  view.setUint16(6, 0x8000, true);
+  view.setFloat32(8, 0, true);
+  view.setUint32(12, Math.round((buffer.length / buffer.sampleRate) * bpm / 60), true); // number of beats
+  view.setUint16(16, 4, true); // meter denominator
+  view.setUint16(18, 4, true); // meter numerator
+  view.setFloat32(20, bpm, true);
+  return riffChunk('acid', payload);
+};
+
+// cue chunk placing each marker on its sample, and a LIST/adtl chunk naming them
+const cueChunks = (markers: CueMarker[], buffer: PcmAudio): Uint8Array[] => {
+  const cue = new Uint8Array(4 + markers.length * 24);
+  const view = new DataView(cue.buffer);
+  view.setUint32(0, markers.length, true);
+  const labels = markers.map((marker, index) => {
+    const id = index + 1;
+    const offset = 4 + index * 24;
+    const position = Math.min(buffer.length, Math.round(marker.time * buffer.sampleRate));
+    view.setUint32(offset, id, true);
+    view.setUint32(offset + 4, position, true);
+    writeString(view, offset + 8, 'data');
+    view.setUint32(offset + 12, 0, true); // chunk start
+    view.setUint32(offset + 16, 0, true); // block start
+    view.setUint32(offset + 20, position, true);
+    const idBytes = new Uint8Array(4);
+    new DataView(idBytes.buffer).setUint32(0, id, true);
+    return riffChunk('labl', concatBytes([idBytes, textEncoder.encode(marker.label), new Uint8Array([0])]));
+  });
+  return [riffChunk('cue ', cue), riffChunk('LIST', concatBytes([textEncoder.encode('adtl'), ...labels]))];
+};
+
+/**
+ * Encodes rendered audio as a WAV file.
+ * @param buffer The rendered audio.
+ * @param sampleFormat 16- or 24-bit integer PCM, or 32-bit IEEE float.
+ * @param metadata Optional title/comment (LIST/INFO) and tempo (acid) tags, and markers (cue).
+ */
+export function bufferToWav(buffer: PcmAudio, sampleFormat: WavSampleFormat = 'pcm16', metadata: AudioMetadata = {}): ArrayBuffer {
+  const numOfChan = buffer.numberOfChannels;
+  const bytesPerSample = sampleFormat === 'pcm16' ? 2 : sampleFormat === 'pcm24' ? 3 : 4;
+  const isFloat = sampleFormat === 'float32';
+  const dataLength = buffer.length * numOfChan * bytesPerSample;
+
+  // fmt chunk; float files use the extended 18-byte form and need a fact chunk
+  const fmt = new Uint8Array(isFloat ? 18 : 16);
+  const fmtView = new DataView(fmt.buffer);
+  fmtView.setUint16(0, isFloat ? 3 : 1, true);
+  fmtView.setUint16(2, numOfChan, true);
+  fmtView.setUint32(4, buffer.sampleRate, true);
+  fmtView.setUint32(8, buffer.sampleRate * bytesPerSample * numOfChan, true);
+  fmtView.setUint16(12, numOfChan * bytesPerSample, true);
+  fmtView.setUint16(14, bytesPerSample * 8, true);
+
+  const headerChunks = [riffChunk('fmt ', fmt)];
+  if (isFloat) {
+    const fact = new Uint8Array(4);
+    new DataView(fact.buffer).setUint32(0, buffer.length, true);
+    headerChunks.push(riffChunk('fact', fact));
+  }
+  if (metadata.bpm) headerChunks.push(acidChunk(metadata.bpm, buffer));
+  const info = infoChunk(metadata);
+  if (info) headerChunks.push(info);
+  if (metadata.markers && metadata.markers.length > 0) headerChunks.push(...cueChunks(metadata.markers, buffer));
+  const header = concatBytes(headerChunks);
+
+  const length = 12 + header.length + 8 + dataLength + (dataLength % 2);
+  const bufferOut = new ArrayBuffer(length);
+  const view = new DataView(bufferOut);
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, length - 8, true);
+  writeString(view, 8, 'WAVE');
+  new Uint8Array(bufferOut).set(header, 12);
+  let offset = 12 + header.length;
+  writeString(view, offset, 'data');
+  view.setUint32(offset + 4, dataLength, true);
+  offset += 8;
+
+  const channels = Array.from({ length: numOfChan }, (_, channel) => buffer.getChannelData(channel));
+  for (let i = 0; i < buffer.length; i++) {
+    for (let channel = 0; channel < numOfChan; channel++) {
+      const sample = Math.max(-1, Math.min(1, channels[channel][i]));
+      if (sampleFormat === 'pcm16') {
+        view.setInt16(offset, sample < 0 ? sample * 32768 : sample * 32767, true);
+      } else if (sampleFormat === 'pcm24') {
+        const intSample = Math.round(sample < 0 ? sample * 8388608 : sample * 8388607);
+        view.setUint8(offset, intSample & 0xff);
+        view.setUint8(offset + 1, (intSample >> 8) & 0xff);
+        view.setUint8(offset + 2, (intSample >> 16) & 0xff);
+      } else {
+        view.setFloat32(offset, channels[channel][i], true);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return bufferOut;
+}
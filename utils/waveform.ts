@@ -0,0 +1,27 @@
+import type { PcmAudio } from './encoders';
+
+// Enough bars to read a preview's shape on a card without crowding it
+export const WAVEFORM_BINS = 96;
+
+/**
+ * Summarizes audio as the loudest absolute sample in each of `bins` equal slices, across
+ * all channels, for drawing a waveform thumbnail.
+ */
+export const computePeaks = (audio: PcmAudio, bins = WAVEFORM_BINS): number[] => {
+  const peaks = new Array<number>(bins).fill(0);
+  if (audio.length === 0) return peaks;
+  for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+    const data = audio.getChannelData(channel);
+    for (let bin = 0; bin < bins; bin++) {
+      const start = Math.floor((bin * audio.length) / bins);
+      const end = Math.floor(((bin + 1) * audio.length) / bins);
+      let peak = peaks[bin];
+      for (let i = start; i < end; i++) {
+        const sample = Math.abs(data[i]);
+        if (sample > peak) peak = sample;
+      }
+      peaks[bin] = Math.min(1, peak);
+    }
+  }
+  return peaks;
+};
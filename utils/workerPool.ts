@@ -0,0 +1,70 @@
+/** What a pooled worker posts back for each message it receives: exactly one of these. */
+export type WorkerReply<Response> = { result: Response } | { error: string };
+
+export interface WorkerPool<Request, Response> {
+  /**
+   * Sends a request to the next free worker, waiting in line while all are busy.
+   * @param transfer Buffers to move to the worker instead of copying.
+   */
+  run: (request: Request, transfer?: Transferable[]) => Promise<Response>;
+}
+
+interface PoolTask<Request, Response> {
+  request: Request;
+  transfer: Transferable[];
+  resolve: (response: Response) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Spreads requests over up to `size` workers, started lazily on first use. A worker
+ * that crashes is replaced by a fresh one for the next request.
+ * @param createWorker Starts one worker; it must answer every message with a `WorkerReply`.
+ * @param size The most workers to run at once.
+ */
+export const createWorkerPool = <Request, Response>(createWorker: () => Worker, size: number): WorkerPool<Request, Response> => {
+  const idle: Worker[] = [];
+  const queue: PoolTask<Request, Response>[] = [];
+  let workerCount = 0;
+
+  const dispatch = () => {
+    while (queue.length > 0) {
+      let worker = idle.pop();
+      if (!worker && workerCount < size) {
+        try {
+          worker = createWorker();
+          workerCount++;
+        } catch (error) {
+          queue.shift()?.reject(error);
+          continue;
+        }
+      }
+      if (!worker) return;
+
+      const task = queue.shift()!;
+      const busyWorker = worker;
+      busyWorker.onmessage = (event: MessageEvent<WorkerReply<Response>>) => {
+        idle.push(busyWorker);
+        if ('error' in event.data) task.reject(new Error(event.data.error));
+        else task.resolve(event.data.result);
+        dispatch();
+      };
+      busyWorker.onerror = (event) => {
+        event.preventDefault();
+        busyWorker.terminate();
+        workerCount--;
+        task.reject(new Error(event.message || 'Worker failed to start or crashed.'));
+        dispatch();
+      };
+      busyWorker.postMessage(task.request, task.transfer);
+    }
+  };
+
+  const run = (request: Request, transfer: Transferable[] = []): Promise<Response> =>
+    new Promise((resolve, reject) => {
+      queue.push({ request, transfer, resolve, reject });
+      dispatch();
+    });
+
+  return { run };
+};